@@ -1,12 +1,35 @@
 import Fastify from "fastify";
 import cors from "@fastify/cors";
 import ingestRoute from "./routes/ingest";
+import transactionsRoute from "./routes/transactions";
+import analyticsRoute from "./routes/analytics";
+import budgetsRoute from "./routes/budgets";
+import recurringRoute from "./routes/recurring";
+import merchantRulesRoute from "./routes/merchantRules";
+import reviewRoute from "./routes/review";
+import outboxRoute from "./routes/outbox";
+import apiKeysRoute from "./routes/apiKeys";
+import tenantsRoute from "./routes/tenants";
+import exchangeRatesRoute from "./routes/exchangeRates";
+import billRemindersRoute from "./routes/billReminders";
+import balancesRoute from "./routes/balances";
+import transfersRoute from "./routes/transfers";
+import creditCardsRoute from "./routes/creditCards";
+import refundsRoute from "./routes/refunds";
+import splitsRoute from "./routes/splits";
+import { authenticateRequest, bindTenant, verifyRequestSignature } from "./lib/auth";
+
+// Comma-separated browser origins allowed to call the API - none by default
+const CORS_ORIGINS = (process.env.CORS_ORIGINS || '')
+  .split(',')
+  .map((origin) => origin.trim())
+  .filter(Boolean);
 
 export function buildApp() {
   const app = Fastify({
     logger: {
       level: process.env.NODE_ENV === 'production' ? 'info' : 'debug',
-      redact: ['req.headers.authorization', 'req.headers.cookie', 'req.body.message'],
+      redact: ['req.headers.authorization', 'req.headers.cookie', 'req.headers["x-api-key"]', 'req.body.message'],
       serializers: {
         req: (req) => ({
           method: req.method,
@@ -23,8 +46,43 @@ export function buildApp() {
     trustProxy: true
   });
 
-  app.register(cors, { origin: true });
+  app.register(cors, { origin: CORS_ORIGINS.length > 0 ? CORS_ORIGINS : false });
+
+  // Keep the raw JSON body - request signatures are computed over the exact bytes sent
+  // Parsing stays with Fastify's own parser, which rejects __proto__ and constructor keys
+  const parseJson = app.getDefaultJsonParser('error', 'error');
+  app.removeContentTypeParser('application/json');
+  app.addContentTypeParser('application/json', { parseAs: 'string' }, (req, body, done) => {
+    const text = body as string;
+    req.rawBody = text;
+    if (!text.trim()) {
+      done(null, undefined);
+      return;
+    }
+    parseJson(req, text, done);
+  });
+
+  app.addHook('onRequest', authenticateRequest);
+  app.addHook('preHandler', verifyRequestSignature);
+  app.addHook('preHandler', bindTenant);
+
   app.register(ingestRoute, { prefix: "/api" });
+  app.register(transactionsRoute, { prefix: "/api" });
+  app.register(analyticsRoute, { prefix: "/api" });
+  app.register(budgetsRoute, { prefix: "/api" });
+  app.register(recurringRoute, { prefix: "/api" });
+  app.register(merchantRulesRoute, { prefix: "/api" });
+  app.register(reviewRoute, { prefix: "/api" });
+  app.register(outboxRoute, { prefix: "/api" });
+  app.register(billRemindersRoute, { prefix: "/api" });
+  app.register(balancesRoute, { prefix: "/api" });
+  app.register(transfersRoute, { prefix: "/api" });
+  app.register(creditCardsRoute, { prefix: "/api" });
+  app.register(refundsRoute, { prefix: "/api" });
+  app.register(splitsRoute, { prefix: "/api" });
+  app.register(apiKeysRoute, { prefix: "/api" });
+  app.register(tenantsRoute, { prefix: "/api" });
+  app.register(exchangeRatesRoute, { prefix: "/api" });
 
   // Health check endpoint
   app.get('/health', { logLevel: 'silent' }, async () => {
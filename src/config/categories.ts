@@ -0,0 +1,27 @@
+export const ALLOWED_CATEGORIES = [
+  'Rent and maintainence',
+  'Utilities',
+  'Groceries & Home Supplies',
+  'Food & Dining',
+  'Entertainment, OTT etc',
+  'Investements and Stock Purchases',
+  'Fashion and Shopping',
+  'Fuel',
+  'Vehicle Ownership (Tyres, Washing etc)',
+  'Health & Medicine Expenses',
+  'Transport',
+  'Sending money to parents or family',
+  'Travel and Vacations',
+  'Home Improvement',
+  'Helping Others / Donations',
+  'Unknown',
+  'Credit Card',
+  'EMI',
+  'Loan Repayment',
+] as const;
+
+export type Category = typeof ALLOWED_CATEGORIES[number];
+
+export function isAllowedCategory(category: string): category is Category {
+  return (ALLOWED_CATEGORIES as readonly string[]).includes(category);
+}
@@ -1,19 +1,31 @@
-import { GoogleGenerativeAI } from '@google/generative-ai';
+import { GenerationConfig, GenerativeModel, GoogleGenerativeAI } from '@google/generative-ai';
 
-const apiKey = process.env.GEMINI_API_KEY;
+// gemini-1.5-* models are retired, override with GEMINI_MODEL if needed
+export const GEMINI_MODEL = process.env.GEMINI_MODEL || 'gemini-2.0-flash';
 
-if (!apiKey) {
-  throw new Error('GEMINI_API_KEY is not defined in environment variables');
-}
-
-export const genAI = new GoogleGenerativeAI(apiKey);
+let genAI: GoogleGenerativeAI | null = null;
 
-export const geminiModel = genAI.getGenerativeModel({
-  model: 'gemini-1.5-flash',
-  generationConfig: {
-    temperature: 0.1,
-    topP: 0.95,
-    topK: 40,
-    maxOutputTokens: 256,
+/**
+ * Get a Gemini model client (created on first use, so other providers
+ * can run without GEMINI_API_KEY)
+ */
+export function getGeminiModel(generationConfig: GenerationConfig = {}): GenerativeModel {
+  if (!genAI) {
+    const apiKey = process.env.GEMINI_API_KEY;
+    if (!apiKey) {
+      throw new Error('GEMINI_API_KEY is not defined in environment variables');
+    }
+    genAI = new GoogleGenerativeAI(apiKey);
   }
-});
+
+  return genAI.getGenerativeModel({
+    model: GEMINI_MODEL,
+    generationConfig: {
+      temperature: 0.1,
+      topP: 0.95,
+      topK: 40,
+      maxOutputTokens: 256,
+      ...generationConfig,
+    },
+  });
+}
@@ -0,0 +1,36 @@
+import { google, sheets_v4 } from 'googleapis';
+
+// Spreadsheet of the default tenant, other tenants bring their own
+export const SHEETS_ID = process.env.GOOGLE_SHEETS_ID;
+const CLIENT_EMAIL = process.env.GOOGLE_CLIENT_EMAIL;
+const PRIVATE_KEY = process.env.GOOGLE_PRIVATE_KEY?.replace(/\\n/g, '\n');
+
+let sheetsClient: sheets_v4.Sheets | null = null;
+
+export function isSheetsConfigured(): boolean {
+  return Boolean(CLIENT_EMAIL && PRIVATE_KEY);
+}
+
+/**
+ * Lazily create the read/write Sheets client
+ * Deferred so the service can boot without Google credentials when another store is configured
+ */
+export function getSheetsClient(): sheets_v4.Sheets {
+  if (!CLIENT_EMAIL || !PRIVATE_KEY) {
+    throw new Error('Missing required Google Sheets environment variables');
+  }
+
+  if (!sheetsClient) {
+    const auth = new google.auth.GoogleAuth({
+      credentials: {
+        client_email: CLIENT_EMAIL,
+        private_key: PRIVATE_KEY,
+      },
+      scopes: ['https://www.googleapis.com/auth/spreadsheets'],
+    });
+
+    sheetsClient = google.sheets({ version: 'v4', auth });
+  }
+
+  return sheetsClient;
+}
@@ -0,0 +1,45 @@
+import { FastifyRequest, FastifyReply } from 'fastify';
+import { getTransactionStore } from '../lib/transactionStore';
+import { categoryQuerySchema, monthlyQuerySchema, summarizeCategories, summarizeMonthly } from '../lib/analytics';
+
+export async function monthlyAnalyticsHandler(
+  request: FastifyRequest<{ Querystring: Record<string, string> }>,
+  reply: FastifyReply
+) {
+  const parsedQuery = monthlyQuerySchema.safeParse(request.query);
+  if (!parsedQuery.success) {
+    return reply.status(400).send({ error: 'Invalid query', details: parsedQuery.error.issues });
+  }
+
+  try {
+    const transactions = await getTransactionStore().list();
+    const months = summarizeMonthly(transactions, parsedQuery.data);
+
+    return reply.status(200).send({ account: parsedQuery.data.account || 'all', months });
+  } catch (error) {
+    const errorMessage = error instanceof Error ? error.message : 'Unexpected error';
+    request.log.error({ error: errorMessage }, 'monthly_analytics_failed');
+    return reply.status(500).send({ error: errorMessage });
+  }
+}
+
+export async function categoryAnalyticsHandler(
+  request: FastifyRequest<{ Querystring: Record<string, string> }>,
+  reply: FastifyReply
+) {
+  const parsedQuery = categoryQuerySchema.safeParse(request.query);
+  if (!parsedQuery.success) {
+    return reply.status(400).send({ error: 'Invalid query', details: parsedQuery.error.issues });
+  }
+
+  try {
+    const { month, account, top } = parsedQuery.data;
+    const transactions = await getTransactionStore().list();
+
+    return reply.status(200).send(summarizeCategories(transactions, { month, account, topMerchants: top }));
+  } catch (error) {
+    const errorMessage = error instanceof Error ? error.message : 'Unexpected error';
+    request.log.error({ error: errorMessage }, 'category_analytics_failed');
+    return reply.status(500).send({ error: errorMessage });
+  }
+}
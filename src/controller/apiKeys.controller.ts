@@ -0,0 +1,70 @@
+import { FastifyRequest, FastifyReply } from 'fastify';
+import { ApiKeyConflictError, apiKeyInputSchema, createApiKey, listApiKeys, revokeApiKey } from '../lib/apiKeys';
+import { actsForDeployment } from '../lib/auth';
+import { defaultTenant, findTenant } from '../lib/tenants';
+
+/**
+ * Tenant admins only see and manage their own tenant's keys
+ */
+function scopedTenantId(request: FastifyRequest): string | undefined {
+  return actsForDeployment(request) ? undefined : (request.tenant ?? defaultTenant()).id;
+}
+
+function handleError(request: FastifyRequest, reply: FastifyReply, error: unknown, event: string) {
+  const errorMessage = error instanceof Error ? error.message : 'Unexpected error';
+  if (error instanceof ApiKeyConflictError) {
+    return reply.status(409).send({ error: errorMessage });
+  }
+  request.log.error({ error: errorMessage }, event);
+  return reply.status(500).send({ error: errorMessage });
+}
+
+export async function listApiKeysHandler(request: FastifyRequest, reply: FastifyReply) {
+  try {
+    return reply.status(200).send({ api_keys: await listApiKeys(scopedTenantId(request)) });
+  } catch (error) {
+    return handleError(request, reply, error, 'api_key_list_failed');
+  }
+}
+
+export async function createApiKeyHandler(request: FastifyRequest, reply: FastifyReply) {
+  const parsed = apiKeyInputSchema.safeParse(request.body);
+  if (!parsed.success) {
+    return reply.status(400).send({ error: 'Invalid API key', details: parsed.error.issues });
+  }
+
+  const ownTenantId = (request.tenant ?? defaultTenant()).id;
+  const tenantId = parsed.data.tenant_id ?? ownTenantId;
+  if (tenantId !== ownTenantId && !actsForDeployment(request)) {
+    return reply.status(403).send({ error: 'API keys can only be created for your own tenant' });
+  }
+
+  try {
+    if (!(await findTenant(tenantId))) {
+      return reply.status(400).send({ error: `Unknown tenant "${tenantId}"` });
+    }
+
+    const created = await createApiKey({ ...parsed.data, tenant_id: tenantId });
+    request.log.info({ api_key_id: created.api_key.id, name: created.api_key.name, tenant_id: created.api_key.tenant_id, scopes: created.api_key.scopes }, 'api_key_created');
+    return reply.status(201).send(created);
+  } catch (error) {
+    return handleError(request, reply, error, 'api_key_create_failed');
+  }
+}
+
+export async function revokeApiKeyHandler(
+  request: FastifyRequest<{ Params: { id: string } }>,
+  reply: FastifyReply
+) {
+  try {
+    const apiKey = await revokeApiKey(request.params.id, scopedTenantId(request));
+    if (!apiKey) {
+      return reply.status(404).send({ error: 'API key not found' });
+    }
+
+    request.log.warn({ api_key_id: apiKey.id, name: apiKey.name }, 'api_key_revoked');
+    return reply.status(200).send(apiKey);
+  } catch (error) {
+    return handleError(request, reply, error, 'api_key_revoke_failed');
+  }
+}
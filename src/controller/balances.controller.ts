@@ -0,0 +1,63 @@
+import { FastifyRequest, FastifyReply } from 'fastify';
+import { z } from 'zod';
+import { listAccountBalances, listBalanceGaps, resolveBalanceGap } from '../lib/balances';
+
+const gapListQuerySchema = z.object({
+  status: z.enum(['open', 'resolved']).default('open'),
+});
+
+const resolveBodySchema = z.object({
+  note: z.string().default(''),
+});
+
+export async function listBalancesHandler(request: FastifyRequest, reply: FastifyReply) {
+  try {
+    return reply.status(200).send({ accounts: await listAccountBalances() });
+  } catch (error) {
+    const errorMessage = error instanceof Error ? error.message : 'Unexpected error';
+    request.log.error({ error: errorMessage }, 'balance_list_failed');
+    return reply.status(500).send({ error: errorMessage });
+  }
+}
+
+export async function listBalanceGapsHandler(
+  request: FastifyRequest<{ Querystring: Record<string, string> }>,
+  reply: FastifyReply
+) {
+  const parsedQuery = gapListQuerySchema.safeParse(request.query);
+  if (!parsedQuery.success) {
+    return reply.status(400).send({ error: 'Invalid query', details: parsedQuery.error.issues });
+  }
+
+  try {
+    return reply.status(200).send({ gaps: await listBalanceGaps(parsedQuery.data.status) });
+  } catch (error) {
+    const errorMessage = error instanceof Error ? error.message : 'Unexpected error';
+    request.log.error({ error: errorMessage }, 'balance_gap_list_failed');
+    return reply.status(500).send({ error: errorMessage });
+  }
+}
+
+export async function resolveBalanceGapHandler(
+  request: FastifyRequest<{ Params: { id: string }; Body: unknown }>,
+  reply: FastifyReply
+) {
+  const parsedBody = resolveBodySchema.safeParse(request.body ?? {});
+  if (!parsedBody.success) {
+    return reply.status(400).send({ error: 'Invalid gap resolution', details: parsedBody.error.issues });
+  }
+
+  try {
+    const gap = await resolveBalanceGap(request.params.id, parsedBody.data.note);
+    if (!gap) {
+      return reply.status(404).send({ error: 'Balance gap not found' });
+    }
+
+    request.log.info({ gap_id: gap.id, account: gap.account }, 'balance_gap_resolved');
+    return reply.status(200).send(gap);
+  } catch (error) {
+    const errorMessage = error instanceof Error ? error.message : 'Unexpected error';
+    request.log.error({ gap_id: request.params.id, error: errorMessage }, 'balance_gap_resolve_failed');
+    return reply.status(500).send({ error: errorMessage });
+  }
+}
@@ -0,0 +1,12 @@
+import { FastifyRequest, FastifyReply } from 'fastify';
+import { listBillReminders } from '../lib/billReminders';
+
+export async function listBillRemindersHandler(request: FastifyRequest, reply: FastifyReply) {
+  try {
+    return reply.status(200).send({ reminders: await listBillReminders() });
+  } catch (error) {
+    const errorMessage = error instanceof Error ? error.message : 'Unexpected error';
+    request.log.error({ error: errorMessage }, 'bill_reminder_list_failed');
+    return reply.status(500).send({ error: errorMessage });
+  }
+}
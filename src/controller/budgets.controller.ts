@@ -0,0 +1,95 @@
+import { FastifyRequest, FastifyReply } from 'fastify';
+import {
+  budgetInputSchema,
+  BudgetConflictError,
+  createBudget,
+  deleteBudget,
+  getBudgetStatus,
+  listBudgets,
+  updateBudget,
+} from '../lib/budgets';
+
+function handleError(request: FastifyRequest, reply: FastifyReply, error: unknown, event: string) {
+  if (error instanceof BudgetConflictError) {
+    return reply.status(409).send({ error: error.message });
+  }
+  const errorMessage = error instanceof Error ? error.message : 'Unexpected error';
+  request.log.error({ error: errorMessage }, event);
+  return reply.status(500).send({ error: errorMessage });
+}
+
+export async function listBudgetsHandler(request: FastifyRequest, reply: FastifyReply) {
+  try {
+    return reply.status(200).send({ budgets: await listBudgets() });
+  } catch (error) {
+    return handleError(request, reply, error, 'budgets_list_failed');
+  }
+}
+
+export async function createBudgetHandler(
+  request: FastifyRequest<{ Body: unknown }>,
+  reply: FastifyReply
+) {
+  const parsedBody = budgetInputSchema.safeParse(request.body);
+  if (!parsedBody.success) {
+    return reply.status(400).send({ error: 'Invalid budget', details: parsedBody.error.issues });
+  }
+
+  try {
+    const budget = await createBudget(parsedBody.data);
+    request.log.info({ budget_id: budget.id, category: budget.category }, 'budget_created');
+    return reply.status(201).send(budget);
+  } catch (error) {
+    return handleError(request, reply, error, 'budget_create_failed');
+  }
+}
+
+export async function updateBudgetHandler(
+  request: FastifyRequest<{ Params: { id: string }; Body: unknown }>,
+  reply: FastifyReply
+) {
+  const parsedBody = budgetInputSchema.partial().safeParse(request.body);
+  if (!parsedBody.success) {
+    return reply.status(400).send({ error: 'Invalid budget', details: parsedBody.error.issues });
+  }
+
+  try {
+    const budget = await updateBudget(request.params.id, parsedBody.data);
+    if (!budget) {
+      return reply.status(404).send({ error: 'Budget not found' });
+    }
+    return reply.status(200).send(budget);
+  } catch (error) {
+    return handleError(request, reply, error, 'budget_update_failed');
+  }
+}
+
+export async function deleteBudgetHandler(
+  request: FastifyRequest<{ Params: { id: string } }>,
+  reply: FastifyReply
+) {
+  try {
+    if (!(await deleteBudget(request.params.id))) {
+      return reply.status(404).send({ error: 'Budget not found' });
+    }
+    return reply.status(204).send();
+  } catch (error) {
+    return handleError(request, reply, error, 'budget_delete_failed');
+  }
+}
+
+export async function budgetStatusHandler(
+  request: FastifyRequest<{ Querystring: { month?: string } }>,
+  reply: FastifyReply
+) {
+  const month = request.query.month || new Date().toISOString().slice(0, 7);
+  if (!/^\d{4}-\d{2}$/.test(month)) {
+    return reply.status(400).send({ error: 'month must be YYYY-MM' });
+  }
+
+  try {
+    return reply.status(200).send({ month, budgets: await getBudgetStatus(month) });
+  } catch (error) {
+    return handleError(request, reply, error, 'budget_status_failed');
+  }
+}
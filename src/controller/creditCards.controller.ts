@@ -0,0 +1,35 @@
+import { FastifyRequest, FastifyReply } from 'fastify';
+import { z } from 'zod';
+import { listCardStatements, listCreditCards } from '../lib/creditCards';
+
+const statementListQuerySchema = z.object({
+  account: z.string().trim().min(1).optional(),
+});
+
+export async function listCreditCardsHandler(request: FastifyRequest, reply: FastifyReply) {
+  try {
+    return reply.status(200).send({ cards: await listCreditCards() });
+  } catch (error) {
+    const errorMessage = error instanceof Error ? error.message : 'Unexpected error';
+    request.log.error({ error: errorMessage }, 'credit_card_list_failed');
+    return reply.status(500).send({ error: errorMessage });
+  }
+}
+
+export async function listCardStatementsHandler(
+  request: FastifyRequest<{ Querystring: Record<string, string> }>,
+  reply: FastifyReply
+) {
+  const parsedQuery = statementListQuerySchema.safeParse(request.query);
+  if (!parsedQuery.success) {
+    return reply.status(400).send({ error: 'Invalid query', details: parsedQuery.error.issues });
+  }
+
+  try {
+    return reply.status(200).send({ statements: await listCardStatements(parsedQuery.data.account) });
+  } catch (error) {
+    const errorMessage = error instanceof Error ? error.message : 'Unexpected error';
+    request.log.error({ error: errorMessage }, 'card_statement_list_failed');
+    return reply.status(500).send({ error: errorMessage });
+  }
+}
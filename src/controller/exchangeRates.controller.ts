@@ -0,0 +1,75 @@
+import { FastifyRequest, FastifyReply } from 'fastify';
+import { actsForDeployment } from '../lib/auth';
+import {
+  currencyCodeSchema,
+  deleteExchangeRate,
+  exchangeRateInputSchema,
+  HOME_CURRENCY,
+  listExchangeRates,
+  setExchangeRate,
+} from '../lib/exchangeRates';
+
+function handleError(request: FastifyRequest, reply: FastifyReply, error: unknown, event: string) {
+  const errorMessage = error instanceof Error ? error.message : 'Unexpected error';
+  request.log.error({ error: errorMessage }, event);
+  return reply.status(500).send({ error: errorMessage });
+}
+
+export async function listExchangeRatesHandler(request: FastifyRequest, reply: FastifyReply) {
+  try {
+    return reply.status(200).send({ home_currency: HOME_CURRENCY, rates: await listExchangeRates() });
+  } catch (error) {
+    return handleError(request, reply, error, 'exchange_rate_list_failed');
+  }
+}
+
+export async function setExchangeRateHandler(
+  request: FastifyRequest<{ Params: { currency: string }; Body: unknown }>,
+  reply: FastifyReply
+) {
+  // The rates are shared by every tenant
+  if (!actsForDeployment(request)) {
+    return reply.status(403).send({ error: 'Only the deployment admin key can change exchange rates' });
+  }
+
+  const parsedCurrency = currencyCodeSchema.safeParse(request.params.currency);
+  if (!parsedCurrency.success) {
+    return reply.status(400).send({ error: 'Invalid currency', details: parsedCurrency.error.issues });
+  }
+  if (parsedCurrency.data === HOME_CURRENCY) {
+    return reply.status(400).send({ error: `${HOME_CURRENCY} is the home currency` });
+  }
+
+  const parsedBody = exchangeRateInputSchema.safeParse(request.body);
+  if (!parsedBody.success) {
+    return reply.status(400).send({ error: 'Invalid exchange rate', details: parsedBody.error.issues });
+  }
+
+  try {
+    const rate = await setExchangeRate(parsedCurrency.data, parsedBody.data.rate);
+    request.log.info({ currency: rate.currency, rate: rate.rate }, 'exchange_rate_set');
+    return reply.status(200).send(rate);
+  } catch (error) {
+    return handleError(request, reply, error, 'exchange_rate_set_failed');
+  }
+}
+
+export async function deleteExchangeRateHandler(
+  request: FastifyRequest<{ Params: { currency: string } }>,
+  reply: FastifyReply
+) {
+  if (!actsForDeployment(request)) {
+    return reply.status(403).send({ error: 'Only the deployment admin key can change exchange rates' });
+  }
+
+  try {
+    const currency = request.params.currency.toUpperCase();
+    if (!(await deleteExchangeRate(currency))) {
+      return reply.status(404).send({ error: 'Exchange rate not found' });
+    }
+    request.log.info({ currency }, 'exchange_rate_deleted');
+    return reply.status(204).send();
+  } catch (error) {
+    return handleError(request, reply, error, 'exchange_rate_delete_failed');
+  }
+}
@@ -1,45 +1,274 @@
 import { FastifyRequest, FastifyReply } from 'fastify';
-import { parseTransactionSMS } from '../lib/geminiAgent';
-import { appendTransactionToSheet } from '../lib/sheets';
+import { fingerprintMessage, ParsedTransaction, parseTransactionSMS, summarizeMessage } from '../lib/geminiAgent';
+import { getTransactionStore } from '../lib/transactionStore';
+import { evaluateBudgetsAfterIngest } from '../lib/budgets';
+import { matchRecurringSeries } from '../lib/recurring';
+import { enqueueForReview, findReviewItemByFingerprint, ReviewItem, reviewReasons } from '../lib/reviewQueue';
+import { findOutboxEntryByFingerprint, OutboxEntry, writeThroughOutbox } from '../lib/outbox';
+import { findByFingerprint, findByIdempotencyKey, rememberTransaction, runOnce } from '../lib/dedupe';
+import { classifyMessageType, isMoneyMovement } from '../lib/messageType';
+import { recordBillReminder } from '../lib/billReminders';
+import { BalanceObservation, recordBalance } from '../lib/balances';
+import { tagSelfTransfers } from '../lib/transfers';
+import { CardStatement, recordCardStatement, recordCardTransaction } from '../lib/creditCards';
+import { linkRefunds, recordRefundLinks, RefundLink } from '../lib/refunds';
+import { matchSettlements } from '../lib/splits';
 
 interface TransactionRequest {
   message: string;
+  sender?: string;
+}
+
+interface TransactionHeaders {
+  'idempotency-key'?: string;
+}
+
+class IngestError extends Error {
+  constructor(message: string, public readonly statusCode: number) {
+    super(message);
+  }
+}
+
+/**
+ * Dedupe lookup in the store - an unreachable store must not block the ingest,
+ * the outbox re-checks for duplicates before retrying the write
+ */
+async function findStoredTransaction(request: FastifyRequest, fingerprint: string): Promise<ParsedTransaction | null> {
+  try {
+    return await getTransactionStore().findByFingerprint(fingerprint);
+  } catch (error) {
+    request.log.warn({ error: error instanceof Error ? error.message : 'Unknown error' }, 'store_lookup_failed');
+    return null;
+  }
+}
+
+/**
+ * Reconcile a reported balance - a failure here must not fail the ingest
+ */
+async function trackBalance(request: FastifyRequest, observation: BalanceObservation): Promise<void> {
+  try {
+    const gap = await recordBalance(observation);
+    if (gap) {
+      request.log.warn({ account: gap.account, expected: gap.expected_balance, reported: gap.reported_balance, gap_id: gap.id }, 'balance_gap_detected');
+    }
+  } catch (error) {
+    request.log.error({ error: error instanceof Error ? error.message : 'Unknown error' }, 'balance_tracking_failed');
+  }
+}
+
+/**
+ * Keep credit card outstanding amounts and statement cycles current - non-fatal like trackBalance
+ */
+async function trackCreditCard(request: FastifyRequest, update: () => Promise<unknown>): Promise<void> {
+  try {
+    await update();
+  } catch (error) {
+    request.log.error({ error: error instanceof Error ? error.message : 'Unknown error' }, 'credit_card_tracking_failed');
+  }
 }
 
 export async function newTransactionHandler(
-  request: FastifyRequest<{ Body: TransactionRequest }>,
+  request: FastifyRequest<{ Body: TransactionRequest; Headers: TransactionHeaders }>,
   reply: FastifyReply
 ) {
   try {
-    const { message } = request.body;
+    const { message, sender } = request.body;
+    const idempotencyKey = request.headers['idempotency-key']?.trim() || undefined;
 
     if (!message) {
       return reply.status(400).send({ error: 'Message is required' });
     }
 
-    // Parse SMS and classify with Gemini
-    let parsedTransaction;
-    try {
-      parsedTransaction = await parseTransactionSMS(message);
-    } catch (error) {
-      const errorMessage = error instanceof Error ? error.message : 'Transaction parsing failed';
-      request.log.error({ error: errorMessage }, 'transaction_parse_failed');
-      return reply.status(400).send({ error: errorMessage });
+    // OTPs, declines, reminders, promos etc. are answered with their type and never stored as transactions
+    if (!isMoneyMovement(classifyMessageType(message))) {
+      const summary = summarizeMessage(message, { sender });
+      const reminder = summary.message_type === 'bill_due' ? await recordBillReminder(message, summary) : null;
+      let statement = null as CardStatement | null;
+      if (summary.message_type === 'bill_due') {
+        await trackCreditCard(request, async () => {
+          statement = await recordCardStatement(message, summary);
+        });
+      }
+      if (summary.message_type === 'balance_alert' && summary.account && summary.balance !== null) {
+        await trackBalance(request, { account: summary.account, balance: summary.balance, observed_at: new Date() });
+      }
+
+      request.log.info({ message_type: summary.message_type }, 'message_not_ingested');
+      return reply.status(200).send({
+        ingested: false,
+        ...summary,
+        ...(reminder && { bill_reminder_id: reminder.id }),
+        ...(statement && { card_statement_id: statement.id }),
+      });
     }
 
-    // Write to Google Sheets
-    try {
-      await appendTransactionToSheet(parsedTransaction, parsedTransaction.category);
-    } catch (error) {
-      const errorMessage = error instanceof Error ? error.message : 'Failed to write to sheets';
-      request.log.error({ transaction_id: parsedTransaction.transaction_id, error: errorMessage }, 'sheets_write_failed');
-      return reply.status(500).send({ error: errorMessage });
+    const fingerprint = fingerprintMessage(message, { sender });
+
+    // Replayed request: same Idempotency-Key must carry the same message
+    if (idempotencyKey) {
+      const existing = findByIdempotencyKey(idempotencyKey);
+      if (existing) {
+        if (existing.fingerprint !== fingerprint) {
+          return reply.status(409).send({ error: 'Idempotency-Key was already used for a different message' });
+        }
+        request.log.info({ transaction_id: existing.transaction_id }, 'transaction_idempotent_replay');
+        return reply.status(200).send({ ...existing, duplicate: true });
+      }
+    }
+
+    // Same SMS forwarded again: return the existing record without writing
+    const store = getTransactionStore();
+    const duplicate = findByFingerprint(fingerprint)
+      || await findStoredTransaction(request, fingerprint)
+      || (await findReviewItemByFingerprint(fingerprint))?.transaction
+      || (await findOutboxEntryByFingerprint(fingerprint))?.transaction;
+    if (duplicate) {
+      rememberTransaction(duplicate, idempotencyKey);
+      request.log.info({ transaction_id: duplicate.transaction_id }, 'transaction_duplicate');
+      return reply.status(200).send({ ...duplicate, duplicate: true });
     }
 
+    let review = null as ReviewItem | null;
+    let deferred = null as OutboxEntry | null;
+    const { transaction, shared } = await runOnce(fingerprint, async () => {
+      // Parse SMS and classify with Gemini
+      let parsedTransaction;
+      try {
+        parsedTransaction = await parseTransactionSMS(message, { sender });
+      } catch (error) {
+        const errorMessage = error instanceof Error ? error.message : 'Transaction parsing failed';
+        request.log.error({ error: errorMessage }, 'transaction_parse_failed');
+        throw new IngestError(errorMessage, 400);
+      }
+
+      // The bank's balance is real even if the transaction still needs review
+      if (parsedTransaction.balance_after !== undefined) {
+        await trackBalance(request, {
+          account: parsedTransaction.account,
+          balance: parsedTransaction.balance_after,
+          observed_at: new Date(parsedTransaction.occurred_at),
+          transaction: parsedTransaction,
+        });
+      }
+      // Compared with the statement by when it happened, not when the SMS was forwarded
+      await trackCreditCard(request, () => recordCardTransaction(parsedTransaction, new Date(parsedTransaction.occurred_at)));
+
+      // Doubtful results wait in the review queue instead of reaching the ledger
+      if (reviewReasons(parsedTransaction).length > 0) {
+        review = (await enqueueForReview([parsedTransaction], 'sms'))[0]!;
+        rememberTransaction(parsedTransaction, idempotencyKey);
+        return parsedTransaction;
+      }
+
+      // Tag charges that continue a known subscription / EMI / rent series
+      const recurring = await matchRecurringSeries(parsedTransaction);
+      if (recurring) {
+        parsedTransaction.recurring_id = recurring.series.id;
+        if (recurring.amount_changed) {
+          request.log.warn({
+            recurring_id: recurring.series.id,
+            expected_amount: recurring.series.expected_amount,
+            amount: parsedTransaction.amount,
+          }, 'recurring_amount_changed');
+        }
+      }
+
+      // Pair with the other leg when money moved between the user's own accounts
+      try {
+        const [pair] = await tagSelfTransfers([parsedTransaction]);
+        if (pair) {
+          request.log.info({ transfer_id: pair.transfer_id, matched_by: pair.matched_by }, 'self_transfer_matched');
+        }
+      } catch (error) {
+        request.log.error({ error: error instanceof Error ? error.message : 'Unknown error' }, 'transfer_match_failed');
+      }
+
+      // Refunds and reversals point at the purchase they reverse, which is marked (partially) refunded
+      let refundLinks: RefundLink[] = [];
+      try {
+        refundLinks = await linkRefunds([parsedTransaction]);
+        const [link] = refundLinks;
+        if (link) {
+          request.log.info({ original_transaction_id: link.original.transaction_id, matched_by: link.matched_by, refund_status: link.original.refund_status }, 'refund_linked');
+        }
+      } catch (error) {
+        request.log.error({ error: error instanceof Error ? error.message : 'Unknown error' }, 'refund_link_failed');
+      }
+
+      // A contact paying back their share of a split expense settles what they owe
+      try {
+        const [settlement] = await matchSettlements([parsedTransaction]);
+        if (settlement) {
+          request.log.info({ contact_id: settlement.contact_id, amount: settlement.amount }, 'settlement_matched');
+        }
+      } catch (error) {
+        request.log.error({ error: error instanceof Error ? error.message : 'Unknown error' }, 'settlement_match_failed');
+      }
+
+      // Save to the outbox, then write to the configured transaction store
+      // A failed store write stays in the outbox and is retried in the background
+      try {
+        const outbox = await writeThroughOutbox([parsedTransaction]);
+        if (!outbox.delivered) {
+          deferred = outbox.entries[0]!;
+          request.log.warn({ transaction_id: parsedTransaction.transaction_id, store: store.name, error: outbox.error }, 'store_write_deferred');
+        }
+      } catch (error) {
+        const errorMessage = error instanceof Error ? error.message : 'Failed to write transaction';
+        request.log.error({ transaction_id: parsedTransaction.transaction_id, store: store.name, error: errorMessage }, 'store_write_failed');
+        throw new IngestError(errorMessage, 500);
+      }
+
+      // The original's refunded amount is stored once the refund itself is recorded
+      try {
+        await recordRefundLinks(refundLinks);
+      } catch (error) {
+        request.log.error({ error: error instanceof Error ? error.message : 'Unknown error' }, 'refund_link_failed');
+      }
+
+      rememberTransaction(parsedTransaction, idempotencyKey);
+      return parsedTransaction;
+    });
+
+    if (shared) {
+      rememberTransaction(transaction, idempotencyKey);
+      request.log.info({ transaction_id: transaction.transaction_id }, 'transaction_duplicate');
+      return reply.status(200).send({ ...transaction, duplicate: true });
+    }
+
+    if (review) {
+      request.log.info({ review_id: review.id, reasons: review.reasons }, 'transaction_queued_for_review');
+      return reply.status(202).send({
+        ...transaction,
+        duplicate: false,
+        review: { id: review.id, status: review.status, reasons: review.reasons },
+      });
+    }
+
+    if (deferred) {
+      return reply.status(202).send({
+        ...transaction,
+        duplicate: false,
+        outbox: { id: deferred.id, status: deferred.status },
+      });
+    }
+
+    // Budget alerts are best-effort and must not delay or fail the ingest
+    evaluateBudgetsAfterIngest(transaction)
+      .then((alerts) => alerts.forEach((alert) => {
+        request.log.info({ category: alert.status.category, threshold_pct: alert.threshold_pct }, 'budget_alert_sent');
+      }))
+      .catch((error) => {
+        request.log.error({ error: error instanceof Error ? error.message : 'Unknown error' }, 'budget_alert_failed');
+      });
+
     // Return response
-    request.log.info({ transaction_id: parsedTransaction.transaction_id, category: parsedTransaction.category }, 'transaction_ingested');
-    return reply.status(200).send(parsedTransaction);
+    request.log.info({ transaction_id: transaction.transaction_id, category: transaction.category }, 'transaction_ingested');
+    return reply.status(200).send({ ...transaction, duplicate: false });
   } catch (error) {
+    if (error instanceof IngestError) {
+      return reply.status(error.statusCode).send({ error: error.message });
+    }
     const errorMessage = error instanceof Error ? error.message : 'Unexpected error';
     request.log.error({ error: errorMessage }, 'unexpected_error');
     return reply.status(500).send({ error: errorMessage });
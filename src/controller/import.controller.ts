@@ -0,0 +1,91 @@
+import { FastifyRequest, FastifyReply } from 'fastify';
+import { importSmsRecords, parseSmsBackupJson, parseSmsBackupXml, SmsRecord } from '../lib/smsImport';
+import { csvColumnMappingSchema, importStatement, StatementFormat } from '../lib/statementImport';
+
+interface StatementQuery {
+  format?: StatementFormat;
+  bank?: string;
+  account?: string;
+}
+
+interface StatementJsonBody extends StatementQuery {
+  content?: string;
+  mapping?: unknown;
+}
+
+export async function importSmsHandler(
+  request: FastifyRequest<{ Body: unknown }>,
+  reply: FastifyReply
+) {
+  try {
+    // XML backups arrive as a raw string (see the content type parser in routes/ingest.ts)
+    let records: SmsRecord[];
+    try {
+      records = typeof request.body === 'string'
+        ? parseSmsBackupXml(request.body)
+        : parseSmsBackupJson(request.body);
+    } catch (error) {
+      const errorMessage = error instanceof Error ? error.message : 'Invalid import payload';
+      return reply.status(400).send({ error: errorMessage });
+    }
+
+    if (records.length === 0) {
+      return reply.status(400).send({ error: 'No messages found in import payload' });
+    }
+
+    const report = await importSmsRecords(records);
+
+    request.log.info(report.summary, 'sms_import_completed');
+    return reply.status(200).send(report);
+  } catch (error) {
+    const errorMessage = error instanceof Error ? error.message : 'Unexpected error';
+    request.log.error({ error: errorMessage }, 'sms_import_failed');
+    return reply.status(500).send({ error: errorMessage });
+  }
+}
+
+export async function importStatementHandler(
+  request: FastifyRequest<{ Body: string | StatementJsonBody; Querystring: StatementQuery }>,
+  reply: FastifyReply
+) {
+  try {
+    // Raw CSV / OFX upload with options in the query string, or JSON with inline content + mapping
+    const body: StatementJsonBody = typeof request.body === 'string'
+      ? { ...request.query, content: request.body }
+      : { ...request.query, ...(request.body || {}) };
+
+    if (!body.content || !body.content.trim()) {
+      return reply.status(400).send({ error: 'Statement content is required' });
+    }
+
+    const format: StatementFormat = body.format || (/OFXHEADER|<OFX>/i.test(body.content) ? 'ofx' : 'csv');
+    if (format !== 'csv' && format !== 'ofx') {
+      return reply.status(400).send({ error: 'Format must be csv or ofx' });
+    }
+
+    let mapping;
+    if (body.mapping !== undefined) {
+      const result = csvColumnMappingSchema.safeParse(body.mapping);
+      if (!result.success) {
+        return reply.status(400).send({ error: 'Invalid column mapping', details: result.error.issues });
+      }
+      mapping = result.data;
+    }
+
+    let report;
+    try {
+      report = await importStatement(body.content, { format, bank: body.bank, account: body.account, mapping });
+    } catch (error) {
+      const errorMessage = error instanceof Error ? error.message : 'Statement parsing failed';
+      request.log.error({ error: errorMessage }, 'statement_parse_failed');
+      return reply.status(400).send({ error: errorMessage });
+    }
+
+    request.log.info({ format, bank: body.bank, ...report.summary }, 'statement_import_completed');
+    return reply.status(200).send(report);
+  } catch (error) {
+    const errorMessage = error instanceof Error ? error.message : 'Unexpected error';
+    request.log.error({ error: errorMessage }, 'statement_import_failed');
+    return reply.status(500).send({ error: errorMessage });
+  }
+}
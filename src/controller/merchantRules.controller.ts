@@ -0,0 +1,109 @@
+import { FastifyRequest, FastifyReply } from 'fastify';
+import { z } from 'zod';
+import { explainRuleResolution } from '../lib/geminiAgent';
+import {
+  createMerchantRule,
+  deleteMerchantRule,
+  listMerchantRules,
+  merchantRuleInputSchema,
+  MerchantRuleConflictError,
+  updateMerchantRule,
+} from '../lib/merchantRules';
+
+const ruleTestSchema = z.object({
+  message: z.string().trim().min(1),
+  sender: z.string().optional(),
+  rule: merchantRuleInputSchema.optional(),
+});
+
+function handleError(request: FastifyRequest, reply: FastifyReply, error: unknown, event: string) {
+  if (error instanceof MerchantRuleConflictError) {
+    return reply.status(409).send({ error: error.message });
+  }
+  const errorMessage = error instanceof Error ? error.message : 'Unexpected error';
+  request.log.error({ error: errorMessage }, event);
+  return reply.status(500).send({ error: errorMessage });
+}
+
+export async function listMerchantRulesHandler(request: FastifyRequest, reply: FastifyReply) {
+  try {
+    return reply.status(200).send(await listMerchantRules());
+  } catch (error) {
+    return handleError(request, reply, error, 'merchant_rules_list_failed');
+  }
+}
+
+export async function createMerchantRuleHandler(
+  request: FastifyRequest<{ Body: unknown }>,
+  reply: FastifyReply
+) {
+  const parsedBody = merchantRuleInputSchema.safeParse(request.body);
+  if (!parsedBody.success) {
+    return reply.status(400).send({ error: 'Invalid merchant rule', details: parsedBody.error.issues });
+  }
+
+  try {
+    const rule = await createMerchantRule(parsedBody.data);
+    request.log.info({ rule_id: rule.id, category: rule.category }, 'merchant_rule_created');
+    return reply.status(201).send(rule);
+  } catch (error) {
+    return handleError(request, reply, error, 'merchant_rule_create_failed');
+  }
+}
+
+export async function updateMerchantRuleHandler(
+  request: FastifyRequest<{ Params: { id: string }; Body: unknown }>,
+  reply: FastifyReply
+) {
+  const parsedBody = merchantRuleInputSchema.partial().safeParse(request.body);
+  if (!parsedBody.success) {
+    return reply.status(400).send({ error: 'Invalid merchant rule', details: parsedBody.error.issues });
+  }
+
+  try {
+    const rule = await updateMerchantRule(request.params.id, parsedBody.data);
+    if (!rule) {
+      return reply.status(404).send({ error: 'Merchant rule not found' });
+    }
+    request.log.info({ rule_id: rule.id, category: rule.category }, 'merchant_rule_updated');
+    return reply.status(200).send(rule);
+  } catch (error) {
+    return handleError(request, reply, error, 'merchant_rule_update_failed');
+  }
+}
+
+export async function deleteMerchantRuleHandler(
+  request: FastifyRequest<{ Params: { id: string } }>,
+  reply: FastifyReply
+) {
+  try {
+    if (!(await deleteMerchantRule(request.params.id))) {
+      return reply.status(404).send({ error: 'Merchant rule not found' });
+    }
+    request.log.info({ rule_id: request.params.id }, 'merchant_rule_deleted');
+    return reply.status(204).send();
+  } catch (error) {
+    return handleError(request, reply, error, 'merchant_rule_delete_failed');
+  }
+}
+
+/**
+ * Dry-run: which rule would categorize this SMS (optionally with an unsaved rule)
+ */
+export async function testMerchantRuleHandler(
+  request: FastifyRequest<{ Body: unknown }>,
+  reply: FastifyReply
+) {
+  const parsedBody = ruleTestSchema.safeParse(request.body);
+  if (!parsedBody.success) {
+    return reply.status(400).send({ error: 'Invalid rule test', details: parsedBody.error.issues });
+  }
+
+  const { message, sender, rule } = parsedBody.data;
+
+  try {
+    return reply.status(200).send(await explainRuleResolution(message, { sender }, rule));
+  } catch (error) {
+    return handleError(request, reply, error, 'merchant_rule_test_failed');
+  }
+}
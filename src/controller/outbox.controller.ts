@@ -0,0 +1,60 @@
+import { FastifyRequest, FastifyReply } from 'fastify';
+import { discardOutboxEntry, listOutboxEntries, OutboxEntryBusyError, OutboxStatus, replayOutboxEntry } from '../lib/outbox';
+
+export async function listOutboxHandler(
+  request: FastifyRequest<{ Querystring: { status?: OutboxStatus } }>,
+  reply: FastifyReply
+) {
+  const { status } = request.query;
+  if (status && status !== 'pending' && status !== 'failed') {
+    return reply.status(400).send({ error: 'status must be pending or failed' });
+  }
+
+  try {
+    return reply.status(200).send({ entries: await listOutboxEntries(status) });
+  } catch (error) {
+    const errorMessage = error instanceof Error ? error.message : 'Unexpected error';
+    request.log.error({ error: errorMessage }, 'outbox_list_failed');
+    return reply.status(500).send({ error: errorMessage });
+  }
+}
+
+export async function replayOutboxHandler(
+  request: FastifyRequest<{ Params: { id: string } }>,
+  reply: FastifyReply
+) {
+  try {
+    const result = await replayOutboxEntry(request.params.id);
+    if (!result) {
+      return reply.status(404).send({ error: 'Outbox entry not found' });
+    }
+
+    request.log.info({ outbox_id: request.params.id, delivered: result.delivered, error: result.error }, 'outbox_replayed');
+    return reply.status(result.delivered ? 200 : 502).send({ id: request.params.id, ...result });
+  } catch (error) {
+    if (error instanceof OutboxEntryBusyError) {
+      return reply.status(409).send({ error: error.message });
+    }
+    const errorMessage = error instanceof Error ? error.message : 'Unexpected error';
+    request.log.error({ outbox_id: request.params.id, error: errorMessage }, 'outbox_replay_failed');
+    return reply.status(500).send({ error: errorMessage });
+  }
+}
+
+export async function discardOutboxHandler(
+  request: FastifyRequest<{ Params: { id: string } }>,
+  reply: FastifyReply
+) {
+  try {
+    if (!(await discardOutboxEntry(request.params.id))) {
+      return reply.status(404).send({ error: 'Outbox entry not found' });
+    }
+
+    request.log.warn({ outbox_id: request.params.id }, 'outbox_entry_discarded');
+    return reply.status(204).send();
+  } catch (error) {
+    const errorMessage = error instanceof Error ? error.message : 'Unexpected error';
+    request.log.error({ outbox_id: request.params.id, error: errorMessage }, 'outbox_discard_failed');
+    return reply.status(500).send({ error: errorMessage });
+  }
+}
@@ -0,0 +1,34 @@
+import { FastifyRequest, FastifyReply } from 'fastify';
+import { listRecurringSeries, scanRecurringSeries } from '../lib/recurring';
+
+export async function listRecurringHandler(
+  request: FastifyRequest<{ Querystring: { status?: 'active' | 'missed' } }>,
+  reply: FastifyReply
+) {
+  try {
+    const { scanned_at, series } = await listRecurringSeries();
+    const { status } = request.query;
+
+    return reply.status(200).send({
+      scanned_at,
+      series: status ? series.filter((entry) => entry.status === status) : series,
+    });
+  } catch (error) {
+    const errorMessage = error instanceof Error ? error.message : 'Unexpected error';
+    request.log.error({ error: errorMessage }, 'recurring_list_failed');
+    return reply.status(500).send({ error: errorMessage });
+  }
+}
+
+export async function scanRecurringHandler(request: FastifyRequest, reply: FastifyReply) {
+  try {
+    const result = await scanRecurringSeries();
+
+    request.log.info({ series: result.series.length, tagged: result.tagged }, 'recurring_scan_completed');
+    return reply.status(200).send(result);
+  } catch (error) {
+    const errorMessage = error instanceof Error ? error.message : 'Unexpected error';
+    request.log.error({ error: errorMessage }, 'recurring_scan_failed');
+    return reply.status(500).send({ error: errorMessage });
+  }
+}
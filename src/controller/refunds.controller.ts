@@ -0,0 +1,27 @@
+import { FastifyRequest, FastifyReply } from 'fastify';
+import { scanRefunds } from '../lib/refunds';
+
+/**
+ * Link refunds already in the ledger to their original purchases (e.g. after a bulk import)
+ */
+export async function scanRefundsHandler(request: FastifyRequest, reply: FastifyReply) {
+  try {
+    const links = await scanRefunds();
+    request.log.info({ linked: links.length }, 'refund_scan_completed');
+    return reply.status(200).send({
+      linked: links.length,
+      refunds: links.map((link) => ({
+        refund_transaction_id: link.refund.transaction_id,
+        original_transaction_id: link.original.transaction_id,
+        matched_by: link.matched_by,
+        amount: link.refund.amount,
+        refunded_amount: link.original.refunded_amount,
+        refund_status: link.original.refund_status,
+      })),
+    });
+  } catch (error) {
+    const errorMessage = error instanceof Error ? error.message : 'Unexpected error';
+    request.log.error({ error: errorMessage }, 'refund_scan_failed');
+    return reply.status(500).send({ error: errorMessage });
+  }
+}
@@ -0,0 +1,92 @@
+import { FastifyRequest, FastifyReply } from 'fastify';
+import { z } from 'zod';
+import { evaluateBudgetsAfterIngest } from '../lib/budgets';
+import {
+  approveReviewItem,
+  listReviewItems,
+  rejectReviewItem,
+  reviewFixSchema,
+  ReviewStateError,
+} from '../lib/reviewQueue';
+
+const reviewListQuerySchema = z.object({
+  status: z.enum(['pending', 'approving', 'approved', 'rejected']).default('pending'),
+});
+
+const rejectBodySchema = z.object({
+  note: z.string().default(''),
+});
+
+function handleError(request: FastifyRequest, reply: FastifyReply, error: unknown, event: string) {
+  if (error instanceof ReviewStateError) {
+    return reply.status(409).send({ error: error.message });
+  }
+  const errorMessage = error instanceof Error ? error.message : 'Unexpected error';
+  request.log.error({ error: errorMessage }, event);
+  return reply.status(500).send({ error: errorMessage });
+}
+
+export async function listReviewHandler(
+  request: FastifyRequest<{ Querystring: Record<string, string> }>,
+  reply: FastifyReply
+) {
+  const parsedQuery = reviewListQuerySchema.safeParse(request.query);
+  if (!parsedQuery.success) {
+    return reply.status(400).send({ error: 'Invalid query', details: parsedQuery.error.issues });
+  }
+
+  try {
+    return reply.status(200).send({ items: await listReviewItems(parsedQuery.data.status) });
+  } catch (error) {
+    return handleError(request, reply, error, 'review_list_failed');
+  }
+}
+
+export async function approveReviewHandler(
+  request: FastifyRequest<{ Params: { id: string }; Body: unknown }>,
+  reply: FastifyReply
+) {
+  const parsedBody = reviewFixSchema.safeParse(request.body ?? {});
+  if (!parsedBody.success) {
+    return reply.status(400).send({ error: 'Invalid review fix', details: parsedBody.error.issues });
+  }
+
+  try {
+    const item = await approveReviewItem(request.params.id, parsedBody.data);
+    if (!item) {
+      return reply.status(404).send({ error: 'Review item not found' });
+    }
+
+    // Approved items count towards budgets from now on, same as a direct ingest
+    evaluateBudgetsAfterIngest(item.transaction).catch((error) => {
+      request.log.error({ error: error instanceof Error ? error.message : 'Unknown error' }, 'budget_alert_failed');
+    });
+
+    request.log.info({ review_id: item.id, transaction_id: item.transaction.transaction_id }, 'review_approved');
+    return reply.status(200).send(item);
+  } catch (error) {
+    return handleError(request, reply, error, 'review_approve_failed');
+  }
+}
+
+export async function rejectReviewHandler(
+  request: FastifyRequest<{ Params: { id: string }; Body: unknown }>,
+  reply: FastifyReply
+) {
+  const parsedBody = rejectBodySchema.safeParse(request.body ?? {});
+  if (!parsedBody.success) {
+    return reply.status(400).send({ error: 'Invalid review rejection', details: parsedBody.error.issues });
+  }
+
+  try {
+    const item = await rejectReviewItem(request.params.id, parsedBody.data.note);
+    if (!item) {
+      return reply.status(404).send({ error: 'Review item not found' });
+    }
+
+    request.log.info({ review_id: item.id }, 'review_rejected');
+    return reply.status(200).send(item);
+  } catch (error) {
+    return handleError(request, reply, error, 'review_reject_failed');
+  }
+}
@@ -0,0 +1,129 @@
+import { FastifyRequest, FastifyReply } from 'fastify';
+import {
+  addContact,
+  contactInputSchema,
+  listContactBalances,
+  listContacts,
+  listSplits,
+  recordSettlement,
+  removeSplit,
+  settlementInputSchema,
+  SplitConflictError,
+  SplitError,
+  splitInputSchema,
+  splitTransaction,
+} from '../lib/splits';
+
+function handleError(request: FastifyRequest, reply: FastifyReply, error: unknown, event: string) {
+  if (error instanceof SplitConflictError) {
+    return reply.status(409).send({ error: error.message });
+  }
+  if (error instanceof SplitError) {
+    return reply.status(400).send({ error: error.message });
+  }
+  const errorMessage = error instanceof Error ? error.message : 'Unexpected error';
+  request.log.error({ error: errorMessage }, event);
+  return reply.status(500).send({ error: errorMessage });
+}
+
+export async function listContactsHandler(request: FastifyRequest, reply: FastifyReply) {
+  try {
+    return reply.status(200).send(await listContacts());
+  } catch (error) {
+    return handleError(request, reply, error, 'contacts_list_failed');
+  }
+}
+
+export async function addContactHandler(
+  request: FastifyRequest<{ Body: unknown }>,
+  reply: FastifyReply
+) {
+  const parsedBody = contactInputSchema.safeParse(request.body);
+  if (!parsedBody.success) {
+    return reply.status(400).send({ error: 'Invalid contact', details: parsedBody.error.issues });
+  }
+
+  try {
+    const contact = await addContact(parsedBody.data);
+    request.log.info({ contact_id: contact.id }, 'contact_added');
+    return reply.status(201).send(contact);
+  } catch (error) {
+    return handleError(request, reply, error, 'contact_add_failed');
+  }
+}
+
+/**
+ * Who owes whom - positive `owed` means the contact owes the user
+ */
+export async function listContactBalancesHandler(request: FastifyRequest, reply: FastifyReply) {
+  try {
+    return reply.status(200).send(await listContactBalances());
+  } catch (error) {
+    return handleError(request, reply, error, 'contact_balances_failed');
+  }
+}
+
+export async function recordSettlementHandler(
+  request: FastifyRequest<{ Params: { id: string }; Body: unknown }>,
+  reply: FastifyReply
+) {
+  const parsedBody = settlementInputSchema.safeParse(request.body);
+  if (!parsedBody.success) {
+    return reply.status(400).send({ error: 'Invalid settlement', details: parsedBody.error.issues });
+  }
+
+  try {
+    const settlement = await recordSettlement(request.params.id, parsedBody.data);
+    if (!settlement) {
+      return reply.status(404).send({ error: 'Contact not found' });
+    }
+    request.log.info({ contact_id: settlement.contact_id, amount: settlement.amount }, 'settlement_recorded');
+    return reply.status(201).send(settlement);
+  } catch (error) {
+    return handleError(request, reply, error, 'settlement_record_failed');
+  }
+}
+
+export async function splitTransactionHandler(
+  request: FastifyRequest<{ Params: { id: string }; Body: unknown }>,
+  reply: FastifyReply
+) {
+  const parsedBody = splitInputSchema.safeParse(request.body);
+  if (!parsedBody.success) {
+    return reply.status(400).send({ error: 'Invalid split', details: parsedBody.error.issues });
+  }
+
+  try {
+    const split = await splitTransaction(request.params.id, parsedBody.data);
+    if (!split) {
+      return reply.status(404).send({ error: 'Transaction not found' });
+    }
+    request.log.info({ split_id: split.id, transaction_id: split.transaction_id, my_share: split.my_share }, 'transaction_split');
+    return reply.status(201).send(split);
+  } catch (error) {
+    return handleError(request, reply, error, 'transaction_split_failed');
+  }
+}
+
+export async function listSplitsHandler(request: FastifyRequest, reply: FastifyReply) {
+  try {
+    return reply.status(200).send(await listSplits());
+  } catch (error) {
+    return handleError(request, reply, error, 'splits_list_failed');
+  }
+}
+
+export async function removeSplitHandler(
+  request: FastifyRequest<{ Params: { id: string } }>,
+  reply: FastifyReply
+) {
+  try {
+    if (!(await removeSplit(request.params.id))) {
+      return reply.status(404).send({ error: 'Split not found' });
+    }
+    request.log.info({ split_id: request.params.id }, 'split_removed');
+    return reply.status(204).send();
+  } catch (error) {
+    return handleError(request, reply, error, 'split_remove_failed');
+  }
+}
@@ -0,0 +1,76 @@
+import { FastifyRequest, FastifyReply } from 'fastify';
+import { actsForDeployment } from '../lib/auth';
+import { createTenant, defaultTenant, listTenants, TenantConflictError, tenantInputSchema, TenantUpdate, tenantUpdateSchema, updateTenant } from '../lib/tenants';
+
+const DEPLOYMENT_ONLY_FIELDS: (keyof TenantUpdate)[] = ['sheets_id', 'budget_alert_webhook_url'];
+
+function handleError(request: FastifyRequest, reply: FastifyReply, error: unknown, event: string) {
+  const errorMessage = error instanceof Error ? error.message : 'Unexpected error';
+  if (error instanceof TenantConflictError) {
+    return reply.status(409).send({ error: errorMessage });
+  }
+  request.log.error({ error: errorMessage }, event);
+  return reply.status(500).send({ error: errorMessage });
+}
+
+export async function listTenantsHandler(request: FastifyRequest, reply: FastifyReply) {
+  try {
+    // Tenant admins only see their own tenant
+    const ownTenantId = (request.tenant ?? defaultTenant()).id;
+    const tenants = (await listTenants()).filter((tenant) => actsForDeployment(request) || tenant.id === ownTenantId);
+    return reply.status(200).send({ tenants });
+  } catch (error) {
+    return handleError(request, reply, error, 'tenant_list_failed');
+  }
+}
+
+export async function createTenantHandler(request: FastifyRequest, reply: FastifyReply) {
+  if (!actsForDeployment(request)) {
+    return reply.status(403).send({ error: 'Only the deployment admin key can create tenants' });
+  }
+
+  const parsed = tenantInputSchema.safeParse(request.body);
+  if (!parsed.success) {
+    return reply.status(400).send({ error: 'Invalid tenant', details: parsed.error.issues });
+  }
+
+  try {
+    const tenant = await createTenant(parsed.data);
+    request.log.info({ tenant_id: tenant.id }, 'tenant_created');
+    return reply.status(201).send(tenant);
+  } catch (error) {
+    return handleError(request, reply, error, 'tenant_create_failed');
+  }
+}
+
+export async function updateTenantHandler(
+  request: FastifyRequest<{ Params: { id: string } }>,
+  reply: FastifyReply
+) {
+  const parsed = tenantUpdateSchema.safeParse(request.body);
+  if (!parsed.success) {
+    return reply.status(400).send({ error: 'Invalid tenant', details: parsed.error.issues });
+  }
+
+  // Another tenant is reported as missing rather than forbidden, so ids do not leak
+  if (!actsForDeployment(request) && request.params.id !== (request.tenant ?? defaultTenant()).id) {
+    return reply.status(404).send({ error: 'Tenant not found' });
+  }
+  // The spreadsheet (all tenants share one service account) and the webhook target are deployment settings
+  const restricted = DEPLOYMENT_ONLY_FIELDS.filter((field) => parsed.data[field] !== undefined);
+  if (restricted.length > 0 && !actsForDeployment(request)) {
+    return reply.status(403).send({ error: `Only the deployment admin key can change ${restricted.join(', ')}` });
+  }
+
+  try {
+    const tenant = await updateTenant(request.params.id, parsed.data);
+    if (!tenant) {
+      return reply.status(404).send({ error: 'Tenant not found' });
+    }
+
+    request.log.info({ tenant_id: tenant.id, fields: Object.keys(parsed.data) }, 'tenant_updated');
+    return reply.status(200).send(tenant);
+  } catch (error) {
+    return handleError(request, reply, error, 'tenant_update_failed');
+  }
+}
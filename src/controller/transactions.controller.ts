@@ -0,0 +1,105 @@
+import { FastifyRequest, FastifyReply } from 'fastify';
+import { correctionInputSchema, CorrectionError, correctTransaction, listCorrections } from '../lib/corrections';
+import { getTransactionStore } from '../lib/transactionStore';
+import { findTransaction, queryTransactions, transactionQuerySchema } from '../lib/transactionQuery';
+
+export async function listTransactionsHandler(
+  request: FastifyRequest<{ Querystring: Record<string, string> }>,
+  reply: FastifyReply
+) {
+  const parsedQuery = transactionQuerySchema.safeParse(request.query);
+  if (!parsedQuery.success) {
+    return reply.status(400).send({ error: 'Invalid query', details: parsedQuery.error.issues });
+  }
+
+  try {
+    const transactions = await getTransactionStore().list();
+
+    let page;
+    try {
+      page = queryTransactions(transactions, parsedQuery.data);
+    } catch (error) {
+      const errorMessage = error instanceof Error ? error.message : 'Invalid query';
+      return reply.status(400).send({ error: errorMessage });
+    }
+
+    return reply.status(200).send(page);
+  } catch (error) {
+    const errorMessage = error instanceof Error ? error.message : 'Unexpected error';
+    request.log.error({ error: errorMessage }, 'transactions_query_failed');
+    return reply.status(500).send({ error: errorMessage });
+  }
+}
+
+export async function getTransactionHandler(
+  request: FastifyRequest<{ Params: { id: string } }>,
+  reply: FastifyReply
+) {
+  try {
+    const transactions = await getTransactionStore().list();
+    const transaction = findTransaction(transactions, request.params.id);
+
+    if (!transaction) {
+      return reply.status(404).send({ error: 'Transaction not found' });
+    }
+
+    return reply.status(200).send(transaction);
+  } catch (error) {
+    const errorMessage = error instanceof Error ? error.message : 'Unexpected error';
+    request.log.error({ id: request.params.id, error: errorMessage }, 'transaction_lookup_failed');
+    return reply.status(500).send({ error: errorMessage });
+  }
+}
+
+export async function correctTransactionHandler(
+  request: FastifyRequest<{ Params: { id: string }; Body: unknown }>,
+  reply: FastifyReply
+) {
+  const parsedBody = correctionInputSchema.safeParse(request.body);
+  if (!parsedBody.success) {
+    return reply.status(400).send({ error: 'Invalid correction', details: parsedBody.error.issues });
+  }
+
+  try {
+    const result = await correctTransaction(request.params.id, parsedBody.data);
+    if (!result) {
+      return reply.status(404).send({ error: 'Transaction not found' });
+    }
+
+    request.log.info({
+      fingerprint: result.transaction.fingerprint,
+      category: result.transaction.category,
+      rule_pattern: result.correction.rule_pattern,
+    }, 'transaction_corrected');
+    if (result.rule_error) {
+      request.log.warn({ fingerprint: result.transaction.fingerprint, error: result.rule_error }, 'correction_rule_failed');
+    }
+
+    return reply.status(200).send(result);
+  } catch (error) {
+    const errorMessage = error instanceof Error ? error.message : 'Unexpected error';
+    if (error instanceof CorrectionError) {
+      return reply.status(400).send({ error: errorMessage });
+    }
+    request.log.error({ id: request.params.id, error: errorMessage }, 'transaction_correction_failed');
+    return reply.status(500).send({ error: errorMessage });
+  }
+}
+
+export async function transactionCorrectionsHandler(
+  request: FastifyRequest<{ Params: { id: string } }>,
+  reply: FastifyReply
+) {
+  try {
+    const transaction = findTransaction(await getTransactionStore().list(), request.params.id);
+    if (!transaction) {
+      return reply.status(404).send({ error: 'Transaction not found' });
+    }
+
+    return reply.status(200).send({ corrections: await listCorrections(transaction.fingerprint) });
+  } catch (error) {
+    const errorMessage = error instanceof Error ? error.message : 'Unexpected error';
+    request.log.error({ id: request.params.id, error: errorMessage }, 'transaction_corrections_failed');
+    return reply.status(500).send({ error: errorMessage });
+  }
+}
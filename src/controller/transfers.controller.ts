@@ -0,0 +1,83 @@
+import { FastifyRequest, FastifyReply } from 'fastify';
+import {
+  addOwnAccount,
+  listOwnAccounts,
+  ownAccountInputSchema,
+  OwnAccountConflictError,
+  removeOwnAccount,
+  scanSelfTransfers,
+} from '../lib/transfers';
+
+function handleError(request: FastifyRequest, reply: FastifyReply, error: unknown, event: string) {
+  if (error instanceof OwnAccountConflictError) {
+    return reply.status(409).send({ error: error.message });
+  }
+  const errorMessage = error instanceof Error ? error.message : 'Unexpected error';
+  request.log.error({ error: errorMessage }, event);
+  return reply.status(500).send({ error: errorMessage });
+}
+
+export async function listOwnAccountsHandler(request: FastifyRequest, reply: FastifyReply) {
+  try {
+    return reply.status(200).send(await listOwnAccounts());
+  } catch (error) {
+    return handleError(request, reply, error, 'own_accounts_list_failed');
+  }
+}
+
+export async function addOwnAccountHandler(
+  request: FastifyRequest<{ Body: unknown }>,
+  reply: FastifyReply
+) {
+  const parsedBody = ownAccountInputSchema.safeParse(request.body);
+  if (!parsedBody.success) {
+    return reply.status(400).send({ error: 'Invalid own account', details: parsedBody.error.issues });
+  }
+
+  try {
+    const account = await addOwnAccount(parsedBody.data);
+    request.log.info({ own_account_id: account.id, kind: account.kind }, 'own_account_added');
+    return reply.status(201).send(account);
+  } catch (error) {
+    return handleError(request, reply, error, 'own_account_add_failed');
+  }
+}
+
+export async function removeOwnAccountHandler(
+  request: FastifyRequest<{ Params: { id: string } }>,
+  reply: FastifyReply
+) {
+  try {
+    if (!(await removeOwnAccount(request.params.id))) {
+      return reply.status(404).send({ error: 'Own account not found' });
+    }
+    request.log.info({ own_account_id: request.params.id }, 'own_account_removed');
+    return reply.status(204).send();
+  } catch (error) {
+    return handleError(request, reply, error, 'own_account_remove_failed');
+  }
+}
+
+/**
+ * Match transfer pairs already in the ledger, e.g. after registering a new account
+ */
+export async function scanSelfTransfersHandler(request: FastifyRequest, reply: FastifyReply) {
+  try {
+    const pairs = await scanSelfTransfers();
+    request.log.info({ matched: pairs.length }, 'self_transfer_scan_completed');
+    return reply.status(200).send({
+      matched: pairs.length,
+      transfers: pairs.map((pair) => ({
+        transfer_id: pair.transfer_id,
+        matched_by: pair.matched_by,
+        amount: pair.outflow.amount,
+        from_account: pair.outflow.account,
+        to_account: pair.inflow.account,
+        outflow_transaction_id: pair.outflow.transaction_id,
+        inflow_transaction_id: pair.inflow.transaction_id,
+      })),
+    });
+  } catch (error) {
+    return handleError(request, reply, error, 'self_transfer_scan_failed');
+  }
+}
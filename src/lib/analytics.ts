@@ -0,0 +1,311 @@
+import { z } from 'zod';
+import type { ParsedTransaction } from './geminiAgent';
+import { parseCalendarDate } from './dates';
+import { creditCardActivity } from './creditCards';
+import { tenantCategories } from './tenantContext';
+
+const yearMonth = z.string().regex(/^\d{4}-\d{2}$/, 'Expected YYYY-MM');
+
+export const monthlyQuerySchema = z.object({
+  from: yearMonth.optional(),
+  to: yearMonth.optional(),
+  account: z.string().min(1).optional(),
+});
+
+export const categoryQuerySchema = z.object({
+  month: yearMonth.default(() => new Date().toISOString().slice(0, 7)),
+  account: z.string().min(1).optional(),
+  top: z.coerce.number().int().min(1).max(100).default(10),
+});
+
+export type FlowType = 'spend' | 'income' | 'refund' | 'transfer' | 'reimbursement';
+
+export interface MonthlyTotals {
+  inflow: number;        // Income, excluding refunds and transfers
+  outflow: number;       // Gross spending, excluding transfers and others' shares of split expenses
+  refunds: number;       // Refunds / reversals / cashback credited back
+  net_outflow: number;   // outflow - refunds
+  net: number;           // inflow - net_outflow
+  transfers_excluded: number;
+  receivables_excluded: number;    // Others' shares of split expenses
+  reimbursements_excluded: number; // Contacts paying back their shares
+}
+
+export interface MonthlySummary extends MonthlyTotals {
+  month: string;
+  inflow_change_pct: number | null;
+  outflow_change_pct: number | null;
+  net_change: number | null;
+  by_account: ({ account: string } & MonthlyTotals)[];
+}
+
+export interface CategoryBreakdown {
+  category: string;
+  spent: number;
+  refunded: number;
+  net: number;
+  share: number;                   // Share of the month's net spending (0-1)
+  previous_net: number;
+  change_pct: number | null;
+}
+
+export interface MerchantTotal {
+  merchant: string;
+  net: number;
+  count: number;
+}
+
+export interface CategorySummary {
+  month: string;
+  account: string;
+  total_net_spent: number;
+  categories: CategoryBreakdown[];
+  top_merchants: MerchantTotal[];
+}
+
+const REFUND_PATTERN = /\b(?:refund(?:ed)?|reversal|reversed|cashback|charge ?back|credited back|failed)\b/i;
+const TRANSFER_PATTERN = /\b(?:self[\s-]*transfer|own a\/?c|own account|to self)\b/i;
+
+function round(value: number): number {
+  return Math.round(value * 100) / 100;
+}
+
+function changePct(current: number, previous: number): number | null {
+  if (previous === 0) {
+    return null;
+  }
+  return round(((current - previous) / previous) * 100);
+}
+
+export function monthOf(transaction: ParsedTransaction): string | null {
+  const date = parseCalendarDate(transaction.transaction_date);
+  return date ? date.toISOString().slice(0, 7) : null;
+}
+
+function previousMonth(month: string): string {
+  const [year, monthNumber] = month.split('-').map(Number) as [number, number];
+  const date = new Date(Date.UTC(year, monthNumber - 2, 1));
+  return date.toISOString().slice(0, 7);
+}
+
+/**
+ * Decide how a transaction counts in analytics
+ * - Refund / reversal / cashback / failed-transaction credits reduce spending instead of counting as income
+ * - Transfers between own accounts (matched pairs or "self transfer" wording) are neither spending nor income
+ * - Credit card bill payments settle the card - its spends were already counted - so they are transfers too
+ * - Contacts paying back their share of a split expense are reimbursements, not income
+ */
+export function classifyFlow(transaction: ParsedTransaction): FlowType {
+  if (transaction.transfer_id || TRANSFER_PATTERN.test(transaction.raw_message)) {
+    return 'transfer';
+  }
+  const cardActivity = creditCardActivity(transaction.raw_message, transaction.direction);
+  if (cardActivity === 'bill_payment') {
+    return 'transfer';
+  }
+  if (cardActivity === 'refund' || transaction.refund_of) {
+    return 'refund';
+  }
+  if (transaction.settlement_of) {
+    return 'reimbursement';
+  }
+  if (transaction.direction === 'Inflow') {
+    return REFUND_PATTERN.test(transaction.raw_message) ? 'refund' : 'income';
+  }
+  return 'spend';
+}
+
+/**
+ * The user's own part of a spend - the rest of a split expense is owed by contacts
+ */
+export function ownShare(transaction: ParsedTransaction): number {
+  return transaction.amount - (transaction.shared_amount ?? 0);
+}
+
+function emptyTotals(): MonthlyTotals {
+  return { inflow: 0, outflow: 0, refunds: 0, net_outflow: 0, net: 0, transfers_excluded: 0, receivables_excluded: 0, reimbursements_excluded: 0 };
+}
+
+function addToTotals(totals: MonthlyTotals, transaction: ParsedTransaction): void {
+  switch (classifyFlow(transaction)) {
+    case 'income': totals.inflow += transaction.amount; break;
+    case 'spend':
+      totals.outflow += ownShare(transaction);
+      totals.receivables_excluded += transaction.shared_amount ?? 0;
+      break;
+    case 'refund': totals.refunds += transaction.amount; break;
+    case 'transfer': totals.transfers_excluded += transaction.amount; break;
+    case 'reimbursement': totals.reimbursements_excluded += transaction.amount; break;
+  }
+}
+
+function finalizeTotals(totals: MonthlyTotals): MonthlyTotals {
+  const netOutflow = totals.outflow - totals.refunds;
+  return {
+    inflow: round(totals.inflow),
+    outflow: round(totals.outflow),
+    refunds: round(totals.refunds),
+    net_outflow: round(netOutflow),
+    net: round(totals.inflow - netOutflow),
+    transfers_excluded: round(totals.transfers_excluded),
+    receivables_excluded: round(totals.receivables_excluded),
+    reimbursements_excluded: round(totals.reimbursements_excluded),
+  };
+}
+
+function filterByAccount(transactions: ParsedTransaction[], account?: string): ParsedTransaction[] {
+  if (!account) {
+    return transactions;
+  }
+  const needle = account.toLowerCase();
+  return transactions.filter((transaction) => transaction.account.toLowerCase().includes(needle));
+}
+
+/**
+ * Monthly inflow / outflow / net cash flow with month-over-month change
+ * Months are YYYY-MM, inclusive range; omitted bounds cover all data
+ */
+export function summarizeMonthly(
+  transactions: ParsedTransaction[],
+  options: { from?: string; to?: string; account?: string } = {}
+): MonthlySummary[] {
+  const byMonth = new Map<string, { totals: MonthlyTotals; accounts: Map<string, MonthlyTotals> }>();
+
+  for (const transaction of filterByAccount(transactions, options.account)) {
+    const month = monthOf(transaction);
+    if (!month) {
+      continue;
+    }
+
+    let bucket = byMonth.get(month);
+    if (!bucket) {
+      bucket = { totals: emptyTotals(), accounts: new Map() };
+      byMonth.set(month, bucket);
+    }
+
+    let accountTotals = bucket.accounts.get(transaction.account);
+    if (!accountTotals) {
+      accountTotals = emptyTotals();
+      bucket.accounts.set(transaction.account, accountTotals);
+    }
+
+    addToTotals(bucket.totals, transaction);
+    addToTotals(accountTotals, transaction);
+  }
+
+  const months = [...byMonth.keys()].sort();
+
+  return months
+    .map((month) => {
+      const bucket = byMonth.get(month)!;
+      const totals = finalizeTotals(bucket.totals);
+      const previousBucket = byMonth.get(previousMonth(month));
+      const previous = previousBucket ? finalizeTotals(previousBucket.totals) : null;
+
+      return {
+        month,
+        ...totals,
+        inflow_change_pct: previous ? changePct(totals.inflow, previous.inflow) : null,
+        outflow_change_pct: previous ? changePct(totals.net_outflow, previous.net_outflow) : null,
+        net_change: previous ? round(totals.net - previous.net) : null,
+        by_account: [...bucket.accounts.entries()]
+          .map(([account, accountTotals]) => ({ account, ...finalizeTotals(accountTotals) }))
+          .sort((a, b) => a.account.localeCompare(b.account)),
+      };
+    })
+    .filter(({ month }) => (!options.from || month >= options.from) && (!options.to || month <= options.to));
+}
+
+/**
+ * A linked refund counts against its original purchase (category and merchant),
+ * an unlinked one against its own classification
+ */
+function refundTarget(transaction: ParsedTransaction, originals: Map<string, ParsedTransaction>): ParsedTransaction {
+  return (transaction.refund_of && originals.get(transaction.refund_of)) || transaction;
+}
+
+function categoryNet(
+  transactions: ParsedTransaction[],
+  originals: Map<string, ParsedTransaction>
+): Map<string, { spent: number; refunded: number }> {
+  const totals = new Map<string, { spent: number; refunded: number }>();
+
+  for (const transaction of transactions) {
+    const flow = classifyFlow(transaction);
+    if (flow !== 'spend' && flow !== 'refund') {
+      continue;
+    }
+
+    const { category } = refundTarget(transaction, originals);
+    const entry = totals.get(category) || { spent: 0, refunded: 0 };
+    if (flow === 'spend') {
+      entry.spent += ownShare(transaction);
+    } else {
+      entry.refunded += transaction.amount;
+    }
+    totals.set(category, entry);
+  }
+
+  return totals;
+}
+
+/**
+ * Spending per category (all of the tenant's categories, zero-filled) and top merchants for a month
+ */
+export function summarizeCategories(
+  transactions: ParsedTransaction[],
+  options: { month: string; account?: string; topMerchants?: number }
+): CategorySummary {
+  const scoped = filterByAccount(transactions, options.account);
+  const current = scoped.filter((transaction) => monthOf(transaction) === options.month);
+  const previous = scoped.filter((transaction) => monthOf(transaction) === previousMonth(options.month));
+
+  // Originals may be in an earlier month or another account than their refund
+  const originals = new Map(transactions.map((transaction) => [transaction.fingerprint, transaction]));
+  const currentTotals = categoryNet(current, originals);
+  const previousTotals = categoryNet(previous, originals);
+
+  // Categories outside the allowed list (e.g. edited by hand in the sheet) are still reported
+  const categoryNames = [...new Set<string>([...tenantCategories(), ...currentTotals.keys()])];
+
+  const rows = categoryNames.map((category) => {
+    const entry = currentTotals.get(category) || { spent: 0, refunded: 0 };
+    const previousEntry = previousTotals.get(category) || { spent: 0, refunded: 0 };
+    const net = entry.spent - entry.refunded;
+    const previousNet = previousEntry.spent - previousEntry.refunded;
+
+    return { category, spent: round(entry.spent), refunded: round(entry.refunded), net: round(net), previous_net: round(previousNet) };
+  });
+
+  const totalNet = rows.reduce((sum, row) => sum + row.net, 0);
+
+  const merchants = new Map<string, MerchantTotal>();
+  for (const transaction of current) {
+    const flow = classifyFlow(transaction);
+    if (flow !== 'spend' && flow !== 'refund') {
+      continue;
+    }
+    const { merchant } = refundTarget(transaction, originals);
+    const entry = merchants.get(merchant) || { merchant, net: 0, count: 0 };
+    entry.net += flow === 'spend' ? ownShare(transaction) : -transaction.amount;
+    entry.count += 1;
+    merchants.set(merchant, entry);
+  }
+
+  return {
+    month: options.month,
+    account: options.account || 'all',
+    total_net_spent: round(totalNet),
+    categories: rows
+      .map((row) => ({
+        ...row,
+        share: totalNet > 0 ? round(row.net / totalNet) : 0,
+        change_pct: changePct(row.net, row.previous_net),
+      }))
+      .sort((a, b) => b.net - a.net),
+    top_merchants: [...merchants.values()]
+      .map((entry) => ({ ...entry, net: round(entry.net) }))
+      .sort((a, b) => b.net - a.net)
+      .slice(0, options.topMerchants ?? 10),
+  };
+}
@@ -0,0 +1,147 @@
+import { createHash, randomBytes, randomUUID } from 'crypto';
+import { z } from 'zod';
+import { createJsonFile } from './jsonFile';
+import { DEFAULT_TENANT_ID } from './tenantContext';
+
+export const API_KEY_SCOPES = ['ingest', 'read', 'write', 'admin'] as const;
+
+export type ApiKeyScope = typeof API_KEY_SCOPES[number];
+
+export interface ApiKey {
+  id: string;
+  name: string;
+  tenant_id: string;                // Whose data the key reads and writes
+  key_hash: string;                 // sha256 of the key - the key itself is only shown once
+  key_prefix: string;               // First characters, to recognise a key in listings
+  scopes: ApiKeyScope[];
+  signing_secret: string;           // HMAC secret for signed requests
+  require_signature: boolean;
+  rate_limit_per_minute: number | null; // null = API_RATE_LIMIT_PER_MINUTE
+  created_at: string;
+  revoked_at: string | null;
+}
+
+export type PublicApiKey = Omit<ApiKey, 'key_hash' | 'signing_secret'>;
+
+interface ApiKeysFile {
+  keys: ApiKey[];
+}
+
+const KEY_PREFIX_LENGTH = 10;
+const ENV_ADMIN_KEY_ID = 'env-admin';
+
+const file = createJsonFile<ApiKeysFile>('api_keys.json', () => ({ keys: [] }));
+
+export const apiKeyInputSchema = z.object({
+  name: z.string().trim().min(1),
+  tenant_id: z.string().optional(),  // Defaults to the caller's tenant
+  scopes: z.array(z.enum(API_KEY_SCOPES)).min(1).default(['ingest']),
+  require_signature: z.boolean().default(false),
+  rate_limit_per_minute: z.number().int().positive().nullable().default(null),
+});
+
+export type ApiKeyInput = z.infer<typeof apiKeyInputSchema> & { tenant_id: string };
+
+export class ApiKeyConflictError extends Error {}
+
+export function hashApiKey(key: string): string {
+  return createHash('sha256').update(key).digest('hex');
+}
+
+export function toPublicApiKey({ key_hash, signing_secret, ...key }: ApiKey): PublicApiKey {
+  return key;
+}
+
+/**
+ * Bootstrap key from ADMIN_API_KEY - always valid, cannot be revoked through the API
+ * The only key that administers the whole deployment; admin keys created through the API stay in their tenant
+ */
+function environmentAdminKey(): ApiKey | null {
+  const key = process.env.ADMIN_API_KEY;
+  if (!key) {
+    return null;
+  }
+
+  return {
+    id: ENV_ADMIN_KEY_ID,
+    name: 'ADMIN_API_KEY',
+    tenant_id: DEFAULT_TENANT_ID,
+    key_hash: hashApiKey(key),
+    key_prefix: key.slice(0, KEY_PREFIX_LENGTH),
+    scopes: ['admin'],
+    signing_secret: process.env.ADMIN_SIGNING_SECRET || '',
+    require_signature: false,
+    rate_limit_per_minute: null,
+    created_at: new Date(0).toISOString(),
+    revoked_at: null,
+  };
+}
+
+export function isDeploymentAdminKey(apiKey: ApiKey): boolean {
+  return apiKey.id === ENV_ADMIN_KEY_ID;
+}
+
+/**
+ * Keys of one tenant, or of every tenant when tenantId is omitted
+ */
+export async function listApiKeys(tenantId?: string): Promise<PublicApiKey[]> {
+  const data = await file.read();
+  return data.keys
+    .filter((apiKey) => !tenantId || apiKey.tenant_id === tenantId)
+    .map(toPublicApiKey);
+}
+
+/**
+ * Active key for a presented secret, or null
+ */
+export async function findActiveApiKey(key: string): Promise<ApiKey | null> {
+  const keyHash = hashApiKey(key);
+  const envKey = environmentAdminKey();
+  if (envKey && envKey.key_hash === keyHash) {
+    return envKey;
+  }
+
+  const data = await file.read();
+  return data.keys.find((candidate) => candidate.key_hash === keyHash && !candidate.revoked_at) || null;
+}
+
+/**
+ * Create a key - the plaintext key and signing secret are only returned here
+ */
+export async function createApiKey(input: ApiKeyInput): Promise<{ key: string; signing_secret: string; api_key: PublicApiKey }> {
+  const key = `fk_${randomBytes(24).toString('base64url')}`;
+  const signingSecret = `whsec_${randomBytes(24).toString('base64url')}`;
+
+  return file.update((data) => {
+    if (data.keys.some((candidate) => candidate.name === input.name && !candidate.revoked_at)) {
+      throw new ApiKeyConflictError(`An active key named "${input.name}" already exists`);
+    }
+
+    const apiKey: ApiKey = {
+      id: randomUUID(),
+      ...input,
+      key_hash: hashApiKey(key),
+      key_prefix: key.slice(0, KEY_PREFIX_LENGTH),
+      signing_secret: signingSecret,
+      created_at: new Date().toISOString(),
+      revoked_at: null,
+    };
+    data.keys.push(apiKey);
+
+    return { key, signing_secret: signingSecret, api_key: toPublicApiKey(apiKey) };
+  });
+}
+
+/**
+ * Revoke a key - returns null when it does not exist (in tenantId, when given)
+ */
+export async function revokeApiKey(id: string, tenantId?: string): Promise<PublicApiKey | null> {
+  return file.update((data) => {
+    const apiKey = data.keys.find((candidate) => candidate.id === id && (!tenantId || candidate.tenant_id === tenantId));
+    if (!apiKey) {
+      return null;
+    }
+    apiKey.revoked_at = apiKey.revoked_at || new Date().toISOString();
+    return toPublicApiKey(apiKey);
+  });
+}
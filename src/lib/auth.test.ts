@@ -0,0 +1,64 @@
+import './testing';
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+import { createHmac } from 'crypto';
+import { buildApp } from '../app';
+import { createApiKey } from './apiKeys';
+import { DEFAULT_TENANT_ID } from './tenantContext';
+
+const app = buildApp();
+
+async function signedKey(name: string) {
+  return createApiKey({ name, tenant_id: DEFAULT_TENANT_ID, scopes: ['write', 'read'], require_signature: true, rate_limit_per_minute: null });
+}
+
+function sign(secret: string, body: string, timestamp = Math.floor(Date.now() / 1000)) {
+  const signature = createHmac('sha256', secret).update(`${timestamp}.${body}`).digest('hex');
+  return { 'x-timestamp': String(timestamp), 'x-signature': `sha256=${signature}` };
+}
+
+function postBudget(key: string, body: string, headers: Record<string, string>) {
+  return app.inject({
+    method: 'POST',
+    url: '/api/finance/budgets',
+    headers: { 'x-api-key': key, 'content-type': 'application/json', ...headers },
+    payload: body,
+  });
+}
+
+test('accepts a request signed over the raw body', async () => {
+  const { key, signing_secret } = await signedKey('signed-ok');
+  const body = '{ "category": "Food & Dining",  "monthly_limit": 5000 }';
+
+  const response = await postBudget(key, body, sign(signing_secret, body));
+  assert.equal(response.statusCode, 201);
+});
+
+test('rejects a missing, wrong or stale signature', async () => {
+  const { key, signing_secret } = await signedKey('signed-bad');
+  const body = '{"category":"Fashion and Shopping","monthly_limit":5000}';
+
+  assert.equal((await postBudget(key, body, {})).statusCode, 401);
+  assert.equal((await postBudget(key, body, sign('whsec_other', body))).statusCode, 401);
+  assert.equal((await postBudget(key, body, sign(signing_secret, '{"category":"Fashion and Shopping","monthly_limit":1}'))).statusCode, 401);
+  assert.equal((await postBudget(key, body, sign(signing_secret, body, Math.floor(Date.now() / 1000) - 600))).statusCode, 401);
+});
+
+test('rejects a replayed signature', async () => {
+  const { key, signing_secret } = await signedKey('signed-replay');
+  const body = '{"category":"Transport","monthly_limit":5000}';
+  const headers = sign(signing_secret, body);
+
+  assert.equal((await postBudget(key, body, headers)).statusCode, 201);
+  const replay = await postBudget(key, body, headers);
+  assert.equal(replay.statusCode, 401);
+  assert.match(replay.json().error, /already used/);
+});
+
+test('rejects prototype poisoning in JSON bodies', async () => {
+  const { key, signing_secret } = await signedKey('signed-proto');
+  const body = '{"category":"Fuel","monthly_limit":5000,"__proto__":{"isAdmin":true}}';
+
+  const response = await postBudget(key, body, sign(signing_secret, body));
+  assert.equal(response.statusCode, 400);
+});
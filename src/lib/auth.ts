@@ -0,0 +1,209 @@
+import { createHmac, timingSafeEqual } from 'crypto';
+import { FastifyReply, FastifyRequest, HookHandlerDoneFunction } from 'fastify';
+import { ApiKey, ApiKeyScope, findActiveApiKey, isDeploymentAdminKey } from './apiKeys';
+import { runWithTenant, Tenant } from './tenantContext';
+import { defaultTenant, findTenant } from './tenants';
+
+declare module 'fastify' {
+  interface FastifyRequest {
+    rawBody?: string;
+    apiKey?: ApiKey;
+    tenant?: Tenant;
+  }
+}
+
+// Local development only - every request is treated as an admin
+const AUTH_DISABLED = process.env.AUTH_DISABLED === 'true';
+
+const API_RATE_LIMIT_PER_MINUTE = parseInt(process.env.API_RATE_LIMIT_PER_MINUTE || '60', 10);
+const SIGNATURE_TOLERANCE_MS = 5 * 60 * 1000; // Signed requests older (or newer) than this are rejected
+
+const rateWindows = new Map<string, { windowStart: number; count: number }>();
+const seenSignatures = new Map<string, number>(); // signature -> expiry, for replay protection
+
+if (AUTH_DISABLED) {
+  console.warn('AUTH_DISABLED=true - API authentication is OFF');
+}
+
+/**
+ * Scope a route needs: admin for /admin, ingest for SMS / import posts,
+ * read for GETs and write for every other change
+ */
+function requiredScope(request: FastifyRequest): ApiKeyScope {
+  const url = request.routeOptions.url || request.url;
+  if (url.startsWith('/api/admin/')) {
+    return 'admin';
+  }
+  if (request.method === 'POST' && (url === '/api/finance/new-transaction' || url.startsWith('/api/finance/import/'))) {
+    return 'ingest';
+  }
+  if (request.method === 'GET' || request.method === 'HEAD') {
+    return 'read';
+  }
+  return 'write';
+}
+
+function presentedKey(request: FastifyRequest): string | null {
+  const header = request.headers['x-api-key'];
+  if (typeof header === 'string' && header.trim()) {
+    return header.trim();
+  }
+
+  const authorization = request.headers.authorization;
+  const bearer = authorization?.match(/^Bearer\s+(.+)$/i)?.[1];
+  return bearer?.trim() || null;
+}
+
+/**
+ * Fixed one-minute window per key
+ * Returns seconds until the window resets when the key is over its limit
+ */
+function consumeRateLimit(apiKey: ApiKey, reply: FastifyReply): number | null {
+  const limit = apiKey.rate_limit_per_minute ?? API_RATE_LIMIT_PER_MINUTE;
+  const now = Date.now();
+  const window = rateWindows.get(apiKey.id);
+
+  const current = window && now - window.windowStart < 60_000 ? window : { windowStart: now, count: 0 };
+  current.count++;
+  rateWindows.set(apiKey.id, current);
+
+  reply.header('x-ratelimit-limit', limit);
+  reply.header('x-ratelimit-remaining', Math.max(limit - current.count, 0));
+
+  return current.count > limit ? Math.ceil((current.windowStart + 60_000 - now) / 1000) : null;
+}
+
+/**
+ * Whether a request administers the whole deployment (ADMIN_API_KEY, or local runs without auth)
+ * rather than a single tenant
+ */
+export function actsForDeployment(request: FastifyRequest): boolean {
+  return AUTH_DISABLED || (!!request.apiKey && isDeploymentAdminKey(request.apiKey));
+}
+
+/**
+ * Tenant a request acts for: the key's own tenant
+ * Only the deployment admin key (and local runs without auth) may pick another one with X-Tenant-Id
+ */
+async function resolveTenant(request: FastifyRequest, apiKey: ApiKey | null): Promise<Tenant | null> {
+  const override = request.headers['x-tenant-id'];
+  const canOverride = !apiKey || isDeploymentAdminKey(apiKey);
+  const tenantId = typeof override === 'string' && override && canOverride ? override : apiKey?.tenant_id;
+  return tenantId ? findTenant(tenantId) : defaultTenant();
+}
+
+/**
+ * onRequest hook: API key authentication, scope check, per-key rate limit and tenant lookup
+ */
+export async function authenticateRequest(request: FastifyRequest, reply: FastifyReply) {
+  // CORS preflights carry no credentials
+  if (request.method === 'OPTIONS' || !request.url.startsWith('/api/')) {
+    return;
+  }
+
+  if (AUTH_DISABLED) {
+    const tenant = await resolveTenant(request, null);
+    if (!tenant) {
+      return reply.status(404).send({ error: 'Unknown tenant' });
+    }
+    request.tenant = tenant;
+    return;
+  }
+
+  const key = presentedKey(request);
+  const apiKey = key ? await findActiveApiKey(key) : null;
+  if (!apiKey) {
+    request.log.warn({ url: request.url }, 'auth_rejected');
+    return reply.status(401).send({ error: 'Missing or invalid API key' });
+  }
+
+  const scope = requiredScope(request);
+  if (!apiKey.scopes.includes('admin') && !apiKey.scopes.includes(scope)) {
+    request.log.warn({ api_key: apiKey.name, scope }, 'auth_scope_denied');
+    return reply.status(403).send({ error: `API key lacks the "${scope}" scope` });
+  }
+
+  const retryAfter = consumeRateLimit(apiKey, reply);
+  if (retryAfter !== null) {
+    request.log.warn({ api_key: apiKey.name }, 'rate_limited');
+    return reply.status(429).header('retry-after', retryAfter).send({ error: 'Rate limit exceeded' });
+  }
+
+  const tenant = await resolveTenant(request, apiKey);
+  if (!tenant) {
+    request.log.warn({ api_key: apiKey.name }, 'tenant_not_found');
+    return reply.status(404).send({ error: 'Unknown tenant' });
+  }
+
+  request.apiKey = apiKey;
+  request.tenant = tenant;
+}
+
+function rememberSignature(signature: string, now: number): boolean {
+  for (const [seen, expiry] of seenSignatures) {
+    if (expiry <= now) {
+      seenSignatures.delete(seen);
+    }
+  }
+  if (seenSignatures.has(signature)) {
+    return false;
+  }
+  seenSignatures.set(signature, now + SIGNATURE_TOLERANCE_MS * 2);
+  return true;
+}
+
+/**
+ * preHandler hook: HMAC request signatures
+ *
+ * Senders sign `${timestamp}.${raw body}` with the key's signing secret and send
+ *   X-Timestamp: <unix seconds>
+ *   X-Signature: sha256=<hex digest>
+ * Required for keys with require_signature, verified whenever a signature is present
+ */
+export async function verifyRequestSignature(request: FastifyRequest, reply: FastifyReply) {
+  const apiKey = request.apiKey;
+  if (!apiKey) {
+    return;
+  }
+
+  const signatureHeader = request.headers['x-signature'];
+  const timestampHeader = request.headers['x-timestamp'];
+  if (!signatureHeader && !apiKey.require_signature) {
+    return;
+  }
+
+  if (typeof signatureHeader !== 'string' || typeof timestampHeader !== 'string' || !apiKey.signing_secret) {
+    return reply.status(401).send({ error: 'X-Signature and X-Timestamp headers are required for this API key' });
+  }
+
+  const now = Date.now();
+  const timestamp = parseInt(timestampHeader, 10) * 1000;
+  if (!Number.isFinite(timestamp) || Math.abs(now - timestamp) > SIGNATURE_TOLERANCE_MS) {
+    return reply.status(401).send({ error: 'Request timestamp is missing or outside the allowed window' });
+  }
+
+  const body = request.rawBody ?? (typeof request.body === 'string' ? request.body : '');
+  const expected = createHmac('sha256', apiKey.signing_secret).update(`${timestampHeader}.${body}`).digest('hex');
+  const provided = signatureHeader.replace(/^sha256=/i, '').toLowerCase();
+
+  // A non-hex header decodes to fewer bytes, which timingSafeEqual would throw on
+  const valid = /^[0-9a-f]{64}$/.test(provided)
+    && timingSafeEqual(Buffer.from(provided, 'hex'), Buffer.from(expected, 'hex'));
+  if (!valid) {
+    request.log.warn({ api_key: apiKey.name }, 'signature_invalid');
+    return reply.status(401).send({ error: 'Invalid request signature' });
+  }
+
+  if (!rememberSignature(expected, now)) {
+    request.log.warn({ api_key: apiKey.name }, 'signature_replayed');
+    return reply.status(401).send({ error: 'Request signature was already used' });
+  }
+}
+
+/**
+ * preHandler hook: run the route handler inside the request's tenant context
+ * Callback style on purpose - the handler is called from done, so it inherits the context
+ */
+export function bindTenant(request: FastifyRequest, reply: FastifyReply, done: HookHandlerDoneFunction) {
+  runWithTenant(request.tenant ?? defaultTenant(), done);
+}
@@ -0,0 +1,52 @@
+import { asNewTenant, makeTransaction } from './testing';
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+import { listBalanceGaps, recordBalance } from './balances';
+import { getTransactionStore } from './transactionStore';
+
+const account = 'HDFC Bank XX1234';
+
+function debit(occurredAt: string, amount: number, balanceAfter?: number) {
+  return makeTransaction({ account, amount, occurred_at: occurredAt, balance_after: balanceAfter });
+}
+
+test('debits without a balance in between are not reported as a gap', () => asNewTenant(async () => {
+  const store = getTransactionStore();
+
+  const first = debit('2026-02-05T09:00:00+05:30', 100, 900);
+  assert.equal(await recordBalance({ account, balance: 900, observed_at: new Date(first.occurred_at), transaction: first }), null);
+  await store.append(first);
+
+  // UPI debits usually carry no "Avl Bal"
+  await store.append(debit('2026-02-05T12:00:00+05:30', 250));
+
+  const third = debit('2026-02-05T18:00:00+05:30', 50, 600);
+  assert.equal(await recordBalance({ account, balance: 600, observed_at: new Date(third.occurred_at), transaction: third }), null);
+  assert.deepEqual(await listBalanceGaps(), []);
+}));
+
+test('reports a transaction that was never recorded', () => asNewTenant(async () => {
+  const first = debit('2026-02-05T09:00:00+05:30', 100, 900);
+  await recordBalance({ account, balance: 900, observed_at: new Date(first.occurred_at), transaction: first });
+
+  const second = debit('2026-02-05T18:00:00+05:30', 50, 600);
+  const gap = await recordBalance({ account, balance: 600, observed_at: new Date(second.occurred_at), transaction: second });
+  assert.equal(gap?.expected_balance, 850);
+  assert.equal(gap?.difference, -250);
+}));
+
+test('counts unwritten transactions passed by an import', () => asNewTenant(async () => {
+  const first = debit('2026-02-05T09:00:00+05:30', 100, 900);
+  const between = debit('2026-02-05T12:00:00+05:30', 250);
+  const third = debit('2026-02-05T18:00:00+05:30', 50, 600);
+
+  await recordBalance({ account, balance: 900, observed_at: new Date(first.occurred_at), transaction: first }, [first, between, third]);
+  const gap = await recordBalance({ account, balance: 600, observed_at: new Date(third.occurred_at), transaction: third }, [first, between, third]);
+  assert.equal(gap, null);
+}));
+
+test('ignores balances older than the stored one', () => asNewTenant(async () => {
+  await recordBalance({ account, balance: 500, observed_at: new Date('2026-02-05T18:00:00+05:30') });
+  assert.equal(await recordBalance({ account, balance: 9000, observed_at: new Date('2026-02-04T18:00:00+05:30') }), null);
+  assert.deepEqual(await listBalanceGaps(), []);
+}));
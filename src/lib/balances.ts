@@ -0,0 +1,180 @@
+import { randomUUID } from 'crypto';
+import type { ParsedTransaction } from './geminiAgent';
+import { createTenantJsonFile } from './jsonFile';
+import { listOutboxEntries } from './outbox';
+import { listReviewItems } from './reviewQueue';
+import { getTransactionStore } from './transactionStore';
+
+export interface AccountBalance {
+  account: string;
+  balance: number;
+  as_of: string;                  // When the bank reported it (transaction time, or SMS receive time for alerts)
+  transaction_id: string | null;  // null = reported by a balance alert
+}
+
+export type BalanceGapStatus = 'open' | 'resolved';
+
+/**
+ * A reported balance that does not follow from the previous one,
+ * i.e. an SMS was missed or a transaction was never recorded
+ */
+export interface BalanceGap {
+  id: string;
+  status: BalanceGapStatus;
+  account: string;
+  previous_balance: number;
+  previous_as_of: string;
+  expected_balance: number;
+  reported_balance: number;
+  difference: number;             // reported - expected, negative = unrecorded outflow
+  transaction_id: string | null;
+  detected_at: string;
+  resolved_at: string | null;
+  note: string;
+}
+
+export interface BalanceObservation {
+  account: string;
+  balance: number;
+  observed_at: Date;               // Transaction time, or receive time for a balance alert
+  transaction?: ParsedTransaction; // The movement that led to this balance, if any
+}
+
+interface BalancesFile {
+  accounts: AccountBalance[];
+  gaps: BalanceGap[];
+}
+
+// Differences below this are rounding in the bank's SMS, not missing money
+const BALANCE_TOLERANCE = 0.01;
+
+const file = createTenantJsonFile<BalancesFile>('balances.json', () => ({ accounts: [], gaps: [] }));
+
+function roundMoney(value: number): number {
+  return Math.round(value * 100) / 100;
+}
+
+function movementOf(transaction: ParsedTransaction): number {
+  return transaction.direction === 'Inflow' ? transaction.amount : -transaction.amount;
+}
+
+/**
+ * Transactions recorded so far - in the ledger, waiting in the outbox or held for review
+ * Many SMS (UPI debits in particular) carry no balance, so these fill in between reported balances
+ */
+async function recordedTransactions(): Promise<ParsedTransaction[]> {
+  const [ledger, outbox, review] = await Promise.all([
+    getTransactionStore().list(),
+    listOutboxEntries(),
+    listReviewItems('pending'),
+  ]);
+  return [...ledger, ...outbox.map((entry) => entry.transaction), ...review.map((item) => item.transaction)];
+}
+
+/**
+ * Record a balance reported by the bank and reconcile it with the previous one
+ *
+ * expected = previous balance +/- the transactions recorded on the account since then
+ * +/- the transaction that reported this balance (none for a balance alert)
+ * `unwritten` are transactions not recorded yet that belong in that sum, e.g. the rest of an import
+ * Returns the gap when the reported balance is off, null otherwise
+ * Observations older than the stored balance (late or out-of-order SMS) are ignored
+ */
+export async function recordBalance(
+  observation: BalanceObservation,
+  unwritten: ParsedTransaction[] = []
+): Promise<BalanceGap | null> {
+  if (!observation.account || observation.account === 'Unknown') {
+    return null;
+  }
+
+  const recorded = [...await recordedTransactions(), ...unwritten];
+
+  return file.update((data) => {
+    const observedAt = observation.observed_at.toISOString();
+    const current = data.accounts.find((entry) => entry.account === observation.account);
+    if (current && current.as_of > observedAt) {
+      return null;
+    }
+
+    let gap: BalanceGap | null = null;
+    if (current) {
+      const { transaction } = observation;
+      const since = new Date(current.as_of).getTime();
+      const until = observation.observed_at.getTime();
+      const counted = new Set(transaction ? [transaction.fingerprint] : []);
+      const between = recorded.filter((candidate) => {
+        if (candidate.account !== observation.account || counted.has(candidate.fingerprint)) {
+          return false;
+        }
+        counted.add(candidate.fingerprint);
+        const occurredAt = new Date(candidate.occurred_at).getTime();
+        return occurredAt > since && occurredAt <= until;
+      });
+      const movement = between.reduce((sum, candidate) => sum + movementOf(candidate), transaction ? movementOf(transaction) : 0);
+      const expected = roundMoney(current.balance + movement);
+      const difference = roundMoney(observation.balance - expected);
+
+      if (Math.abs(difference) >= BALANCE_TOLERANCE) {
+        gap = {
+          id: randomUUID(),
+          status: 'open',
+          account: observation.account,
+          previous_balance: current.balance,
+          previous_as_of: current.as_of,
+          expected_balance: expected,
+          reported_balance: observation.balance,
+          difference,
+          transaction_id: transaction?.transaction_id ?? null,
+          detected_at: new Date().toISOString(),
+          resolved_at: null,
+          note: '',
+        };
+        data.gaps.push(gap);
+      }
+    }
+
+    const next: AccountBalance = {
+      account: observation.account,
+      balance: observation.balance,
+      as_of: observedAt,
+      transaction_id: observation.transaction?.transaction_id ?? null,
+    };
+    if (current) {
+      Object.assign(current, next);
+    } else {
+      data.accounts.push(next);
+    }
+
+    return gap ? { ...gap } : null;
+  });
+}
+
+export async function listAccountBalances(): Promise<AccountBalance[]> {
+  const data = await file.read();
+  return [...data.accounts].sort((a, b) => a.account.localeCompare(b.account));
+}
+
+export async function listBalanceGaps(status?: BalanceGapStatus): Promise<BalanceGap[]> {
+  const data = await file.read();
+  return data.gaps.filter((gap) => !status || gap.status === status);
+}
+
+/**
+ * Mark a gap as explained (e.g. the missing transaction was added by hand)
+ * Returns null when the gap does not exist
+ */
+export async function resolveBalanceGap(id: string, note: string = ''): Promise<BalanceGap | null> {
+  return file.update((data) => {
+    const gap = data.gaps.find((candidate) => candidate.id === id);
+    if (!gap) {
+      return null;
+    }
+    if (gap.status !== 'resolved') {
+      gap.status = 'resolved';
+      gap.resolved_at = new Date().toISOString();
+      gap.note = note;
+    }
+    return { ...gap };
+  });
+}
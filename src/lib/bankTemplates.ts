@@ -0,0 +1,184 @@
+/**
+ * Bank-specific SMS templates
+ *
+ * Each template declares how to recognise a bank's SMS (sender ID + format markers)
+ * and how to pull out every field. Fields a template can't find fall back to the
+ * generic extractors in geminiAgent.ts.
+ */
+
+export interface TemplateFields {
+  amount?: number;
+  direction?: 'Inflow' | 'Outflow';
+  account?: string;
+  rawMerchant?: string;
+  transactionId?: string;
+  transactionDate?: string;
+  paymentMethod?: string;
+}
+
+export interface BankTemplate {
+  id: string;
+  bank: string;
+  senderPattern: RegExp;        // DLT sender IDs, e.g. "AD-FEDBNK"
+  formatPatterns: RegExp[];     // ALL must match the SMS body
+  extract(sms: string): TemplateFields;
+}
+
+export interface TemplateMatch {
+  template: string;
+  fields: TemplateFields;
+}
+
+export const GENERIC_TEMPLATE_ID = 'generic';
+
+const MONTHS = ['Jan', 'Feb', 'Mar', 'Apr', 'May', 'Jun', 'Jul', 'Aug', 'Sep', 'Oct', 'Nov', 'Dec'];
+
+function firstGroup(sms: string, pattern: RegExp): string | undefined {
+  const match = sms.match(pattern);
+  return match?.[1]?.trim() || undefined;
+}
+
+function parseAmount(sms: string): number | undefined {
+  const value = firstGroup(sms, /(?:Rs\.?|INR|₹)\s*([0-9,]+(?:\.\d{1,2})?)/i);
+  return value ? parseFloat(value.replace(/,/g, '')) : undefined;
+}
+
+function accountLabel(bank: string, digits: string | undefined): string {
+  return digits ? `${bank} XX${digits}` : bank;
+}
+
+/**
+ * Format day / month / year parts as "17 Jan 2026"
+ * Month may be numeric ("01") or a name ("JAN"), year may be 2 or 4 digits
+ */
+function formatDateParts(day: string, month: string, year: string): string | undefined {
+  const monthIndex = /^\d+$/.test(month)
+    ? parseInt(month, 10) - 1
+    : MONTHS.findIndex((name) => name.toLowerCase() === month.slice(0, 3).toLowerCase());
+  const monthName = MONTHS[monthIndex];
+
+  if (!monthName) {
+    return undefined;
+  }
+
+  const fullYear = year.length === 2 ? `20${year}` : year;
+  return `${parseInt(day, 10)} ${monthName} ${fullYear}`;
+}
+
+function matchDate(sms: string, pattern: RegExp, order: 'dmy' | 'ymd' = 'dmy'): string | undefined {
+  const match = sms.match(pattern);
+  if (!match || !match[1] || !match[2] || !match[3]) {
+    return undefined;
+  }
+
+  return order === 'dmy'
+    ? formatDateParts(match[1], match[2], match[3])
+    : formatDateParts(match[3], match[2], match[1]);
+}
+
+/**
+ * Template registry, checked in order - first match wins
+ */
+export const BANK_TEMPLATES: BankTemplate[] = [
+  {
+    // Rs 80.00 debited from your A/c XX1234 using UPI on 20-01-2026 16:35:10 to VPA swiggy@axisbank - (UPI Ref No 601234567890)-Federal Bank
+    id: 'federal-upi-debit',
+    bank: 'Federal Bank',
+    senderPattern: /FEDBNK|FEDBK|FEDFIB/i,
+    formatPatterns: [/Federal\s*Bank/i, /\bUPI\b/i, /\b(?:debited|sent)\b/i],
+    extract(sms) {
+      return {
+        amount: parseAmount(sms),
+        direction: 'Outflow',
+        account: accountLabel(this.bank, firstGroup(sms, /A\/c\s*(?:No\.?)?\s*[X*]*(\d{3,6})/i)),
+        rawMerchant: firstGroup(sms, /\bto\s+(?:VPA\s+)?(.+?)\s*(?:-\s*\(|\.\s*Ref|\s+Ref\b|\.\s|\.?$)/i),
+        transactionId: firstGroup(sms, /Ref\s*(?:No\.?)?\s*[.:]?\s*(\d{6,})/i),
+        transactionDate: matchDate(sms, /\bon\s+(\d{1,2})-(\d{1,2})-(\d{2,4})/i),
+        paymentMethod: 'UPI',
+      };
+    },
+  },
+  {
+    // Spent Rs.1,250.00 On HDFC Bank Card 1234 At AMAZON PAY IN On 2026-01-17:20:19:52 Not You? To Block+Reissue Call 18002586161
+    id: 'hdfc-card-spend',
+    bank: 'HDFC Bank',
+    senderPattern: /HDFCBK|HDFCBN/i,
+    formatPatterns: [/HDFC\s*Bank\s+(?:Credit\s+|Debit\s+)?Card/i, /\b(?:Spent|Txn)\b/i],
+    extract(sms) {
+      // Credit cards are accounts of their own, debit card spends come from the bank account
+      const creditCard = /Credit\s+Card/i.test(sms);
+      return {
+        amount: parseAmount(sms),
+        direction: 'Outflow',
+        account: accountLabel(creditCard ? `${this.bank} Credit Card` : this.bank, firstGroup(sms, /Card\s*(?:no\.?\s*)?[X*]*(\d{4})/i)),
+        rawMerchant: firstGroup(sms, /\bAt\s+(.+?)\s+(?:On|by)\s/i),
+        transactionId: firstGroup(sms, /by\s+UPI\s+(\d{6,})/i),
+        transactionDate: matchDate(sms, /\bOn\s+(\d{4})-(\d{2})-(\d{2})/i, 'ymd')
+          || matchDate(sms, /\bOn\s+(\d{1,2})[-\/](\d{1,2})[-\/](\d{2,4})/i),
+        paymentMethod: creditCard ? 'Credit Card' : 'Card',
+      };
+    },
+  },
+  {
+    // INR 5,000.00 credited to your A/c No XX1234 on 17/01/2026 through IMPS from RAHUL KUMAR, IMPS Ref No 601234567890 -SBI
+    // Dear SBI User, your A/c X1234-credited by Rs.5000 on 17Jan26 transfer from RAHUL KUMAR Ref No 601234567890 -SBI
+    id: 'sbi-imps-credit',
+    bank: 'SBI',
+    senderPattern: /SBIINB|SBIPSG|ATMSBI|CBSSBI/i,
+    formatPatterns: [/\bSBI\b|State Bank/i, /\bcredited\b/i, /\bIMPS\b|transfer from/i],
+    extract(sms) {
+      return {
+        amount: parseAmount(sms),
+        direction: 'Inflow',
+        account: accountLabel(this.bank, firstGroup(sms, /A\/c\s*(?:No\.?)?\s*[X*]*(\d{3,6})/i)),
+        rawMerchant: firstGroup(sms, /\bfrom\s+(.+?)\s*(?:,|\s+(?:IMPS\s+)?Ref\b|\.\s|\s-)/i),
+        transactionId: firstGroup(sms, /Ref\s*No\.?\s*:?\s*(\d{6,})/i),
+        transactionDate: matchDate(sms, /\bon\s+(\d{1,2})\/(\d{1,2})\/(\d{2,4})/i)
+          || matchDate(sms, /\bon\s+(\d{1,2})([A-Za-z]{3})(\d{2,4})\b/i),
+        paymentMethod: 'IMPS',
+      };
+    },
+  },
+  {
+    // ICICI Bank Acct XX123 credited with Rs 25,000.00 on 17-Jan-26 by NEFT from ACME CORP. Info: NEFT-N017261234567890.
+    // ICICI Bank Acct XX123 debited with Rs 5,000.00 on 17-Jan-26 & NEFT to RAHUL KUMAR. Info: NEFT-N017269876543210.
+    id: 'icici-neft',
+    bank: 'ICICI Bank',
+    senderPattern: /ICICIB|ICICIT/i,
+    formatPatterns: [/ICICI\s*Bank/i, /\bNEFT\b/i, /\b(?:credited|debited)\b/i],
+    extract(sms) {
+      return {
+        amount: parseAmount(sms),
+        direction: /\bcredited\b/i.test(sms) ? 'Inflow' : 'Outflow',
+        account: accountLabel(this.bank, firstGroup(sms, /Acc?t\s*(?:No\.?)?\s*[X*]*(\d{3,6})/i)),
+        rawMerchant: firstGroup(sms, /NEFT\s+(?:from|to)\s+(.+?)(?:\.\s|\.$|\s+Info\b)/i),
+        transactionId: firstGroup(sms, /NEFT[-\s]*(?:Ref\s*(?:No\.?)?\s*:?\s*)?([A-Z0-9]{10,})/i),
+        transactionDate: matchDate(sms, /\bon\s+(\d{1,2})-([A-Za-z]{3})-(\d{2,4})/i),
+        paymentMethod: 'NEFT',
+      };
+    },
+  },
+];
+
+/**
+ * Find the bank template for an SMS
+ * When the sender ID belongs to a known bank it must match the template's sender pattern too
+ */
+export function matchBankTemplate(sms: string, sender?: string): TemplateMatch | null {
+  // Forwarders often send a phone number instead of the DLT sender ID - ignore those
+  const senderKnown = Boolean(sender) && BANK_TEMPLATES.some((template) => template.senderPattern.test(sender!));
+
+  for (const template of BANK_TEMPLATES) {
+    if (senderKnown && !template.senderPattern.test(sender!)) {
+      continue;
+    }
+
+    if (!template.formatPatterns.every((pattern) => pattern.test(sms))) {
+      continue;
+    }
+
+    return { template: template.id, fields: template.extract(sms) };
+  }
+
+  return null;
+}
@@ -0,0 +1,60 @@
+import { randomUUID } from 'crypto';
+import { computeFingerprint } from './dedupe';
+import type { MessageSummary } from './geminiAgent';
+import { createTenantJsonFile } from './jsonFile';
+
+export interface BillReminder {
+  id: string;
+  fingerprint: string;
+  account: string | null;
+  amount: number | null;
+  due_date: string | null;
+  sender: string | null;
+  raw_message: string;
+  received_at: string;
+}
+
+interface BillRemindersFile {
+  reminders: BillReminder[];
+}
+
+const file = createTenantJsonFile<BillRemindersFile>('bill_reminders.json', () => ({ reminders: [] }));
+
+/**
+ * Keep a bill-due reminder SMS (card bills, announced auto-debits) for later use
+ * A forwarded copy of the same reminder returns the existing record
+ */
+export async function recordBillReminder(message: string, summary: MessageSummary): Promise<BillReminder> {
+  const rawMessage = message.trim();
+  const fingerprint = computeFingerprint({
+    text: rawMessage,
+    amount: summary.amount || 0,
+    account: summary.account || '',
+    timestamp: summary.due_date || '',
+  });
+
+  return file.update((data) => {
+    const existing = data.reminders.find((reminder) => reminder.fingerprint === fingerprint);
+    if (existing) {
+      return { ...existing };
+    }
+
+    const reminder: BillReminder = {
+      id: randomUUID(),
+      fingerprint,
+      account: summary.account,
+      amount: summary.amount,
+      due_date: summary.due_date,
+      sender: summary.sender,
+      raw_message: rawMessage,
+      received_at: new Date().toISOString(),
+    };
+    data.reminders.push(reminder);
+    return { ...reminder };
+  });
+}
+
+export async function listBillReminders(): Promise<BillReminder[]> {
+  const data = await file.read();
+  return [...data.reminders];
+}
@@ -0,0 +1,59 @@
+import { asNewTenant, makeTransaction } from './testing';
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+import { budgetInputSchema, createBudget, evaluateBudgetsAfterIngest, getBudgetStatus } from './budgets';
+import type { ParsedTransaction } from './geminiAgent';
+import { getTransactionStore } from './transactionStore';
+
+const WEBHOOK_URL = 'https://hooks.example.com/budget';
+
+async function spend(amount: number): Promise<ParsedTransaction> {
+  const transaction = makeTransaction({ amount });
+  await getTransactionStore().append(transaction);
+  return transaction;
+}
+
+test('reports spending against the monthly limit', () => asNewTenant(async () => {
+  await createBudget(budgetInputSchema.parse({ category: 'Food & Dining', monthly_limit: 1000 }));
+  const states = [];
+  for (const amount of [500, 350, 200]) {
+    await spend(amount);
+    states.push((await getBudgetStatus('2026-02'))[0]?.state);
+  }
+
+  assert.deepEqual(states, ['ok', 'warning', 'exceeded']);
+  const [status] = await getBudgetStatus('2026-02');
+  assert.equal(status?.remaining, -50);
+  assert.equal((await getBudgetStatus('2026-03'))[0]?.spent, 0);
+}));
+
+test('alerts once per crossed threshold and month', () => asNewTenant(async () => {
+  await createBudget(budgetInputSchema.parse({ category: 'Food & Dining', monthly_limit: 1000 }));
+
+  assert.deepEqual(await evaluateBudgetsAfterIngest(await spend(700)), []);
+  assert.deepEqual((await evaluateBudgetsAfterIngest(await spend(100))).map((alert) => alert.threshold_pct), [80]);
+  assert.deepEqual(await evaluateBudgetsAfterIngest(await spend(50)), []);
+  assert.deepEqual((await evaluateBudgetsAfterIngest(await spend(150))).map((alert) => alert.threshold_pct), [100]);
+}));
+
+test('a failed webhook leaves the alert to be sent on the next ingest', () => asNewTenant(async () => {
+  await createBudget(budgetInputSchema.parse({ category: 'Food & Dining', monthly_limit: 1000 }));
+  const sent: unknown[] = [];
+  const originalFetch = globalThis.fetch;
+  let status = 500;
+  globalThis.fetch = async (url, init) => {
+    sent.push({ url, body: JSON.parse(String(init?.body)) });
+    return new Response(null, { status });
+  };
+
+  try {
+    assert.deepEqual(await evaluateBudgetsAfterIngest(await spend(900)), []);
+    status = 204;
+    const alerts = await evaluateBudgetsAfterIngest(await spend(10));
+    assert.deepEqual(alerts.map((alert) => alert.threshold_pct), [80]);
+    assert.equal(sent.length, 2);
+    assert.deepEqual(sent[1], { url: WEBHOOK_URL, body: alerts[0] });
+  } finally {
+    globalThis.fetch = originalFetch;
+  }
+}, { budget_alert_webhook_url: WEBHOOK_URL }));
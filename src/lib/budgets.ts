@@ -0,0 +1,207 @@
+import { randomUUID } from 'crypto';
+import { z } from 'zod';
+import type { ParsedTransaction } from './geminiAgent';
+import { classifyFlow, monthOf, summarizeCategories } from './analytics';
+import { createTenantJsonFile } from './jsonFile';
+import { categorySchema, currentTenant } from './tenantContext';
+import { getTransactionStore } from './transactionStore';
+import { sendWebhook } from './webhook';
+
+export interface Budget {
+  id: string;
+  category: string;
+  monthly_limit: number;
+  created_at: string;
+  updated_at: string;
+}
+
+export type BudgetState = 'ok' | 'warning' | 'exceeded';
+
+export interface BudgetStatus {
+  budget_id: string;
+  category: string;
+  month: string;
+  monthly_limit: number;
+  spent: number;
+  remaining: number;
+  used_pct: number;
+  state: BudgetState;
+}
+
+export interface BudgetAlert {
+  type: 'budget_threshold_crossed';
+  threshold_pct: number;
+  status: BudgetStatus;
+  transaction_id: string;
+}
+
+interface BudgetsFile {
+  budgets: Budget[];
+  sent_alerts: string[]; // `${budget_id}:${month}:${threshold}` - each alert fires once per month
+}
+
+// Alerts fire when spending crosses these fractions of the limit
+const ALERT_THRESHOLDS = [0.8, 1];
+
+const file = createTenantJsonFile<BudgetsFile>('budgets.json', () => ({ budgets: [], sent_alerts: [] }));
+
+export const budgetInputSchema = z.object({
+  category: categorySchema,
+  monthly_limit: z.number().positive(),
+});
+
+export type BudgetInput = z.infer<typeof budgetInputSchema>;
+
+export class BudgetConflictError extends Error {}
+
+function round(value: number): number {
+  return Math.round(value * 100) / 100;
+}
+
+export async function listBudgets(): Promise<Budget[]> {
+  const data = await file.read();
+  return [...data.budgets];
+}
+
+export async function createBudget(input: BudgetInput): Promise<Budget> {
+  return file.update((data) => {
+    if (data.budgets.some((budget) => budget.category === input.category)) {
+      throw new BudgetConflictError(`A budget for "${input.category}" already exists`);
+    }
+
+    const now = new Date().toISOString();
+    const budget: Budget = { id: randomUUID(), ...input, created_at: now, updated_at: now };
+    data.budgets.push(budget);
+    return budget;
+  });
+}
+
+export async function updateBudget(id: string, input: Partial<BudgetInput>): Promise<Budget | null> {
+  return file.update((data) => {
+    const budget = data.budgets.find((candidate) => candidate.id === id);
+    if (!budget) {
+      return null;
+    }
+
+    if (input.category && data.budgets.some((other) => other.id !== id && other.category === input.category)) {
+      throw new BudgetConflictError(`A budget for "${input.category}" already exists`);
+    }
+
+    Object.assign(budget, input, { updated_at: new Date().toISOString() });
+    return budget;
+  });
+}
+
+export async function deleteBudget(id: string): Promise<boolean> {
+  return file.update((data) => {
+    const before = data.budgets.length;
+    data.budgets = data.budgets.filter((budget) => budget.id !== id);
+    data.sent_alerts = data.sent_alerts.filter((key) => !key.startsWith(`${id}:`));
+    return data.budgets.length < before;
+  });
+}
+
+function toStatus(budget: Budget, month: string, spent: number): BudgetStatus {
+  const usedPct = round((spent / budget.monthly_limit) * 100);
+
+  return {
+    budget_id: budget.id,
+    category: budget.category,
+    month,
+    monthly_limit: budget.monthly_limit,
+    spent: round(spent),
+    remaining: round(budget.monthly_limit - spent),
+    used_pct: usedPct,
+    state: usedPct >= 100 ? 'exceeded' : usedPct >= 80 ? 'warning' : 'ok',
+  };
+}
+
+/**
+ * Spending against every budget for a month (YYYY-MM)
+ * Uses net category spending, so refunds give budget back
+ */
+export async function getBudgetStatus(
+  month: string,
+  transactions?: ParsedTransaction[]
+): Promise<BudgetStatus[]> {
+  const budgets = await listBudgets();
+  if (budgets.length === 0) {
+    return [];
+  }
+
+  const summary = summarizeCategories(transactions || await getTransactionStore().list(), { month });
+  const spentByCategory = new Map(summary.categories.map((row) => [row.category, row.net]));
+
+  return budgets.map((budget) => toStatus(budget, month, spentByCategory.get(budget.category) || 0));
+}
+
+/**
+ * Check budgets after a transaction was ingested and send alerts for crossed thresholds
+ * Call after the transaction is stored - it is included in the month's spending
+ */
+export async function evaluateBudgetsAfterIngest(transaction: ParsedTransaction): Promise<BudgetAlert[]> {
+  const month = monthOf(transaction);
+  const flow = classifyFlow(transaction);
+  if (!month || (flow !== 'spend' && flow !== 'refund')) {
+    return [];
+  }
+
+  const statuses = await getBudgetStatus(month);
+  const status = statuses.find((candidate) => candidate.category === transaction.category);
+  if (!status) {
+    return [];
+  }
+
+  // Every threshold the month is over - sent_alerts keeps each one to a single alert,
+  // and an alert whose webhook failed is tried again on the next ingest
+  const crossed = ALERT_THRESHOLDS.filter((threshold) => status.spent >= status.monthly_limit * threshold);
+
+  if (crossed.length === 0) {
+    return [];
+  }
+
+  const alertKey = (threshold: number) => `${status.budget_id}:${month}:${threshold}`;
+
+  // Claim alerts first so concurrent ingests don't send the same one twice
+  const claimed = await file.update((data) => {
+    return crossed.filter((threshold) => {
+      const key = alertKey(threshold);
+      if (data.sent_alerts.includes(key)) {
+        return false;
+      }
+      data.sent_alerts.push(key);
+      return true;
+    });
+  });
+  const toAlert = (threshold: number): BudgetAlert => ({
+    type: 'budget_threshold_crossed',
+    threshold_pct: threshold * 100,
+    status,
+    transaction_id: transaction.transaction_id,
+  });
+
+  const webhookUrl = currentTenant().budget_alert_webhook_url;
+  if (!webhookUrl) {
+    if (claimed.length > 0) {
+      console.warn(`No budget alert webhook for tenant "${currentTenant().id}". Budget alerts are only logged.`);
+    }
+    return claimed.map(toAlert);
+  }
+
+  // A failed send gives the claim back instead of suppressing the alert for the rest of the month
+  const sent: BudgetAlert[] = [];
+  for (const threshold of claimed) {
+    const alert = toAlert(threshold);
+    try {
+      await sendWebhook(webhookUrl, alert);
+      sent.push(alert);
+    } catch (error) {
+      console.error(`Budget alert for "${status.category}" at ${alert.threshold_pct}% failed:`, error);
+      await file.update((data) => {
+        data.sent_alerts = data.sent_alerts.filter((key) => key !== alertKey(threshold));
+      });
+    }
+  }
+
+  return sent;
+}
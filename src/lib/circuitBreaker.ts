@@ -0,0 +1,67 @@
+export type CircuitState = 'closed' | 'open' | 'half-open';
+
+export interface CircuitBreakerOptions {
+  failureThreshold: number; // Consecutive failures that open the circuit
+  resetTimeoutMs: number;   // How long to stay open before letting one trial call through
+}
+
+export interface CircuitBreaker {
+  state(): CircuitState;
+  execute<T>(task: () => Promise<T>, isFailure?: (error: unknown) => boolean): Promise<T>;
+}
+
+export class CircuitOpenError extends Error {}
+
+/**
+ * Stop calling a dependency that keeps failing, and probe it again after a cool-down
+ * isFailure decides which errors count (e.g. a bad reply from a healthy service does not)
+ */
+export function createCircuitBreaker(name: string, options: CircuitBreakerOptions): CircuitBreaker {
+  let failures = 0;
+  let openedAt: number | null = null;
+  let trialInFlight = false;
+
+  function state(): CircuitState {
+    if (openedAt === null) {
+      return 'closed';
+    }
+    return Date.now() - openedAt >= options.resetTimeoutMs ? 'half-open' : 'open';
+  }
+
+  return {
+    state,
+
+    async execute(task, isFailure = () => true) {
+      const current = state();
+      if (current === 'open' || (current === 'half-open' && trialInFlight)) {
+        throw new CircuitOpenError(`${name} circuit is open`);
+      }
+
+      trialInFlight = current === 'half-open';
+      try {
+        const result = await task();
+        if (openedAt !== null) {
+          console.log(`${name} circuit closed`);
+        }
+        failures = 0;
+        openedAt = null;
+        return result;
+      } catch (error) {
+        if (isFailure(error)) {
+          failures++;
+          if (current === 'half-open' || failures >= options.failureThreshold) {
+            if (openedAt === null) {
+              console.warn(`${name} circuit opened after ${failures} consecutive failures`);
+            }
+            openedAt = Date.now();
+          }
+        }
+        throw error;
+      } finally {
+        if (current === 'half-open') {
+          trialInFlight = false;
+        }
+      }
+    },
+  };
+}
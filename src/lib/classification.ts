@@ -0,0 +1,158 @@
+import { z } from 'zod';
+import { categorySchema, tenantCategories } from './tenantContext';
+
+// Per HTTP request, counted from when the request is sent - not from when it was queued by the rate limiter
+export const CLASSIFIER_TIMEOUT_MS = parseInt(process.env.CLASSIFIER_TIMEOUT_MS || '10000', 10);
+export const CLASSIFIER_BATCH_TIMEOUT_MS = parseInt(process.env.CLASSIFIER_BATCH_TIMEOUT_MS || '60000', 10);
+
+export interface ClassificationInput {
+  sms: string;
+  rawMerchant: string;
+}
+
+/**
+ * Shape every LLM reply must have - anything else is rejected, not coerced to "Unknown"
+ */
+export const classificationSchema = z.object({
+  category: categorySchema,
+  confidence: z.number().min(0).max(1),
+  merchant: z.string().trim(),
+});
+
+export type Classification = z.infer<typeof classificationSchema>;
+
+// JSON modes require an object at the top level, so batches are wrapped in { results }
+export const batchClassificationSchema = z.object({
+  results: z.array(classificationSchema.extend({ index: z.number().int().nonnegative() })),
+});
+
+/**
+ * LLM fallback used when no merchant rule matches
+ * Implementations: Gemini, any OpenAI-compatible endpoint, deterministic fake
+ */
+export interface TransactionClassifier {
+  readonly name: string;
+  classify(input: ClassificationInput): Promise<Classification>;
+  /** One classification per input, in input order */
+  classifyBatch(inputs: ClassificationInput[]): Promise<Classification[]>;
+}
+
+export class ClassifierOutputError extends Error {
+  constructor(message: string, public readonly issues: unknown, public readonly output: string) {
+    super(message);
+  }
+}
+
+/**
+ * Non-2xx reply from the provider - status 429 / 5xx are worth retrying
+ */
+export class ClassifierHttpError extends Error {
+  constructor(message: string, public readonly status: number) {
+    super(message);
+  }
+}
+
+export class ClassifierTimeoutError extends Error {}
+
+/**
+ * The request got no reply at all (connection refused, DNS, reset)
+ */
+export class ClassifierUnreachableError extends Error {}
+
+// Categories come from the current tenant
+function instructions(): string {
+  const categories = tenantCategories();
+  const cardNote = categories.includes('Credit Card')
+    ? '\n4. "Credit Card" is only for paying a credit card bill - a purchase made with a credit card gets the category of what was bought'
+    : '';
+  return `1. Classify into ONE category from: [${categories.join(', ')}]
+2. Provide confidence score (0.0 to 1.0)
+3. Keep the extracted merchant as-is or refine it slightly if needed${cardNote}`;
+}
+
+export function buildClassificationPrompt(input: ClassificationInput): string {
+  return `Parse this Indian bank SMS and classify the transaction category.
+
+SMS: "${input.sms}"
+Extracted Merchant: "${input.rawMerchant}"
+
+Your task:
+${instructions()}
+
+Return JSON with:
+{
+  "category": "<category_name>",
+  "confidence": <0.0-1.0>,
+  "merchant": "<merchant_name>"
+}
+
+Examples:
+SMS: "Rs 29.00 sent via UPI to SWIGGY"
+Merchant: "SWIGGY"
+Answer: {"category":"Food & Dining","confidence":0.85,"merchant":"SWIGGY"}
+
+SMS: "Rs 500 paid to AMAZONPAY"
+Merchant: "AMAZONPAY"
+Answer: {"category":"Fashion and Shopping","confidence":0.75,"merchant":"AMAZON PAY"}
+
+Now classify the above SMS. Return ONLY JSON, no explanation:`;
+}
+
+export function buildBatchClassificationPrompt(inputs: ClassificationInput[]): string {
+  const listing = inputs
+    .map((input, index) => `${index}. SMS: "${input.sms}"\n   Extracted Merchant: "${input.rawMerchant}"`)
+    .join('\n');
+
+  return `Parse these Indian bank SMS and classify each transaction's category.
+
+${listing}
+
+For EACH SMS:
+${instructions()}
+
+Return a JSON object with one result per SMS, in the same order:
+{
+  "results": [
+    { "index": <number>, "category": "<category_name>", "confidence": <0.0-1.0>, "merchant": "<merchant_name>" }
+  ]
+}
+
+Return ONLY JSON, no explanation:`;
+}
+
+/**
+ * Parse and validate a JSON reply
+ * Throws ClassifierOutputError for invalid JSON or a reply that does not match the schema
+ */
+export function parseClassifierOutput<T extends z.ZodTypeAny>(text: string, schema: T): z.infer<T> {
+  let json: unknown;
+  try {
+    json = JSON.parse(text);
+  } catch (error) {
+    throw new ClassifierOutputError('Classifier reply is not valid JSON', error instanceof Error ? error.message : error, text);
+  }
+
+  const parsed = schema.safeParse(json);
+  if (!parsed.success) {
+    throw new ClassifierOutputError('Classifier reply does not match the classification schema', parsed.error.issues, text);
+  }
+  return parsed.data;
+}
+
+/**
+ * Put batch results back in input order - every input must have exactly one result
+ */
+export function orderBatchResults(
+  inputs: ClassificationInput[],
+  output: z.infer<typeof batchClassificationSchema>,
+  text: string
+): Classification[] {
+  return inputs.map((_, index) => {
+    const entry = output.results.find((candidate) => candidate.index === index);
+    if (!entry) {
+      throw new ClassifierOutputError(`Classifier reply has no result for item ${index}`, null, text);
+    }
+    const { index: _index, ...classification } = entry;
+    return classification;
+  });
+}
@@ -0,0 +1,29 @@
+import { asNewTenant, makeTransaction } from './testing';
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+import { runPendingClassification } from './classificationWorker';
+import { getTransactionStore } from './transactionStore';
+
+test('classifies pending ledger rows with one write per batch', () => asNewTenant(async () => {
+  const store = getTransactionStore();
+  const pending = (merchant: string) => makeTransaction({
+    category: 'Unknown',
+    confidence: 0,
+    pending_classification: true,
+    raw_message: `Rs.100.00 debited from A/c XX1234 to VPA ${merchant}@icici`,
+  });
+  await store.appendMany([pending('swiggy'), pending('uber'), makeTransaction()]);
+
+  let writes = 0;
+  const updateMany = store.updateMany;
+  store.update = async () => assert.fail('rows are written one by one');
+  store.updateMany = async (updates) => {
+    writes++;
+    return updateMany(updates);
+  };
+
+  assert.deepEqual(await runPendingClassification(), { classified: 2, remaining: 0 });
+  assert.equal(writes, 1);
+  const categories = (await store.list()).filter((transaction) => transaction.confidence < 1).map((transaction) => transaction.category);
+  assert.deepEqual(categories, ['Food & Dining', 'Transport']);
+}));
@@ -0,0 +1,84 @@
+import { ParsedTransaction, resolvePendingClassification } from './geminiAgent';
+import { listReviewItems, updateQueuedTransaction } from './reviewQueue';
+import { rawMerchantOf } from './statementImport';
+import { forEachTenant } from './tenants';
+import { getTransactionStore, TransactionUpdate } from './transactionStore';
+
+const CLASSIFICATION_RETRY_INTERVAL_MS = parseInt(process.env.CLASSIFICATION_RETRY_INTERVAL_MS || '60000', 10);
+const WORKER_BATCH_SIZE = 20;
+
+let running = false;
+
+/**
+ * Classify every transaction of the current tenant marked pending_classification,
+ * in the ledger and in the review queue. Stops at the first batch the LLM still cannot handle.
+ */
+export async function runPendingClassification(): Promise<{ classified: number; remaining: number }> {
+  const store = getTransactionStore();
+  const ledger = (await store.list()).filter((transaction) => transaction.pending_classification);
+  const queued = (await listReviewItems('pending'))
+    .map((item) => item.transaction)
+    .filter((transaction) => transaction.pending_classification);
+
+  const pending: { transaction: ParsedTransaction; inLedger: boolean }[] = [
+    ...ledger.map((transaction) => ({ transaction, inLedger: true })),
+    ...queued.map((transaction) => ({ transaction, inLedger: false })),
+  ];
+
+  let classified = 0;
+  for (let start = 0; start < pending.length; start += WORKER_BATCH_SIZE) {
+    const batch = pending.slice(start, start + WORKER_BATCH_SIZE);
+    const resolutions = await resolvePendingClassification(batch.map(({ transaction }) => ({
+      text: transaction.raw_message,
+      rawMerchant: rawMerchantOf(transaction),
+    })));
+
+    if (!resolutions) {
+      break;
+    }
+
+    // Ledger rows of the batch are written at once - one read and write on Sheets
+    const ledgerUpdates: TransactionUpdate[] = [];
+    for (const [position, { transaction, inLedger }] of batch.entries()) {
+      const changes = { ...resolutions[position]!, pending_classification: false };
+      if (inLedger) {
+        ledgerUpdates.push({ fingerprint: transaction.fingerprint, changes });
+      } else {
+        await updateQueuedTransaction(transaction.fingerprint, changes);
+      }
+    }
+    await store.updateMany(ledgerUpdates);
+    classified += batch.length;
+  }
+
+  return { classified, remaining: pending.length - classified };
+}
+
+/**
+ * Periodically retry pending classifications of every tenant in the background
+ * Returns a function that stops the worker
+ */
+export function startClassificationWorker(): () => void {
+  const timer = setInterval(async () => {
+    if (running) {
+      return;
+    }
+
+    running = true;
+    try {
+      await forEachTenant(async (tenant) => {
+        const { classified, remaining } = await runPendingClassification();
+        if (classified > 0 || remaining > 0) {
+          console.log(`Classification worker [${tenant.id}]: ${classified} classified, ${remaining} still pending`);
+        }
+      });
+    } catch (error) {
+      console.error('Classification worker failed:', error);
+    } finally {
+      running = false;
+    }
+  }, CLASSIFICATION_RETRY_INTERVAL_MS);
+
+  timer.unref();
+  return () => clearInterval(timer);
+}
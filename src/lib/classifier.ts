@@ -0,0 +1,33 @@
+import type { TransactionClassifier } from './classification';
+import { createFakeClassifier } from './fakeClassifier';
+import { createGeminiClassifier } from './geminiClassifier';
+import { createOpenAiClassifier } from './openaiClassifier';
+import { withResilience } from './resilientClassifier';
+
+const CLASSIFIER_FACTORIES: Record<string, () => TransactionClassifier> = {
+  gemini: createGeminiClassifier,
+  openai: createOpenAiClassifier,
+  fake: createFakeClassifier,
+};
+
+let classifier: TransactionClassifier | null = null;
+
+/**
+ * Get the configured LLM classifier, wrapped with retries and a circuit breaker (providers time out each request)
+ * Selected with CLASSIFIER_PROVIDER (gemini | openai | fake), defaults to gemini
+ */
+export function getTransactionClassifier(): TransactionClassifier {
+  if (classifier) {
+    return classifier;
+  }
+
+  const provider = (process.env.CLASSIFIER_PROVIDER || 'gemini').toLowerCase();
+  const factory = CLASSIFIER_FACTORIES[provider];
+
+  if (!factory) {
+    throw new Error(`Unknown CLASSIFIER_PROVIDER "${provider}". Expected one of: ${Object.keys(CLASSIFIER_FACTORIES).join(', ')}`);
+  }
+
+  classifier = withResilience(factory());
+  return classifier;
+}
@@ -0,0 +1,161 @@
+import { randomUUID } from 'crypto';
+import { z } from 'zod';
+import type { ParsedTransaction } from './geminiAgent';
+import { createTenantJsonFile } from './jsonFile';
+import {
+  createMerchantRule,
+  MerchantRuleConflictError,
+  MerchantRuleRecord,
+  normalizeForMatch,
+  updateMerchantRule,
+} from './merchantRules';
+import { rawMerchantOf } from './statementImport';
+import { categorySchema } from './tenantContext';
+import { findTransaction } from './transactionQuery';
+import { getTransactionStore } from './transactionStore';
+
+export interface TransactionCorrection {
+  id: string;
+  fingerprint: string;
+  transaction_id: string;
+  corrected_at: string;
+  before: { category: string; merchant: string; confidence: number };
+  after: { category: string; merchant: string; confidence: number };
+  rule_pattern: string | null;
+  note: string;
+}
+
+export interface CorrectionResult {
+  transaction: ParsedTransaction;
+  correction: TransactionCorrection;
+  rule: { action: 'created' | 'updated'; rule: MerchantRuleRecord } | null;
+  rule_error: string | null;      // The correction stands even when the rule could not be saved
+}
+
+interface CorrectionsFile {
+  corrections: TransactionCorrection[];
+}
+
+const CORRECTED_CONFIDENCE = 1; // A human said so
+
+const file = createTenantJsonFile<CorrectionsFile>('corrections.json', () => ({ corrections: [] }));
+
+export const correctionInputSchema = z.object({
+  category: categorySchema.optional(),
+  merchant: z.string().trim().min(1).optional(),
+  create_rule: z.boolean().default(false),
+  match_pattern: z.string().optional(), // Defaults to the raw merchant extracted from the message
+  rule_priority: z.number().default(10),
+  note: z.string().default(''),
+}).refine((input) => input.category !== undefined || input.merchant !== undefined, {
+  message: 'category or merchant is required',
+});
+
+export type CorrectionInput = z.infer<typeof correctionInputSchema>;
+
+export class CorrectionError extends Error {}
+
+/**
+ * Learn from a correction: add a rule for the merchant, or repoint the existing one
+ */
+async function learnRule(
+  pattern: string,
+  merchant: string,
+  category: string,
+  priority: number,
+  note: string
+): Promise<{ action: 'created' | 'updated'; rule: MerchantRuleRecord }> {
+  const input = {
+    match_pattern: pattern,
+    canonical_merchant: merchant,
+    category,
+    priority,
+    notes: note || 'Learned from correction',
+  };
+
+  try {
+    return { action: 'created', rule: await createMerchantRule(input) };
+  } catch (error) {
+    if (!(error instanceof MerchantRuleConflictError)) {
+      throw error;
+    }
+    const rule = await updateMerchantRule(pattern, { canonical_merchant: merchant, category: input.category });
+    return { action: 'updated', rule: rule! };
+  }
+}
+
+/**
+ * Correct a transaction's category and/or merchant
+ * Returns null when the transaction does not exist
+ */
+export async function correctTransaction(id: string, input: CorrectionInput): Promise<CorrectionResult | null> {
+  const store = getTransactionStore();
+  const transaction = findTransaction(await store.list(), id);
+  if (!transaction) {
+    return null;
+  }
+
+  // Snapshot first - store.update may mutate the listed object in place
+  const before = { category: transaction.category, merchant: transaction.merchant, confidence: transaction.confidence };
+  const category = input.category ?? transaction.category;
+  const merchant = input.merchant ?? transaction.merchant;
+
+  let pattern: string | null = null;
+  if (input.create_rule) {
+    pattern = normalizeForMatch(input.match_pattern ?? rawMerchantOf(transaction));
+    if (!pattern || pattern === 'UNKNOWN') {
+      throw new CorrectionError('Could not determine the raw merchant, pass match_pattern to create a rule');
+    }
+  }
+
+  const updated = await store.update(transaction.fingerprint, {
+    category,
+    merchant,
+    confidence: CORRECTED_CONFIDENCE,
+    pending_classification: false,
+  });
+  if (!updated) {
+    return null;
+  }
+
+  // The ledger row has changed - record it before anything else can fail
+  const correction: TransactionCorrection = {
+    id: randomUUID(),
+    fingerprint: transaction.fingerprint,
+    transaction_id: transaction.transaction_id,
+    corrected_at: new Date().toISOString(),
+    before,
+    after: { category, merchant, confidence: CORRECTED_CONFIDENCE },
+    rule_pattern: null,
+    note: input.note,
+  };
+  await file.update((data) => {
+    data.corrections.push(correction);
+  });
+
+  if (!pattern) {
+    return { transaction: updated, correction, rule: null, rule_error: null };
+  }
+
+  try {
+    const rule = await learnRule(pattern, merchant, category, input.rule_priority, input.note);
+    correction.rule_pattern = rule.rule.id;
+    await file.update((data) => {
+      const recorded = data.corrections.find((candidate) => candidate.id === correction.id);
+      if (recorded) {
+        recorded.rule_pattern = rule.rule.id;
+      }
+    });
+    return { transaction: updated, correction, rule, rule_error: null };
+  } catch (error) {
+    return { transaction: updated, correction, rule: null, rule_error: error instanceof Error ? error.message : 'Failed to save merchant rule' };
+  }
+}
+
+/**
+ * Correction history of one transaction, oldest first
+ */
+export async function listCorrections(fingerprint: string): Promise<TransactionCorrection[]> {
+  const data = await file.read();
+  return data.corrections.filter((correction) => correction.fingerprint === fingerprint);
+}
@@ -0,0 +1,62 @@
+import { asNewTenant, makeTransaction } from './testing';
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+import { listCreditCards, recordCardStatement, recordCardTransaction } from './creditCards';
+import { summarizeMessage } from './geminiAgent';
+
+const card = 'HDFC Bank Credit Card XX4321';
+const statementSms = 'Your HDFC Bank Credit Card XX4321 statement is generated. Total Amt Due Rs 12,000.00, Min Amt Due Rs 600.00, due by 05-Mar-26';
+
+function spend(occurredAt: string, amount: number) {
+  return makeTransaction({
+    account: card,
+    amount,
+    occurred_at: occurredAt,
+    raw_message: `Rs ${amount}.00 spent on HDFC Bank Credit Card XX4321 at AMAZON`,
+  });
+}
+
+function payment(source: 'bank' | 'card', fingerprint: string, transactionId: string) {
+  return makeTransaction({
+    fingerprint,
+    transaction_id: transactionId,
+    account: source === 'card' ? card : 'HDFC Bank XX1111',
+    direction: source === 'card' ? 'Inflow' : 'Outflow',
+    amount: 5000,
+    transaction_date: '12 Feb 2026',
+    raw_message: source === 'card'
+      ? 'Payment of Rs 5,000.00 received on your HDFC Bank Credit Card XX4321'
+      : 'Rs 5,000.00 debited from A/c XX1111 towards HDFC Credit Card XX4321',
+  });
+}
+
+async function outstanding(): Promise<number | undefined> {
+  return (await listCreditCards()).find((entry) => entry.account === card)?.outstanding;
+}
+
+test('a spend forwarded after the statement that already includes it is not added again', () => asNewTenant(async () => {
+  await recordCardStatement(statementSms, summarizeMessage(statementSms), new Date('2026-02-10T09:00:00+05:30'));
+
+  const late = spend('2026-02-08T18:00:00+05:30', 1000);
+  assert.equal(await recordCardTransaction(late, new Date(late.occurred_at)), null);
+  assert.equal(await outstanding(), 12000);
+
+  const after = spend('2026-02-11T18:00:00+05:30', 500);
+  assert.equal(await recordCardTransaction(after, new Date(after.occurred_at)), 'spend');
+  assert.equal(await outstanding(), 12500);
+}));
+
+test('the bank and card SMS of one bill payment settle the card once', () => asNewTenant(async () => {
+  await recordCardStatement(statementSms, summarizeMessage(statementSms), new Date('2026-02-10T09:00:00+05:30'));
+  const observedAt = new Date('2026-02-12T10:00:00+05:30');
+
+  assert.equal(await recordCardTransaction(payment('card', 'card-credit', 'TXN00000001'), observedAt), 'bill_payment');
+  assert.equal(await recordCardTransaction(payment('bank', 'bank-debit', 'UTR1234567'), observedAt), null);
+  assert.equal(await recordCardTransaction(payment('bank', 'bank-debit', 'UTR1234567'), observedAt), null);
+  assert.equal(await outstanding(), 7000);
+
+  // A second payment of the same amount is real money
+  assert.equal(await recordCardTransaction(payment('bank', 'second-debit', 'UTR7654321'), observedAt), 'bill_payment');
+  assert.equal(await outstanding(), 2000);
+  assert.equal((await listCreditCards())[0]?.last_statement?.status, 'partially_paid');
+}));
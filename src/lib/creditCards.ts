@@ -0,0 +1,301 @@
+import { randomUUID } from 'crypto';
+import { daysBetween, parseCalendarDate } from './dates';
+import type { MessageSummary, ParsedTransaction } from './geminiAgent';
+import { createTenantJsonFile } from './jsonFile';
+import { GENERATED_ID_PATTERN } from './reviewQueue';
+
+/**
+ * Credit cards are liability accounts:
+ * - a card spend is the expense (with its real category)
+ * - paying the card bill settles the liability and is not spending again
+ * - statement SMS set the outstanding amount and the due date of the cycle
+ */
+
+export type CardActivity = 'spend' | 'refund' | 'bill_payment';
+
+export type CardStatementStatus = 'unpaid' | 'partially_paid' | 'paid';
+
+export interface CardStatement {
+  id: string;
+  account: string;                // e.g. "HDFC Bank Credit Card XX1234"
+  statement_date: string;         // When the statement SMS arrived, ISO
+  total_due: number;
+  minimum_due: number | null;
+  due_date: string | null;        // Readable date from the SMS, e.g. "5 Feb 2025"
+  paid: number;                   // Payments received since the statement
+  status: CardStatementStatus;
+  raw_message: string;
+}
+
+export interface CreditCard {
+  account: string;
+  outstanding: number;            // Owed to the bank right now, negative = credit balance
+  as_of: string;                  // Last activity applied, ISO
+  last_statement_id: string | null;
+}
+
+export interface CreditCardOverview extends CreditCard {
+  last_statement: CardStatement | null;
+  days_until_due: number | null;  // Negative once the due date has passed
+  overdue: boolean;
+}
+
+interface CardPayment {
+  account: string;
+  amount: number;
+  paid_on: string;                // transaction_date of the payment
+  fingerprint: string;
+  source?: 'bank' | 'card';       // Which side's SMS recorded the payment, missing on older records
+  reference?: string | null;      // Bank reference (UTR) when the SMS carries one
+  copy_fingerprint?: string | null; // The other side's SMS of the same payment, once it arrived
+}
+
+interface CreditCardsFile {
+  cards: CreditCard[];
+  statements: CardStatement[];
+  payments: CardPayment[];
+}
+
+const CREDIT_CARD_PATTERN = /\bcredit\s*card\b|\bCC\s*(?:no\.?\s*)?[X*]+\d{3,}/i;
+// Card-side "payment received" SMS, bank-side debits towards a card, and card bill apps
+const BILL_PAYMENT_PATTERN = /\bpayment\s+(?:of\s+)?(?:Rs\.?|INR|₹)?\s*[\d,]*(?:\.\d{1,2})?\s*(?:has been\s+|is\s+|was\s+)?(?:received|credited|successful)|\btowards\s+(?:your\s+)?(?:[A-Za-z]+\s+){0,3}(?:credit\s*card|CC)\b|\b(?:credit\s*card|CC)\s+(?:bill|dues?)\b|\bbill\s*payment\b|\b(?:paid|sent)\s+to\s+CRED\b|cred\.club@/i;
+const CARD_DIGITS_PATTERN = /\b(?:credit\s*card|CC|card)\s*(?:no\.?|number|ending(?:\s+(?:with|in))?)?\s*:?\s*[X*]*(\d{4})\b/i;
+const STATEMENT_PATTERN = /\bstatement\b|\btotal\s*(?:amt|amount)?\s*due\b/i;
+const TOTAL_DUE_PATTERN = /\btotal\s*(?:amt\.?|amount)?\s*due\s*(?:is|of|:|-)?\s*(?:Rs\.?|INR|₹)\s*([0-9,]+(?:\.\d{1,2})?)/i;
+const MINIMUM_DUE_PATTERN = /\bmin(?:imum)?\.?\s*(?:amt\.?|amount)?\s*due\s*(?:is|of|:|-)?\s*(?:Rs\.?|INR|₹)\s*([0-9,]+(?:\.\d{1,2})?)/i;
+
+// The card-side and bank-side SMS of one bill payment are usually a day or two apart
+const PAYMENT_MATCH_WINDOW_DAYS = 3;
+
+const file = createTenantJsonFile<CreditCardsFile>('credit_cards.json', () => ({ cards: [], statements: [], payments: [] }));
+
+function roundMoney(value: number): number {
+  return Math.round(value * 100) / 100;
+}
+
+function parseMoney(value: string | undefined): number | null {
+  return value ? parseFloat(value.replace(/,/g, '')) : null;
+}
+
+export function mentionsCreditCard(sms: string): boolean {
+  return CREDIT_CARD_PATTERN.test(sms);
+}
+
+/**
+ * Paying a credit card bill - from the bank account side or the card side
+ */
+export function isCardBillPayment(sms: string): boolean {
+  return BILL_PAYMENT_PATTERN.test(sms) && (mentionsCreditCard(sms) || /\bCRED\b|cred\.club@/i.test(sms));
+}
+
+/**
+ * Last 4 digits of the credit card an SMS is about, or null
+ */
+export function creditCardDigits(sms: string): string | null {
+  return mentionsCreditCard(sms) ? sms.match(CARD_DIGITS_PATTERN)?.[1] ?? null : null;
+}
+
+/**
+ * What a money movement means for a credit card, or null when no credit card is involved
+ */
+export function creditCardActivity(sms: string, direction: 'Inflow' | 'Outflow'): CardActivity | null {
+  if (isCardBillPayment(sms)) {
+    return 'bill_payment';
+  }
+  if (!mentionsCreditCard(sms)) {
+    return null;
+  }
+  return direction === 'Outflow' ? 'spend' : 'refund';
+}
+
+function isCardAccount(account: string): boolean {
+  return /\bcredit card\b/i.test(account);
+}
+
+function findOrCreateCard(data: CreditCardsFile, account: string, observedAt: string): CreditCard {
+  let card = data.cards.find((candidate) => candidate.account === account);
+  if (!card) {
+    card = { account, outstanding: 0, as_of: observedAt, last_statement_id: null };
+    data.cards.push(card);
+  }
+  return card;
+}
+
+/**
+ * The card a transaction moves money on or to
+ * Bank-side bill payments name the card by its last digits only
+ */
+function cardAccountFor(data: CreditCardsFile, transaction: ParsedTransaction): string | null {
+  if (isCardAccount(transaction.account)) {
+    return transaction.account;
+  }
+  const digits = creditCardDigits(transaction.raw_message);
+  if (!digits) {
+    return null;
+  }
+  return data.cards.find((card) => card.account.endsWith(`XX${digits}`))?.account ?? null;
+}
+
+/**
+ * Apply a card spend, refund or bill payment to the card's outstanding amount
+ *
+ * Activity older than the latest statement is already part of its total and is skipped
+ * The two SMS of one bill payment (bank debit + card credit) settle the card only once
+ * Returns the activity applied, or null when the transaction does not touch a known card
+ */
+export async function recordCardTransaction(
+  transaction: ParsedTransaction,
+  observedAt: Date = new Date()
+): Promise<CardActivity | null> {
+  const activity = creditCardActivity(transaction.raw_message, transaction.direction);
+  if (!activity) {
+    return null;
+  }
+
+  return file.update((data) => {
+    const account = cardAccountFor(data, transaction);
+    if (!account) {
+      return null;
+    }
+
+    const observed = observedAt.toISOString();
+    const card = findOrCreateCard(data, account, observed);
+    const statement = data.statements.find((candidate) => candidate.id === card.last_statement_id);
+    if (statement && statement.statement_date > observed) {
+      return null;
+    }
+
+    if (activity === 'bill_payment') {
+      const source = isCardAccount(transaction.account) ? 'card' : 'bank';
+      const reference = GENERATED_ID_PATTERN.test(transaction.transaction_id) ? null : transaction.transaction_id;
+      if (data.payments.some((payment) => payment.fingerprint === transaction.fingerprint || payment.copy_fingerprint === transaction.fingerprint)) {
+        return null;
+      }
+
+      // The card-side credit and the bank-side debit of one payment are applied once: a payment is a copy
+      // when it carries the same reference, or pairs with a still unpaired payment from the other side
+      const paidOn = parseCalendarDate(transaction.transaction_date);
+      const original = data.payments.find((payment) => {
+        if (payment.account !== account) {
+          return false;
+        }
+        if (reference && payment.reference === reference) {
+          return true;
+        }
+        const otherDate = parseCalendarDate(payment.paid_on);
+        return !payment.copy_fingerprint
+          && payment.source !== source
+          && Math.abs(payment.amount - transaction.amount) < 0.01
+          && Boolean(paidOn && otherDate && daysBetween(paidOn, otherDate) <= PAYMENT_MATCH_WINDOW_DAYS);
+      });
+      if (original) {
+        original.copy_fingerprint = transaction.fingerprint;
+        return null;
+      }
+
+      data.payments.push({
+        account,
+        amount: transaction.amount,
+        paid_on: transaction.transaction_date,
+        fingerprint: transaction.fingerprint,
+        source,
+        reference,
+        copy_fingerprint: null,
+      });
+      if (statement) {
+        statement.paid = roundMoney(statement.paid + transaction.amount);
+        statement.status = statement.paid >= statement.total_due ? 'paid' : 'partially_paid';
+      }
+    }
+
+    const change = activity === 'spend' ? transaction.amount : -transaction.amount;
+    card.outstanding = roundMoney(card.outstanding + change);
+    card.as_of = observed > card.as_of ? observed : card.as_of;
+    return activity;
+  });
+}
+
+/**
+ * Start a new statement cycle from a card statement SMS
+ * ("... Credit Card XX1234 statement: Total Amt Due Rs 12,345, Min Amt Due Rs 620, due by 05-Feb-25")
+ *
+ * The outstanding amount is reset to the statement total
+ * Returns null when the SMS is not a card statement, the existing record for a repeat
+ */
+export async function recordCardStatement(
+  message: string,
+  summary: MessageSummary,
+  observedAt: Date = new Date()
+): Promise<CardStatement | null> {
+  const rawMessage = message.trim();
+  const digits = creditCardDigits(rawMessage);
+  const totalDue = parseMoney(rawMessage.match(TOTAL_DUE_PATTERN)?.[1]);
+  if (!digits || totalDue === null || !STATEMENT_PATTERN.test(rawMessage)) {
+    return null;
+  }
+
+  const bank = summary.account?.replace(/\s+(?:Credit Card\s+)?XX\d+$/, '') || 'Unknown';
+  const account = `${bank} Credit Card XX${digits}`;
+
+  return file.update((data) => {
+    const existing = data.statements.find((statement) => statement.raw_message === rawMessage);
+    if (existing) {
+      return { ...existing };
+    }
+
+    const observed = observedAt.toISOString();
+    const statement: CardStatement = {
+      id: randomUUID(),
+      account,
+      statement_date: observed,
+      total_due: totalDue,
+      minimum_due: parseMoney(rawMessage.match(MINIMUM_DUE_PATTERN)?.[1]),
+      due_date: summary.due_date,
+      paid: 0,
+      status: totalDue > 0 ? 'unpaid' : 'paid',
+      raw_message: rawMessage,
+    };
+    data.statements.push(statement);
+
+    // An older statement imported late does not replace the current cycle
+    const card = findOrCreateCard(data, account, observed);
+    const current = data.statements.find((candidate) => candidate.id === card.last_statement_id);
+    if (!current || current.statement_date <= observed) {
+      card.last_statement_id = statement.id;
+      card.outstanding = totalDue;
+      card.as_of = observed;
+    }
+
+    return { ...statement };
+  });
+}
+
+export async function listCreditCards(now: Date = new Date()): Promise<CreditCardOverview[]> {
+  const data = await file.read();
+
+  return data.cards
+    .map((card) => {
+      const statement = data.statements.find((candidate) => candidate.id === card.last_statement_id) ?? null;
+      const dueDate = statement?.due_date ? parseCalendarDate(statement.due_date) : null;
+      const today = new Date(Date.UTC(now.getUTCFullYear(), now.getUTCMonth(), now.getUTCDate()));
+      const daysUntilDue = dueDate ? daysBetween(today, dueDate) * (dueDate < today ? -1 : 1) : null;
+
+      return {
+        ...card,
+        last_statement: statement ? { ...statement } : null,
+        days_until_due: daysUntilDue,
+        overdue: daysUntilDue !== null && daysUntilDue < 0 && statement?.status !== 'paid',
+      };
+    })
+    .sort((a, b) => a.account.localeCompare(b.account));
+}
+
+/**
+ * Statements of one card (or all cards), newest first
+ */
+export async function listCardStatements(account?: string): Promise<CardStatement[]> {
+  const data = await file.read();
+  return data.statements
+    .filter((statement) => !account || statement.account === account)
+    .sort((a, b) => b.statement_date.localeCompare(a.statement_date));
+}
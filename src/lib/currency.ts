@@ -0,0 +1,112 @@
+import type { ParsedTransaction } from './geminiAgent';
+import { parseCalendarDate } from './dates';
+import { getExchangeRateSource, HOME_CURRENCY } from './exchangeRates';
+
+/**
+ * Currency of SMS amounts
+ *
+ * Indian bank SMS quote rupees (Rs / INR / ₹) unless the transaction happened
+ * in another currency ("USD 12.99 spent at NETFLIX.COM"). Foreign amounts keep
+ * their currency and are converted to HOME_CURRENCY with the exchange-rate source.
+ */
+
+// Rs / INR / ₹ amounts, and statement rows (which have no currency column)
+export const RUPEE_CURRENCY = 'INR';
+
+export interface MoneyAmount {
+  amount: number;
+  currency: string;
+}
+
+// Codes and symbols seen on international card spends - a bare [A-Z]{3} would match "UPI", "REF", ...
+const CURRENCY_CODES = 'USD|EUR|GBP|AED|SGD|AUD|CAD|JPY|CHF|HKD|THB|MYR|NZD|SAR|QAR|OMR|KWD|BHD|CNY|LKR|NPR|IDR|ZAR|SEK|NOK|DKK';
+const CURRENCY_SYMBOLS: Record<string, string> = { 'US$': 'USD', '$': 'USD', '€': 'EUR', '£': 'GBP', '¥': 'JPY' };
+const FOREIGN_AMOUNT_PATTERNS = [
+  new RegExp(`\\b(?<currency>${CURRENCY_CODES})\\.?\\s*(?<amount>\\d[0-9,]*(?:\\.\\d+)?)`),
+  new RegExp(`(?<amount>\\d[0-9,]*(?:\\.\\d+)?)\\s*(?<currency>${CURRENCY_CODES})\\b`),
+  /(?<currency>US\$|\$|€|£|¥)\s*(?<amount>\d[0-9,]*(?:\.\d+)?)/,
+];
+const RUPEE_AMOUNT_PATTERN = /(?:Rs\.?|INR|₹)\s*\d/i;
+// "USD 12.99 (INR 1,085.50)", "equivalent to Rs 1,085.50"
+const RUPEE_EQUIVALENT_PATTERN = /(?:\(|\bequivalent\s+(?:to|of)\s*|\bapprox\.?\s*|\bi\.e\.?\s*)\s*(?:Rs\.?|INR|₹)\s*([0-9,]+(?:\.\d{1,2})?)/i;
+// "Forex markup fee of Rs 35.20", "cross currency charges: INR 12.50"
+const FOREX_FEE_PATTERN = /\b(?:forex|fx|cross[\s-]*currency|foreign\s+currency|currency\s+conversion)\s+(?:mark[\s-]?up|fee|charges?)(?:\s+(?:fee|charges?))?\s*(?:of|:|-)?\s*(?:Rs\.?|INR|₹)\s*([0-9,]+(?:\.\d{1,2})?)/i;
+
+function parseMoney(value: string): number {
+  return parseFloat(value.replace(/,/g, ''));
+}
+
+function roundMoney(value: number): number {
+  return Math.round(value * 100) / 100;
+}
+
+/**
+ * The transaction amount when it is in a currency other than the rupee, else null
+ * The first amount in the SMS is the transaction - a later "Avl Lmt Rs ..." does not count
+ */
+export function extractForeignAmount(sms: string): MoneyAmount | null {
+  let first: { index: number; money: MoneyAmount } | null = null;
+
+  for (const pattern of FOREIGN_AMOUNT_PATTERNS) {
+    const match = sms.match(pattern);
+    const currency = match?.groups?.currency;
+    const amount = match?.groups?.amount;
+    if (match?.index === undefined || !currency || !amount || (first && first.index <= match.index)) {
+      continue;
+    }
+    first = { index: match.index, money: { amount: parseMoney(amount), currency: CURRENCY_SYMBOLS[currency] ?? currency } };
+  }
+
+  const rupeeIndex = sms.search(RUPEE_AMOUNT_PATTERN);
+  if (!first || (rupeeIndex !== -1 && rupeeIndex < first.index)) {
+    return null;
+  }
+  return first.money;
+}
+
+/**
+ * Rupee amount the bank quotes next to a foreign amount, or null
+ */
+export function extractRupeeEquivalent(sms: string): number | null {
+  const value = sms.match(RUPEE_EQUIVALENT_PATTERN)?.[1];
+  return value ? parseMoney(value) : null;
+}
+
+/**
+ * Forex markup / cross-currency fee charged on the transaction, or null
+ */
+export function extractForexFee(sms: string): number | null {
+  const value = sms.match(FOREX_FEE_PATTERN)?.[1];
+  return value ? parseMoney(value) : null;
+}
+
+/**
+ * Convert a transaction to HOME_CURRENCY in place, keeping the original amount
+ * Without a rate the amount stays in the original currency and reviewReasons flags it
+ */
+export async function convertToHomeCurrency(transaction: ParsedTransaction): Promise<ParsedTransaction> {
+  if (transaction.currency === HOME_CURRENCY || transaction.exchange_rate !== undefined) {
+    return transaction;
+  }
+
+  const original = transaction.original_amount ?? transaction.amount;
+  transaction.original_amount = original;
+
+  const source = getExchangeRateSource();
+  const rate = await source.rate(transaction.currency, HOME_CURRENCY, parseCalendarDate(transaction.transaction_date));
+  if (rate === null) {
+    console.warn(`No ${transaction.currency} -> ${HOME_CURRENCY} rate in exchange-rate source "${source.name}"`);
+    return transaction;
+  }
+
+  transaction.exchange_rate = rate;
+  transaction.amount = roundMoney(original * rate);
+  return transaction;
+}
+
+/**
+ * Foreign amount that could not be converted yet
+ */
+export function needsExchangeRate(transaction: ParsedTransaction): boolean {
+  return transaction.currency !== HOME_CURRENCY && transaction.exchange_rate === undefined;
+}
@@ -0,0 +1,66 @@
+import './testing';
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+import {
+  calendarDateToIstIso,
+  findSmsTimestamp,
+  formatReadableTimestamp,
+  parseCalendarDate,
+  parseReadableTimestamp,
+  toIstIsoString,
+} from './dates';
+
+function istIso(sms: string, reference?: Date): string | null {
+  const timestamp = findSmsTimestamp(sms, reference);
+  return timestamp ? toIstIsoString(timestamp.occurredAt) : null;
+}
+
+test('parses the calendar date formats of SMS, statements and the sheet', () => {
+  const expected = Date.UTC(2026, 0, 21);
+  for (const value of ['21 Jan 2026', '21-Jan-26', '21/01/2026', '21-01-26', '2026-01-21', '20260121', '21JAN2026']) {
+    assert.equal(parseCalendarDate(value)?.getTime(), expected, value);
+  }
+});
+
+test('does not guess impossible or unknown dates', () => {
+  for (const value of ['30 Feb 2026', '2026-13-01', '32/01/2026', 'yesterday', '']) {
+    assert.equal(parseCalendarDate(value), null, value);
+  }
+});
+
+test('reads the date and time of an SMS as IST', () => {
+  assert.equal(istIso('Rs.250.00 debited on 17-01-2026 20:19:52 to VPA swiggy@icici'), '2026-01-17T20:19:52+05:30');
+  assert.equal(istIso('INR 500 spent on Card XX1234 on 2026-01-17:08:05:00'), '2026-01-17T08:05:00+05:30');
+  assert.equal(istIso('Txn of Rs 99 on 17th Jan 2026 at 08:19 PM'), '2026-01-17T20:19:00+05:30');
+  assert.equal(istIso('Txn of Rs 99 on Jan 17, 2026 at 12:10 am'), '2026-01-17T00:10:00+05:30');
+});
+
+test('the first date in the message wins', () => {
+  assert.equal(istIso('Debited on 03/02/26. Avl bal as of 05/02/26 is Rs 100'), '2026-02-03T00:00:00+05:30');
+});
+
+test('infers a missing year from when the SMS arrived, never in the future', () => {
+  const reference = new Date('2026-01-05T10:00:00+05:30');
+
+  const lastYear = findSmsTimestamp('Rs 99 spent on 17 Dec', reference);
+  assert.equal(lastYear?.yearInferred, true);
+  assert.equal(toIstIsoString(lastYear!.occurredAt), '2025-12-17T00:00:00+05:30');
+  assert.equal(istIso('Rs 99 spent on 03-Jan', reference), '2026-01-03T00:00:00+05:30');
+});
+
+test('a date-only SMS from the day it arrived keeps the arrival time', () => {
+  const reference = new Date('2026-01-05T10:00:00+05:30');
+  const timestamp = findSmsTimestamp('Rs 99 debited on 05-01-2026', reference);
+
+  assert.equal(timestamp?.hasTime, false);
+  assert.equal(timestamp?.occurredAt.getTime(), reference.getTime());
+  assert.equal(findSmsTimestamp('Your OTP is 123456'), null);
+});
+
+test('converts between stored dates, readable timestamps and ISO-8601', () => {
+  assert.equal(calendarDateToIstIso('21 Jan 2026'), '2026-01-21T00:00:00+05:30');
+  assert.equal(calendarDateToIstIso('not a date'), null);
+  assert.equal(formatReadableTimestamp('2026-01-17T20:19:52+05:30'), '17 Jan 2026 20:19:52');
+  assert.equal(parseReadableTimestamp('17 Jan 2026 20:19:52'), '2026-01-17T20:19:52+05:30');
+  assert.equal(parseReadableTimestamp('17 Jan 2026'), null);
+});
@@ -0,0 +1,209 @@
+const MONTH_NAMES = ['Jan', 'Feb', 'Mar', 'Apr', 'May', 'Jun', 'Jul', 'Aug', 'Sep', 'Oct', 'Nov', 'Dec'];
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+function monthIndex(month: string): number {
+  if (/^\d+$/.test(month)) {
+    return parseInt(month, 10) - 1;
+  }
+  return MONTH_NAMES.findIndex((name) => name.toLowerCase() === month.slice(0, 3).toLowerCase());
+}
+
+function fullYear(year: string): number {
+  return year.length === 2 ? 2000 + parseInt(year, 10) : parseInt(year, 10);
+}
+
+function buildDate(year: number, month: number, day: number): Date | null {
+  if (month < 0 || month > 11 || day < 1 || day > 31) {
+    return null;
+  }
+  const date = new Date(Date.UTC(year, month, day));
+  return date.getUTCDate() === day ? date : null;
+}
+
+/**
+ * Format a date as stored in transaction_date (e.g., 21 Jan 2026)
+ */
+export function formatReadableDate(date: Date): string {
+  return `${date.getUTCDate()} ${MONTH_NAMES[date.getUTCMonth()]} ${date.getUTCFullYear()}`;
+}
+
+/**
+ * Parse a calendar date (UTC midnight) from the formats found in SMS, statements and the sheet
+ *
+ * Supported: 21 Jan 2026, 21-Jan-26, 21/01/2026, 21-01-26, 2026-01-21, 20260121
+ * Returns null for anything else instead of guessing
+ */
+export function parseCalendarDate(value: string): Date | null {
+  const input = value.trim();
+  let match: RegExpMatchArray | null;
+
+  // 2026-01-21 (optionally followed by a time)
+  if ((match = input.match(/^(\d{4})-(\d{1,2})-(\d{1,2})/))) {
+    return buildDate(parseInt(match[1]!, 10), parseInt(match[2]!, 10) - 1, parseInt(match[3]!, 10));
+  }
+
+  // 20260121 (OFX DTPOSTED, optionally followed by time)
+  if ((match = input.match(/^(\d{4})(\d{2})(\d{2})/))) {
+    return buildDate(parseInt(match[1]!, 10), parseInt(match[2]!, 10) - 1, parseInt(match[3]!, 10));
+  }
+
+  // 21 Jan 2026, 21-Jan-26, 21/01/2026, 21-01-26, 21JAN2026
+  if ((match = input.match(/^(\d{1,2})[\s\-\/.]*([A-Za-z]{3,9}|\d{1,2})[\s\-\/.,]*(\d{4}|\d{2})\b/))) {
+    return buildDate(fullYear(match[3]!), monthIndex(match[2]!), parseInt(match[1]!, 10));
+  }
+
+  return null;
+}
+
+/**
+ * Whole days between two calendar dates (absolute)
+ */
+export function daysBetween(a: Date, b: Date): number {
+  return Math.round(Math.abs(a.getTime() - b.getTime()) / DAY_MS);
+}
+
+// Indian bank SMS quote Indian Standard Time - a fixed offset, no daylight saving
+export const TIMEZONE = 'Asia/Kolkata';
+const IST_OFFSET = '+05:30';
+const IST_OFFSET_MS = (5 * 60 + 30) * 60 * 1000;
+
+/**
+ * ISO-8601 timestamp in IST (e.g., 2026-01-17T20:19:52+05:30)
+ */
+export function toIstIsoString(date: Date): string {
+  return `${new Date(date.getTime() + IST_OFFSET_MS).toISOString().slice(0, 19)}${IST_OFFSET}`;
+}
+
+/**
+ * Calendar date (UTC midnight, like parseCalendarDate) of an instant, as seen in IST
+ */
+export function istCalendarDate(date: Date): Date {
+  const shifted = new Date(date.getTime() + IST_OFFSET_MS);
+  return new Date(Date.UTC(shifted.getUTCFullYear(), shifted.getUTCMonth(), shifted.getUTCDate()));
+}
+
+/**
+ * Instant of an IST wall-clock time on a calendar date
+ */
+export function istInstant(calendarDate: Date, hours: number = 0, minutes: number = 0, seconds: number = 0): Date {
+  return new Date(calendarDate.getTime() + ((hours * 60 + minutes) * 60 + seconds) * 1000 - IST_OFFSET_MS);
+}
+
+/**
+ * IST midnight of a stored calendar date (e.g., 21 Jan 2026) as ISO-8601, null if unparseable
+ * For rows stored before transactions carried a timestamp
+ */
+export function calendarDateToIstIso(value: string): string | null {
+  const date = parseCalendarDate(value);
+  return date ? toIstIsoString(istInstant(date)) : null;
+}
+
+/**
+ * Readable IST timestamp for people (e.g., 17 Jan 2026 20:19:52), used in the sheet
+ * Values that are not timestamps are returned unchanged
+ */
+export function formatReadableTimestamp(value: string): string {
+  const date = new Date(value);
+  if (!value || isNaN(date.getTime())) {
+    return value;
+  }
+  const shifted = new Date(date.getTime() + IST_OFFSET_MS);
+  return `${formatReadableDate(shifted)} ${shifted.toISOString().slice(11, 19)}`;
+}
+
+/**
+ * Inverse of formatReadableTimestamp - ISO-8601 in IST, or null
+ */
+export function parseReadableTimestamp(value: string): string | null {
+  const match = value.trim().match(/^(.+?)\s+(\d{1,2}):(\d{2})(?::(\d{2}))?$/);
+  const date = match ? parseCalendarDate(match[1]!) : null;
+  if (!match || !date) {
+    return null;
+  }
+  return toIstIsoString(istInstant(date, parseInt(match[2]!, 10), parseInt(match[3]!, 10), parseInt(match[4] || '0', 10)));
+}
+
+export interface SmsTimestamp {
+  occurredAt: Date;
+  hasTime: boolean;        // false = the SMS only gave a date
+  yearInferred: boolean;   // "on 17 Jan" - year taken from when the SMS arrived
+}
+
+const MONTH_NAME = '(jan(?:uary)?|feb(?:ruary)?|mar(?:ch)?|apr(?:il)?|may|june?|july?|aug(?:ust)?|sept?(?:ember)?|oct(?:ober)?|nov(?:ember)?|dec(?:ember)?)(?![a-z])\\.?';
+// Not followed by ":" so "17-Jan 12:30" does not read 12 as the year
+const YEAR = '(\\d{4}|\\d{2})(?![\\d:])';
+
+// Each pattern yields [day, month, year?] - year is optional only where a month name makes the date unambiguous
+const SMS_DATE_PATTERNS: { pattern: RegExp; parts: (match: RegExpMatchArray) => [string, string, string | undefined] }[] = [
+  // 2026-01-17, 2026/01/17 (optionally 2026-01-17:20:19:52)
+  { pattern: /\b(\d{4})[-\/.](\d{1,2})[-\/.](\d{1,2})(?!\d)/, parts: (m) => [m[3]!, m[2]!, m[1]!] },
+  // 17-01-2026, 17/01/26, 17.01.2026
+  { pattern: new RegExp(`\\b(\\d{1,2})[-\\/.](\\d{1,2})[-\\/.]${YEAR}`), parts: (m) => [m[1]!, m[2]!, m[3]!] },
+  // 17JAN2026, 17-Jan-26, 17 January 2026, 17th Jan, 17-Jan
+  { pattern: new RegExp(`\\b(\\d{1,2})(?:st|nd|rd|th)?[\\s\\-\\/.]*${MONTH_NAME}(?:[\\s\\-\\/.,']*${YEAR})?`, 'i'), parts: (m) => [m[1]!, m[2]!, m[3]] },
+  // Jan 17, 2026
+  { pattern: new RegExp(`\\b${MONTH_NAME}\\s+(\\d{1,2})(?:st|nd|rd|th)?,?\\s+${YEAR}`, 'i'), parts: (m) => [m[2]!, m[1]!, m[3]] },
+];
+// Time right after the date: "at 16:35", "20:19:52", ":20:19:52", "08:19 PM"
+const SMS_TIME_PATTERN = /^[\s,]*(?:at|@|time)?[\s:,-]*(\d{1,2}):(\d{2})(?::(\d{2}))?(?:\s*(am|pm)\b)?/i;
+
+/**
+ * Find the transaction date (and time, if given) in an SMS, read as IST
+ *
+ * The first date in the message wins. Two-digit years are 20xx. Without a year the
+ * date is placed in the year of `reference` (when the SMS arrived), or the year
+ * before when that would put it in the future. Without a time, the reference time
+ * is used on the same day and midnight otherwise.
+ * Returns null when the SMS has no recognizable date.
+ */
+export function findSmsTimestamp(sms: string, reference: Date = new Date()): SmsTimestamp | null {
+  let first: { index: number; length: number; date: Date; yearInferred: boolean } | null = null;
+  const referenceDay = istCalendarDate(reference);
+
+  for (const { pattern, parts } of SMS_DATE_PATTERNS) {
+    const match = sms.match(pattern);
+    if (!match || match.index === undefined || (first && first.index <= match.index)) {
+      continue;
+    }
+
+    const [day, month, year] = parts(match);
+    const yearInferred = year === undefined;
+    let date = buildDate(yearInferred ? referenceDay.getUTCFullYear() : fullYear(year), monthIndex(month), parseInt(day, 10));
+    if (date && yearInferred && date.getTime() - referenceDay.getTime() > DAY_MS) {
+      date = buildDate(referenceDay.getUTCFullYear() - 1, monthIndex(month), parseInt(day, 10));
+    }
+    if (date) {
+      first = { index: match.index, length: match[0].length, date, yearInferred };
+    }
+  }
+
+  if (!first) {
+    return null;
+  }
+
+  const time = sms.slice(first.index + first.length).match(SMS_TIME_PATTERN);
+  if (time) {
+    let hours = parseInt(time[1]!, 10);
+    const meridiem = time[4]?.toLowerCase();
+    if (meridiem === 'pm' && hours < 12) {
+      hours += 12;
+    } else if (meridiem === 'am' && hours === 12) {
+      hours = 0;
+    }
+    const minutes = parseInt(time[2]!, 10);
+    if (hours < 24 && minutes < 60) {
+      return {
+        occurredAt: istInstant(first.date, hours, minutes, parseInt(time[3] || '0', 10)),
+        hasTime: true,
+        yearInferred: first.yearInferred,
+      };
+    }
+  }
+
+  return {
+    occurredAt: first.date.getTime() === referenceDay.getTime() ? reference : istInstant(first.date),
+    hasTime: false,
+    yearInferred: first.yearInferred,
+  };
+}
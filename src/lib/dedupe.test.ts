@@ -0,0 +1,70 @@
+import { asNewTenant, makeTransaction } from './testing';
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+import { buildApp } from '../app';
+import { createApiKey } from './apiKeys';
+import { computeFingerprint, findByFingerprint, findByIdempotencyKey, rememberTransaction, runOnce } from './dedupe';
+import { DEFAULT_TENANT_ID, runWithTenant } from './tenantContext';
+import { defaultTenant } from './tenants';
+import { getTransactionStore } from './transactionStore';
+
+const SMS = 'Rs.250.00 debited from A/c XX1234 on 05-02-26 to VPA swiggy@icici UPI Ref No 604512345678';
+
+test('fingerprints ignore whitespace and casing of the forwarded text', () => {
+  const input = { text: SMS, amount: 250, account: 'XX1234', timestamp: '2026-02-05' };
+
+  assert.equal(computeFingerprint({ ...input, text: `  ${SMS.toUpperCase().replace(/ /g, '\n')} ` }), computeFingerprint(input));
+  assert.notEqual(computeFingerprint({ ...input, amount: 251 }), computeFingerprint(input));
+});
+
+test('remembers transactions by fingerprint and Idempotency-Key within a tenant', async () => {
+  const transaction = makeTransaction();
+  await asNewTenant(async () => {
+    rememberTransaction(transaction, 'key-1');
+    assert.equal(findByFingerprint(transaction.fingerprint), transaction);
+    assert.equal(findByIdempotencyKey('key-1'), transaction);
+  });
+  await asNewTenant(async () => {
+    assert.equal(findByFingerprint(transaction.fingerprint), null);
+    assert.equal(findByIdempotencyKey('key-1'), null);
+  });
+});
+
+test('concurrent ingestions of one fingerprint share the first result', () => asNewTenant(async () => {
+  let runs = 0;
+  const task = async () => {
+    runs++;
+    await new Promise((resolve) => setTimeout(resolve, 10));
+    return makeTransaction();
+  };
+
+  const [first, second] = await Promise.all([runOnce('same', task), runOnce('same', task)]);
+  assert.equal(runs, 1);
+  assert.equal(second.transaction, first.transaction);
+  assert.deepEqual([first.shared, second.shared], [false, true]);
+}));
+
+test('a forwarded SMS is stored once and an Idempotency-Key cannot be reused for another message', async () => {
+  const app = buildApp();
+  const { key } = await createApiKey({ name: 'dedupe', tenant_id: DEFAULT_TENANT_ID, scopes: ['ingest'], require_signature: false, rate_limit_per_minute: null });
+  const ingest = (message: string, idempotencyKey: string) => app.inject({
+    method: 'POST',
+    url: '/api/finance/new-transaction',
+    headers: { 'x-api-key': key, 'idempotency-key': idempotencyKey },
+    payload: { message },
+  });
+
+  const first = await ingest(SMS, 'sms-1');
+  assert.equal(first.statusCode, 200);
+  assert.equal(first.json().duplicate, false);
+
+  const forwarded = await ingest(`  ${SMS.toLowerCase()}`, 'sms-2');
+  assert.equal(forwarded.statusCode, 200);
+  assert.equal(forwarded.json().duplicate, true);
+
+  const conflict = await ingest(SMS.replace('250.00', '260.00'), 'sms-1');
+  assert.equal(conflict.statusCode, 409);
+
+  const stored = await runWithTenant(defaultTenant(), () => getTransactionStore().list());
+  assert.equal(stored.length, 1);
+});
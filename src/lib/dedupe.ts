@@ -0,0 +1,121 @@
+import { createHash } from 'crypto';
+import type { ParsedTransaction } from './geminiAgent';
+import { currentTenant } from './tenantContext';
+
+interface FingerprintInput {
+  text: string;
+  amount: number;
+  account: string;
+  timestamp: string;
+}
+
+interface SeenEntry {
+  transaction: ParsedTransaction;
+  seenAt: number;
+}
+
+// Phone automations re-forward the same SMS within minutes, keep a day of history
+const DEDUPE_WINDOW_MS = 24 * 60 * 60 * 1000; // 24 hours
+
+// In-memory registries of ingested transactions, keyed by tenantKey()
+const seenByFingerprint = new Map<string, SeenEntry>();
+const seenByIdempotencyKey = new Map<string, SeenEntry>();
+
+// Ingestions currently being parsed, so concurrent copies share one result
+const inFlight = new Map<string, Promise<ParsedTransaction>>();
+
+/**
+ * Normalize SMS text for fingerprinting
+ * Forwarders often change whitespace and casing, so both are ignored
+ */
+function normalizeText(text: string): string {
+  return text
+    .toLowerCase()
+    .replace(/\s+/g, ' ')
+    .trim();
+}
+
+/**
+ * Build a stable fingerprint from the normalized text, amount, account and timestamp
+ */
+export function computeFingerprint(input: FingerprintInput): string {
+  const payload = [
+    normalizeText(input.text),
+    input.amount.toFixed(2),
+    input.account.toUpperCase(),
+    input.timestamp,
+  ].join('|');
+
+  return createHash('sha256').update(payload).digest('hex');
+}
+
+/**
+ * Registry key scoped to the current tenant - an Idempotency-Key or fingerprint never matches across tenants
+ */
+function tenantKey(key: string): string {
+  return `${currentTenant().id}:${key}`;
+}
+
+function readFresh(registry: Map<string, SeenEntry>, key: string): ParsedTransaction | null {
+  const entry = registry.get(tenantKey(key));
+  if (!entry) {
+    return null;
+  }
+
+  if (Date.now() - entry.seenAt >= DEDUPE_WINDOW_MS) {
+    registry.delete(tenantKey(key));
+    return null;
+  }
+
+  return entry.transaction;
+}
+
+/**
+ * Find a previously ingested transaction by fingerprint
+ */
+export function findByFingerprint(fingerprint: string): ParsedTransaction | null {
+  return readFresh(seenByFingerprint, fingerprint);
+}
+
+/**
+ * Find a previously ingested transaction by client-supplied Idempotency-Key
+ */
+export function findByIdempotencyKey(key: string): ParsedTransaction | null {
+  return readFresh(seenByIdempotencyKey, key);
+}
+
+/**
+ * Remember an ingested transaction so repeats can be answered without re-writing it
+ */
+export function rememberTransaction(transaction: ParsedTransaction, idempotencyKey?: string): void {
+  const entry: SeenEntry = { transaction, seenAt: Date.now() };
+
+  seenByFingerprint.set(tenantKey(transaction.fingerprint), entry);
+  if (idempotencyKey) {
+    seenByIdempotencyKey.set(tenantKey(idempotencyKey), entry);
+  }
+}
+
+/**
+ * Run an ingestion at most once per fingerprint at a time
+ * Concurrent callers with the same fingerprint await the first caller's result
+ */
+export async function runOnce(
+  fingerprint: string,
+  task: () => Promise<ParsedTransaction>
+): Promise<{ transaction: ParsedTransaction; shared: boolean }> {
+  const key = tenantKey(fingerprint);
+  const pending = inFlight.get(key);
+  if (pending) {
+    return { transaction: await pending, shared: true };
+  }
+
+  const promise = task();
+  inFlight.set(key, promise);
+
+  try {
+    return { transaction: await promise, shared: false };
+  } finally {
+    inFlight.delete(key);
+  }
+}
@@ -0,0 +1,115 @@
+import { z } from 'zod';
+import { createJsonFile } from './jsonFile';
+
+/**
+ * Where conversion rates to the home currency come from
+ * Implementations: locally maintained rate table (more can be added to RATE_SOURCE_FACTORIES)
+ */
+export interface ExchangeRateSource {
+  readonly name: string;
+  /** Units of `to` per one unit of `from` on a date, null when the source has no rate */
+  rate(from: string, to: string, on: Date | null): Promise<number | null>;
+}
+
+export interface ExchangeRate {
+  currency: string;     // ISO 4217 code, e.g. "USD"
+  rate: number;         // Home currency per 1 unit
+  updated_at: string;
+}
+
+interface ExchangeRatesFile {
+  rates: ExchangeRate[];
+}
+
+// Every amount is converted into this currency for the ledger and analytics
+export const HOME_CURRENCY = (process.env.HOME_CURRENCY || 'INR').toUpperCase();
+
+export const currencyCodeSchema = z.string().trim().toUpperCase().regex(/^[A-Z]{3}$/, 'Expected an ISO 4217 code, e.g. USD');
+
+export const exchangeRateInputSchema = z.object({
+  rate: z.number().positive(),
+});
+
+// Deployment-wide, not scoped to a tenant
+const file = createJsonFile<ExchangeRatesFile>('exchange_rates.json', () => ({ rates: [] }));
+
+export async function listExchangeRates(): Promise<ExchangeRate[]> {
+  const data = await file.read();
+  return [...data.rates].sort((a, b) => a.currency.localeCompare(b.currency));
+}
+
+/**
+ * Add or replace the rate of a currency in the local table
+ */
+export async function setExchangeRate(currency: string, rate: number): Promise<ExchangeRate> {
+  return file.update((data) => {
+    const entry: ExchangeRate = { currency, rate, updated_at: new Date().toISOString() };
+    const index = data.rates.findIndex((candidate) => candidate.currency === currency);
+    if (index === -1) {
+      data.rates.push(entry);
+    } else {
+      data.rates[index] = entry;
+    }
+    return { ...entry };
+  });
+}
+
+/**
+ * Remove a rate - returns false when the table has none for the currency
+ */
+export async function deleteExchangeRate(currency: string): Promise<boolean> {
+  return file.update((data) => {
+    const before = data.rates.length;
+    data.rates = data.rates.filter((candidate) => candidate.currency !== currency);
+    return data.rates.length < before;
+  });
+}
+
+/**
+ * Rates from the local table - always the latest rate, the table keeps no history
+ * Rates are stored against the home currency, other pairs go through it
+ */
+function createTableRateSource(): ExchangeRateSource {
+  const toHome = async (currency: string): Promise<number | null> => {
+    if (currency === HOME_CURRENCY) {
+      return 1;
+    }
+    const data = await file.read();
+    return data.rates.find((entry) => entry.currency === currency)?.rate ?? null;
+  };
+
+  return {
+    name: 'table',
+
+    async rate(from, to) {
+      const [fromHome, toHomeRate] = await Promise.all([toHome(from), toHome(to)]);
+      return fromHome === null || toHomeRate === null ? null : fromHome / toHomeRate;
+    },
+  };
+}
+
+const RATE_SOURCE_FACTORIES: Record<string, () => ExchangeRateSource> = {
+  table: createTableRateSource,
+};
+
+let source: ExchangeRateSource | null = null;
+
+/**
+ * Get the configured exchange-rate source
+ * Selected with EXCHANGE_RATE_SOURCE, defaults to the local rate table
+ */
+export function getExchangeRateSource(): ExchangeRateSource {
+  if (source) {
+    return source;
+  }
+
+  const name = (process.env.EXCHANGE_RATE_SOURCE || 'table').toLowerCase();
+  const factory = RATE_SOURCE_FACTORIES[name];
+
+  if (!factory) {
+    throw new Error(`Unknown EXCHANGE_RATE_SOURCE "${name}". Expected one of: ${Object.keys(RATE_SOURCE_FACTORIES).join(', ')}`);
+  }
+
+  source = factory();
+  return source;
+}
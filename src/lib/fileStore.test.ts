@@ -0,0 +1,58 @@
+import { asNewTenant, makeTransaction } from './testing';
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+import type { ParsedTransaction } from './geminiAgent';
+import { getTransactionStore } from './transactionStore';
+
+test('appends, lists and finds transactions', () => asNewTenant(async () => {
+  const store = getTransactionStore();
+  assert.equal(store.name, 'file');
+
+  const first = makeTransaction({ amount: 250 });
+  await store.append(first);
+  await store.appendMany([makeTransaction(), makeTransaction()]);
+
+  assert.equal((await store.list()).length, 3);
+  assert.equal((await store.findByFingerprint(first.fingerprint))?.amount, 250);
+  assert.equal(await store.findByFingerprint('missing'), null);
+}));
+
+test('updates rows by fingerprint and keeps the fingerprint', () => asNewTenant(async () => {
+  const store = getTransactionStore();
+  const [a, b] = [makeTransaction(), makeTransaction()];
+  await store.appendMany([a, b]);
+
+  const updated = await store.update(a.fingerprint, { category: 'Groceries & Home Supplies', fingerprint: 'other' });
+  assert.equal(updated?.category, 'Groceries & Home Supplies');
+  assert.equal(updated?.fingerprint, a.fingerprint);
+  assert.equal(await store.update('missing', { amount: 1 }), null);
+
+  const count = await store.updateMany([
+    { fingerprint: a.fingerprint, changes: { amount: 1 } },
+    { fingerprint: b.fingerprint, changes: { amount: 2 } },
+    { fingerprint: 'missing', changes: { amount: 3 } },
+  ]);
+  assert.equal(count, 2);
+  assert.deepEqual((await store.list()).map((transaction) => transaction.amount), [1, 2]);
+}));
+
+test('fills currency and occurred_at on rows written before they existed', () => asNewTenant(async () => {
+  const store = getTransactionStore();
+  const { currency, occurred_at, ...legacy } = makeTransaction({ transaction_date: '21 Jan 2026' });
+  await store.append(legacy as ParsedTransaction);
+
+  const [stored] = await store.list();
+  assert.equal(stored?.currency, 'INR');
+  assert.match(stored?.occurred_at ?? '', /^2026-01-21T/);
+}));
+
+test('keeps tenants apart', async () => {
+  const fingerprint = await asNewTenant(async () => {
+    const transaction = makeTransaction();
+    await getTransactionStore().append(transaction);
+    return transaction.fingerprint;
+  });
+  await asNewTenant(async () => {
+    assert.equal(await getTransactionStore().findByFingerprint(fingerprint), null);
+  });
+});
@@ -0,0 +1,88 @@
+import type { ParsedTransaction } from './geminiAgent';
+import type { TransactionStore } from './transactionStore';
+import { createJsonFile, tenantFileName } from './jsonFile';
+import type { Tenant } from './tenantContext';
+import { RUPEE_CURRENCY } from './currency';
+import { calendarDateToIstIso } from './dates';
+
+interface TransactionsFile {
+  transactions: ParsedTransaction[];
+}
+
+// Rows written before currencies / timestamps were tracked: rupee amounts, date only
+function withDefaults(transaction: ParsedTransaction): ParsedTransaction {
+  if (transaction.currency && transaction.occurred_at) {
+    return transaction;
+  }
+  return {
+    ...transaction,
+    currency: transaction.currency || RUPEE_CURRENCY,
+    occurred_at: transaction.occurred_at || calendarDateToIstIso(transaction.transaction_date) || '',
+    date_inferred: transaction.date_inferred ?? false,
+  };
+}
+
+/**
+ * Local file-based transaction store
+ * Needs no credentials, so it is the backend for local runs and tests
+ */
+export function createFileTransactionStore(tenant: Tenant): TransactionStore {
+  const file = createJsonFile<TransactionsFile>(tenantFileName(tenant.id, 'transactions.json'), () => ({ transactions: [] }));
+
+  return {
+    name: 'file',
+
+    async append(transaction) {
+      await file.update((data) => {
+        data.transactions.push(transaction);
+      });
+    },
+
+    async appendMany(transactions) {
+      await file.update((data) => {
+        data.transactions.push(...transactions);
+      });
+    },
+
+    async list() {
+      const data = await file.read();
+      return data.transactions.map(withDefaults);
+    },
+
+    async update(fingerprint, changes) {
+      return file.update((data) => {
+        const transaction = data.transactions.find((candidate) => candidate.fingerprint === fingerprint);
+        if (!transaction) {
+          return null;
+        }
+
+        Object.assign(transaction, changes, { fingerprint });
+        return withDefaults({ ...transaction });
+      });
+    },
+
+    async updateMany(updates) {
+      if (updates.length === 0) {
+        return 0;
+      }
+      return file.update((data) => {
+        const byFingerprint = new Map(data.transactions.map((transaction) => [transaction.fingerprint, transaction]));
+        let updated = 0;
+        for (const { fingerprint, changes } of updates) {
+          const transaction = byFingerprint.get(fingerprint);
+          if (transaction) {
+            Object.assign(transaction, changes, { fingerprint });
+            updated++;
+          }
+        }
+        return updated;
+      });
+    },
+
+    async findByFingerprint(fingerprint) {
+      const data = await file.read();
+      const transaction = data.transactions.find((candidate) => candidate.fingerprint === fingerprint);
+      return transaction ? withDefaults(transaction) : null;
+    },
+  };
+}
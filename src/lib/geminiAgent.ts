@@ -1,164 +1,93 @@
-import { geminiModel } from '../config/gemini';
-import { google } from 'googleapis';
+import { computeFingerprint } from './dedupe';
+import { GENERIC_TEMPLATE_ID, matchBankTemplate } from './bankTemplates';
+import { Classification, ClassificationInput, ClassifierOutputError } from './classification';
+import { getTransactionClassifier } from './classifier';
+import { isClassifierUnavailable } from './resilientClassifier';
+import { loadMerchantRules, MerchantRule, normalizeForMatch } from './merchantRules';
+import { classifyMessageType, MessageType, movementDirection } from './messageType';
+import { findSmsTimestamp, formatReadableDate, istCalendarDate, istInstant, parseCalendarDate, toIstIsoString } from './dates';
+import { creditCardDigits, isCardBillPayment, mentionsCreditCard } from './creditCards';
+import { isTenantCategory } from './tenantContext';
+import { convertToHomeCurrency, extractForeignAmount, extractForexFee, extractRupeeEquivalent, RUPEE_CURRENCY } from './currency';
+import { HOME_CURRENCY } from './exchangeRates';
 
 interface ParsedTransaction {
   transaction_id: string;
-  transaction_date: string;
+  transaction_date: string;         // Calendar date in IST, e.g. "21 Jan 2026"
+  occurred_at: string;              // ISO-8601 in IST (Asia/Kolkata), e.g. "2026-01-21T13:05:00+05:30"
+  date_inferred: boolean;           // true = the SMS had no date, occurred_at is when it was received / ingested
   amount: number;
   category: string;
   merchant: string;
   account: string;
   payment_method: string;
   direction: 'Inflow' | 'Outflow';
-  created_at: string;
+  created_at: string;               // ISO-8601 in IST, when the transaction was parsed
   raw_message: string;
   confidence: number;
+  fingerprint: string;
+  template: string;
+  recurring_id?: string;
+  pending_classification?: boolean; // LLM was unavailable, the classification worker retries it
+  balance_after?: number;           // "Avl Bal" reported by the bank after this transaction
+  transfer_id?: string;             // Shared by both legs of a transfer between own accounts
+  currency: string;                 // ISO 4217 code of the amount in the SMS, e.g. "INR", "USD"
+  original_amount?: number;         // Amount in `currency` when it is not HOME_CURRENCY (amount is converted)
+  exchange_rate?: number;           // HOME_CURRENCY per unit of `currency`
+  forex_fee?: number;               // Forex markup / cross-currency fee in HOME_CURRENCY, when the SMS states it
+  refund_of?: string;               // Refund / reversal credit: fingerprint of the outflow it reverses
+  refunded_amount?: number;         // Outflow: total of the refunds linked to it
+  refund_status?: 'partial' | 'full';
+  split_id?: string;                // Outflow shared with contacts (see splits)
+  shared_amount?: number;           // Outflow: the contacts' shares, receivable rather than spending
+  settlement_of?: string;           // Inflow: id of the contact paying back their share
 }
 
-interface GeminiClassification {
-  category: string;
-  confidence: number;
-  bank: string;
-  merchant: string;
+interface SmsContext {
+  sender?: string;     // DLT sender ID, e.g. "AD-HDFCBK"
+  receivedAt?: Date;   // When the phone received the SMS, used if the body has no date
 }
 
-interface MerchantRule {
-  match_pattern: string;
-  canonical_merchant: string;
-  category: string;
-  priority: number;
+interface ExtractedDetails {
+  amount: number;
+  direction: 'Inflow' | 'Outflow';
+  transactionId: string;
+  transactionDate: string;
+  occurredAt: string;       // ISO-8601 in IST
+  dateInferred: boolean;
+  account: string;
+  paymentMethod: string;
+  rawMerchant: string;
+  template: string;
+  balance?: number;
+  currency?: string;        // Missing = rupees
+  rupeeAmount?: number;     // Rupee equivalent quoted next to a foreign amount
+  forexFee?: number;
+  fingerprint?: string;     // Set by importers whose rows need more than the text to tell them apart
+}
+
+interface MessageSummary {
+  message_type: MessageType;
+  amount: number | null;
+  account: string | null;
+  due_date: string | null;   // Bill-due reminders and announced debits
+  balance: number | null;    // Balance alerts
+  sender: string | null;
 }
 
 interface MerchantCategoryResolution {
   merchant: string;
   category: string;
   confidence: number;
-  source: 'rules' | 'gemini';
+  source: 'rules' | 'llm';
+  pending?: boolean;
 }
 
-const ALLOWED_CATEGORIES = [
-  'Rent and maintainence',
-  'Utilities',
-  'Groceries & Home Supplies',
-  'Food & Dining',
-  'Entertainment, OTT etc',
-  'Investements and Stock Purchases',
-  'Fashion and Shopping',
-  'Fuel',
-  'Vehicle Ownership (Tyres, Washing etc)',
-  'Health & Medicine Expenses',
-  'Transport',
-  'Sending money to parents or family',
-  'Travel and Vacations',
-  'Home Improvement',
-  'Helping Others / Donations',
-  'Unknown',
-  'Credit Card',
-  'EMI',
-  'Loan Repayment',
-] as const;
-
-// In-memory cache for merchant rules
-let merchantRulesCache: MerchantRule[] | null = null;
-let lastRulesLoadTime: number | null = null;
-const CACHE_DURATION_MS = 5 * 60 * 1000; // 5 minutes
-
-// Google Sheets configuration
-const SHEETS_ID = process.env.GOOGLE_SHEETS_ID;
-const CLIENT_EMAIL = process.env.GOOGLE_CLIENT_EMAIL;
-const PRIVATE_KEY = process.env.GOOGLE_PRIVATE_KEY?.replace(/\\n/g, '\n');
-
-if (!SHEETS_ID || !CLIENT_EMAIL || !PRIVATE_KEY) {
-  console.warn('Google Sheets environment variables not configured. Merchant rules will not be loaded.');
-}
-
-const auth = SHEETS_ID && CLIENT_EMAIL && PRIVATE_KEY ? new google.auth.GoogleAuth({
-  credentials: {
-    client_email: CLIENT_EMAIL,
-    private_key: PRIVATE_KEY,
-  },
-  scopes: ['https://www.googleapis.com/auth/spreadsheets.readonly'],
-}) : null;
-
-const sheets = auth ? google.sheets({ version: 'v4', auth }) : null;
 
-/**
- * CRITICAL: Single normalization function for ALL matching operations
- * Ensures consistent normalization between raw merchants and rule patterns
- * 
- * Rules:
- * - Convert to uppercase
- * - Keep only A-Z, 0-9, spaces, and @
- * - Collapse multiple spaces to single space
- * - Trim leading/trailing spaces
- */
-function normalizeForMatch(input: string): string {
-  if (!input) return '';
-  
-  return input
-    .toUpperCase()
-    .replace(/[^A-Z0-9@\s]/g, '') // Keep only alphanumeric, @, and spaces
-    .replace(/\s+/g, ' ') // Collapse multiple spaces
-    .trim(); // Remove leading/trailing spaces
-}
-
-/**
- * Load merchant-category rules from Google Sheets
- * Returns cached rules if available and fresh (< 5 minutes old)
- */
-async function loadMerchantRules(): Promise<MerchantRule[]> {
-  // Return cached rules if still fresh
-  const now = Date.now();
-  if (merchantRulesCache && lastRulesLoadTime && (now - lastRulesLoadTime < CACHE_DURATION_MS)) {
-    return merchantRulesCache;
-  }
-
-  // Return empty array if Google Sheets is not configured
-  if (!sheets || !SHEETS_ID) {
-    console.warn('Google Sheets not configured. Using empty merchant rules.');
-    return [];
-  }
-
-  try {
-    const response = await sheets.spreadsheets.values.get({
-      spreadsheetId: SHEETS_ID,
-      range: 'Database!A2:E', // Skip header row, read columns A-E (match_pattern, canonical_merchant, category, priority, notes)
-    });
-
-    const rows = response.data.values || [];
-    const rules: MerchantRule[] = rows
-      .map((row) => {
-        const matchPattern = (row[0] || '').toString().trim();
-        const canonicalMerchant = (row[1] || '').toString().trim();
-        const category = (row[2] || '').toString().trim();
-        const priority = parseFloat(row[3]) || 0;
-
-        // Skip invalid rows
-        if (!matchPattern || !canonicalMerchant || !category) {
-          return null;
-        }
-
-        return {
-          match_pattern: normalizeForMatch(matchPattern), // CRITICAL: Normalize at load time
-          canonical_merchant: canonicalMerchant,
-          category: category,
-          priority: priority,
-        };
-      })
-      .filter((rule): rule is MerchantRule => rule !== null);
-
-    // Update cache
-    merchantRulesCache = rules;
-    lastRulesLoadTime = now;
-
-    console.log(`Loaded ${rules.length} merchant rules from Google Sheets`);
-    return rules;
-  } catch (error) {
-    console.error('Failed to load merchant rules from Google Sheets:', error);
-    // Return cached rules if available, even if stale
-    return merchantRulesCache || [];
-  }
-}
+// GEMINI_BATCH_SIZE is the pre-provider name of this setting
+const CLASSIFIER_BATCH_SIZE = parseInt(process.env.CLASSIFIER_BATCH_SIZE || process.env.GEMINI_BATCH_SIZE || '20', 10);
+const LLM_MAX_CONFIDENCE = 0.7; // Cap LLM confidence below rule matches (0.95)
+const CARD_BILL_CATEGORY = 'Credit Card';
 
 /**
  * Extract raw merchant name from SMS using deterministic regex patterns
@@ -245,66 +174,267 @@ function resolveMerchantAndCategory(
   };
 }
 
+/**
+ * Raw merchant as the rule step sees it for an SMS (template fields, then regex)
+ */
+export function extractSmsRawMerchant(message: string, context: SmsContext = {}): string {
+  return extractDetails(message.trim(), context).rawMerchant;
+}
+
+/**
+ * Dry-run the rule step for an SMS without calling the LLM or writing anything
+ * A candidate rule (not yet saved) replaces any stored rule with the same pattern
+ */
+export async function explainRuleResolution(
+  message: string,
+  context: SmsContext = {},
+  candidate?: MerchantRule
+): Promise<{
+  raw_merchant: string;
+  normalized_merchant: string;
+  template: string;
+  matching_rules: MerchantRule[];
+  selected_rule: MerchantRule | null;
+}> {
+  const details = extractDetails(message.trim(), context);
+  const normalizedRawMerchant = normalizeForMatch(details.rawMerchant);
+
+  let rules = await loadMerchantRules();
+  if (candidate) {
+    const pattern = normalizeForMatch(candidate.match_pattern);
+    rules = [
+      ...rules.filter((rule) => rule.match_pattern !== pattern),
+      { ...candidate, match_pattern: pattern },
+    ];
+  }
+
+  // Same matching as resolveMerchantAndCategory, highest priority first
+  const matchingRules = details.rawMerchant === 'Unknown' || !normalizedRawMerchant
+    ? []
+    : rules
+      .filter((rule) => normalizedRawMerchant.includes(rule.match_pattern))
+      .sort((a, b) => b.priority - a.priority);
+
+  return {
+    raw_merchant: details.rawMerchant,
+    normalized_merchant: normalizedRawMerchant,
+    template: details.template,
+    matching_rules: matchingRules,
+    selected_rule: matchingRules[0] || null,
+  };
+}
+
+/**
+ * Extract deterministic transaction details
+ * Bank-specific template fields win, generic regex heuristics fill in the rest
+ */
+function extractDetails(sms: string, context: SmsContext = {}): ExtractedDetails {
+  const templateMatch = matchBankTemplate(sms, context.sender);
+  const fields = templateMatch?.fields || {};
+  // Templates only know rupee amounts - a foreign amount always wins
+  const foreign = extractForeignAmount(sms);
+  const timestamp = extractTransactionTimestamp(sms, fields.transactionDate, context.receivedAt);
+
+  return {
+    amount: foreign?.amount ?? fields.amount ?? extractAmount(sms),
+    direction: fields.direction ?? extractDirection(sms),
+    transactionId: fields.transactionId ?? extractTransactionId(sms),
+    transactionDate: fields.transactionDate ?? formatReadableDate(istCalendarDate(timestamp.occurredAt)),
+    occurredAt: toIstIsoString(timestamp.occurredAt),
+    dateInferred: timestamp.inferred,
+    account: fields.account ?? extractAccount(sms),
+    paymentMethod: fields.paymentMethod ?? extractPaymentMethod(sms),
+    rawMerchant: fields.rawMerchant ?? extractRawMerchant(sms),
+    template: templateMatch?.template || GENERIC_TEMPLATE_ID,
+    balance: extractAvailableBalance(sms) ?? undefined,
+    currency: foreign?.currency,
+    rupeeAmount: foreign ? extractRupeeEquivalent(sms) ?? undefined : undefined,
+    forexFee: extractForexFee(sms) ?? undefined,
+  };
+}
+
+function fingerprintDetails(sms: string, details: ExtractedDetails): string {
+  return details.fingerprint ?? computeFingerprint({
+    text: sms,
+    amount: details.amount,
+    account: details.account,
+    timestamp: details.transactionDate,
+  });
+}
+
+/**
+ * Compute the dedupe fingerprint of an SMS without classifying it
+ * Only runs the deterministic extractors, so repeats never reach the LLM
+ */
+export function fingerprintMessage(message: string, context: SmsContext = {}): string {
+  const sms = message.trim();
+  return fingerprintDetails(sms, extractDetails(sms, context));
+}
+
+/**
+ * Typed summary of an SMS that is not a money movement (OTP, reminder, balance alert, ...)
+ * Only the deterministic extractors run - nothing is classified or written
+ */
+export function summarizeMessage(message: string, context: SmsContext = {}): MessageSummary {
+  const sms = message.trim();
+  const amount = extractAmount(sms);
+  const account = extractAccount(sms);
+  const dueDate = sms.match(/\b(?:due|debited)\s+(?:date\s*)?(?:on|by|is)?\s*:?\s*(\d{1,2}[\s\-\/.]*(?:[A-Za-z]{3,9}|\d{1,2})[\s\-\/.,]*(?:\d{4}|\d{2}))\b/i)?.[1];
+  const parsedDueDate = dueDate ? parseCalendarDate(dueDate) : null;
+
+  return {
+    message_type: classifyMessageType(sms),
+    amount: amount || null,
+    account: account === 'Unknown' ? null : account,
+    due_date: parsedDueDate ? formatReadableDate(parsedDueDate) : null,
+    balance: extractAvailableBalance(sms),
+    sender: context.sender || null,
+  };
+}
+
+/**
+ * "Credit Card" is the category of card bill payments only (they settle the card, see creditCards.ts)
+ * A purchase made with the card keeps the category of what was bought - if the rules or the LLM
+ * still say "Credit Card", the category is cleared so the transaction goes to review
+ */
+function applyCardCategory<R extends Omit<MerchantCategoryResolution, 'source'>>(sms: string, resolution: R): R {
+  if (isCardBillPayment(sms) && isTenantCategory(CARD_BILL_CATEGORY)) {
+    return { ...resolution, category: CARD_BILL_CATEGORY, confidence: Math.max(resolution.confidence, 0.95), pending: undefined };
+  }
+  if (mentionsCreditCard(sms) && resolution.category === CARD_BILL_CATEGORY) {
+    return { ...resolution, category: 'Unknown', confidence: 0 };
+  }
+  return resolution;
+}
+
+function buildTransaction(
+  sms: string,
+  details: ExtractedDetails,
+  unchecked: Omit<MerchantCategoryResolution, 'source'>
+): ParsedTransaction {
+  const resolution = applyCardCategory(sms, unchecked);
+  const transaction: ParsedTransaction = {
+    transaction_id: details.transactionId,
+    transaction_date: details.transactionDate,
+    occurred_at: details.occurredAt,
+    date_inferred: details.dateInferred,
+    amount: details.amount,
+    category: resolution.category,
+    merchant: resolution.merchant,
+    account: details.account,
+    payment_method: details.paymentMethod,
+    direction: details.direction,
+    created_at: toIstIsoString(new Date()),
+    raw_message: sms,
+    confidence: resolution.confidence,
+    fingerprint: fingerprintDetails(sms, details),
+    template: details.template,
+    currency: details.currency ?? RUPEE_CURRENCY,
+  };
+
+  if (resolution.pending) {
+    transaction.pending_classification = true;
+  }
+  if (details.balance !== undefined) {
+    transaction.balance_after = details.balance;
+  }
+  // The bank's own conversion beats any rate table
+  if (transaction.currency !== RUPEE_CURRENCY && details.rupeeAmount && HOME_CURRENCY === RUPEE_CURRENCY) {
+    transaction.original_amount = details.amount;
+    transaction.amount = details.rupeeAmount;
+    transaction.exchange_rate = Math.round((details.rupeeAmount / details.amount) * 10000) / 10000;
+  }
+  if (details.forexFee !== undefined) {
+    transaction.forex_fee = details.forexFee;
+  }
+  return transaction;
+}
+
 /**
  * Parse transaction SMS and extract all details
  * 
  * Resolution Flow:
- * 1. Extract basic details (amount, date, direction, etc.)
- * 2. Extract raw merchant using deterministic regex
+ * 1. Extract basic details (amount, date, direction, etc.) via bank template or generic regex
+ * 2. Extract raw merchant using the same deterministic extractors
  * 3. Try to resolve via merchant rules table (PRIMARY)
- * 4. If no rule match, fallback to Gemini (SECONDARY)
- * 5. Return complete ParsedTransaction
+ * 4. If no rule match, fallback to the LLM classifier (SECONDARY)
+ * 5. Convert foreign-currency amounts to the home currency and return the ParsedTransaction
  */
-export async function parseTransactionSMS(message: string): Promise<ParsedTransaction> {
+export async function parseTransactionSMS(message: string, context: SmsContext = {}): Promise<ParsedTransaction> {
   const sms = message.trim();
   
-  // Step 1: Extract basic transaction details
-  const amount = extractAmount(sms);
-  const direction = extractDirection(sms);
-  const transactionId = extractTransactionId(sms);
-  const transactionDate = extractTransactionDate(sms);
-  const account = extractAccount(sms);
-  const paymentMethod = extractPaymentMethod(sms);
-  
-  // Step 2: Extract raw merchant name using regex (deterministic)
-  const rawMerchant = extractRawMerchant(sms);
+  // Step 1 + 2: Extract transaction details and raw merchant name (deterministic)
+  const details = extractDetails(sms, context);
   
   // Step 3: Load merchant rules and attempt rule-based resolution
   const rules = await loadMerchantRules();
-  const ruleResolution = resolveMerchantAndCategory(rawMerchant, rules);
-  
-  let merchant: string;
-  let category: string;
-  let confidence: number;
+  const ruleResolution = resolveMerchantAndCategory(details.rawMerchant, rules);
   
   if (ruleResolution) {
     // SUCCESS: Rule matched - use rule data (PRIMARY path)
-    merchant = ruleResolution.merchant;
-    category = ruleResolution.category;
-    confidence = ruleResolution.confidence;
-  } else {
-    // FALLBACK: No rule matched - use Gemini (SECONDARY path)
-    console.log(`✗ No rule matched for "${rawMerchant}" - using Gemini fallback`);
-    const geminiData = await classifyTransactionWithGemini(sms, rawMerchant);
-    merchant = geminiData.merchant;
-    category = geminiData.category;
-    confidence = Math.min(geminiData.confidence, 0.7); // Cap Gemini confidence at 0.7
+    return convertToHomeCurrency(buildTransaction(sms, details, ruleResolution));
   }
   
-  // Step 4: Return complete parsed transaction
-  return {
-    transaction_id: transactionId,
-    transaction_date: transactionDate,
-    amount: amount,
-    category: category,
-    merchant: merchant,
-    account: account,
-    payment_method: paymentMethod,
-    direction: direction,
-    created_at: get12HourTime(),
-    raw_message: sms,
-    confidence: confidence
-  };
+  // FALLBACK: No rule matched - use the LLM (SECONDARY path)
+  console.log(`✗ No rule matched for "${details.rawMerchant}" - using LLM fallback`);
+  const [resolution] = await classifyWithFallback([{ sms, rawMerchant: details.rawMerchant }]);
+  
+  // Step 4: Return complete parsed transaction, in the home currency
+  return convertToHomeCurrency(buildTransaction(sms, details, resolution!));
+}
+
+/**
+ * Parse many SMS at once (bulk imports)
+ *
+ * Same flow as parseTransactionSMS, but every message that misses the rules
+ * is sent to the LLM in batches of CLASSIFIER_BATCH_SIZE, so large imports need
+ * one request per batch instead of one per message.
+ */
+export async function parseTransactionBatch(
+  inputs: { message: string; context?: SmsContext }[]
+): Promise<ParsedTransaction[]> {
+  return categorizeExtractedBatch(inputs.map((input) => {
+    const sms = input.message.trim();
+    return { text: sms, details: extractDetails(sms, input.context) };
+  }));
+}
+
+/**
+ * Categorize already-extracted transactions (SMS or statement rows)
+ * Rules first, then batched LLM fallback for everything the rules miss
+ */
+export async function categorizeExtractedBatch(
+  items: { text: string; details: ExtractedDetails }[]
+): Promise<ParsedTransaction[]> {
+  const rules = await loadMerchantRules();
+  const pending: { index: number; text: string; details: ExtractedDetails }[] = [];
+  const results: ParsedTransaction[] = new Array(items.length);
+
+  items.forEach(({ text, details }, index) => {
+    const ruleResolution = resolveMerchantAndCategory(details.rawMerchant, rules);
+
+    if (ruleResolution) {
+      results[index] = buildTransaction(text, details, ruleResolution);
+    } else {
+      pending.push({ index, text, details });
+    }
+  });
+
+  for (let start = 0; start < pending.length; start += CLASSIFIER_BATCH_SIZE) {
+    const batch = pending.slice(start, start + CLASSIFIER_BATCH_SIZE);
+    const resolutions = await classifyWithFallback(
+      batch.map((item) => ({ sms: item.text, rawMerchant: item.details.rawMerchant }))
+    );
+
+    batch.forEach((item, position) => {
+      results[item.index] = buildTransaction(item.text, item.details, resolutions[position]!);
+    });
+  }
+
+  for (const transaction of results) {
+    await convertToHomeCurrency(transaction);
+  }
+  return results;
 }
 
 /**
@@ -329,36 +459,46 @@ function extractAmount(sms: string): number {
   return 0;
 }
 
+/**
+ * Extract the available balance (e.g., "Avl Bal Rs.12,345.67", "Bal: INR 500")
+ * Returns null when the SMS does not report one
+ */
+function extractAvailableBalance(sms: string): number | null {
+  const patterns = [
+    /\b(?:(?:avl|avail(?:able)?|clr|closing|total)\.?\s*)?bal(?:ance)?\b\.?\s*(?:is|:|-)?\s*(?:Rs\.?|INR|₹)\s*([0-9,]+(?:\.\d{1,2})?)/i,
+    /\bbal(?:ance)?\s+(?:in|of|for)\s+.*?\s+is\s+(?:Rs\.?|INR|₹)?\s*([0-9,]+(?:\.\d{1,2})?)/i
+  ];
+
+  for (const pattern of patterns) {
+    const match = sms.match(pattern);
+    if (match && match[1]) {
+      return parseFloat(match[1].replace(/,/g, ''));
+    }
+  }
+
+  return null;
+}
+
 /**
  * Extract transaction direction (Inflow/Outflow)
+ * Same keyword rules as the message-type check, so a "credit" message is always an Inflow
  */
 function extractDirection(sms: string): 'Inflow' | 'Outflow' {
-  const inflowKeywords = ['credited', 'received', 'deposited', 'refund', 'cashback'];
-  const outflowKeywords = ['debited', 'paid', 'sent', 'withdrawn', 'purchase', 'spent'];
-  
-  const lowerSms = sms.toLowerCase();
-  
-  if (inflowKeywords.some(keyword => lowerSms.includes(keyword))) {
-    return 'Inflow';
-  }
-  
-  if (outflowKeywords.some(keyword => lowerSms.includes(keyword))) {
-    return 'Outflow';
-  }
-  
-  return 'Outflow'; // Default
+  return movementDirection(sms) ?? 'Outflow'; // Only reached for debit / credit messages
 }
 
 /**
  * Extract transaction ID
+ * Only explicit references count - account numbers (A/c XX2411) are shared
+ * across every transaction on that account and must never be used as an ID
  */
 function extractTransactionId(sms: string): string {
-  // Match patterns like: XX2411, A/c XX2411, Ref No: 123456, UTR: 123456
+  // Match patterns like: Ref No: 123456, UTR: 123456, RRN 123456, Txn ID: AB12
   const patterns = [
-    /A\/c\s+([A-Z0-9]+)/i,
-    /(?:Ref\.?|Reference)\s*(?:No\.?|Number)?\s*:?\s*([A-Z0-9]+)/i,
-    /UTR\s*:?\s*([A-Z0-9]+)/i,
-    /(?:XX|xxx)(\d+)/i
+    /UTR\s*(?:No\.?)?\s*:?\s*([A-Z0-9]{6,})/i,
+    /RRN\s*(?:No\.?)?\s*:?\s*([A-Z0-9]{6,})/i,
+    /(?:Ref\.?|Reference)\s*(?:No\.?|Number|ID)?\s*:?\s*([A-Z0-9]{6,})/i,
+    /(?:Txn|Transaction)\s*(?:ID|No\.?)\s*:?\s*([A-Z0-9]{6,})/i
   ];
   
   for (const pattern of patterns) {
@@ -373,62 +513,26 @@ function extractTransactionId(sms: string): string {
 }
 
 /**
- * Extract and format transaction date
+ * When the transaction happened (IST)
+ * A bank template's date wins over the generic match; the time is kept when both agree on the day.
+ * Without any date in the SMS the receive time (or now) is used and flagged as inferred.
  */
-function extractTransactionDate(sms: string): string {
-  // Match patterns like: 17JAN2026 20:19:52, 20-01-2026 at 16:35:10, on 17 Jan 2026
-  const patterns = [
-    /(\d{1,2})(JAN|FEB|MAR|APR|MAY|JUN|JUL|AUG|SEP|OCT|NOV|DEC)(\d{4})\s+(\d{1,2}):(\d{2}):(\d{2})/i,
-    /(\d{1,2})[-\/](\d{1,2})[-\/](\d{4})\s+(?:at\s+)?(\d{1,2}):(\d{2}):?(\d{2})?/,
-    /on\s+(\d{1,2})\s+(Jan|Feb|Mar|Apr|May|Jun|Jul|Aug|Sep|Oct|Nov|Dec)\s+(\d{4})(?:\s+at\s+(\d{1,2}):(\d{2}))?/i
-  ];
-  
-  for (const pattern of patterns) {
-    const match = sms.match(pattern);
-    if (match) {
-      return formatTransactionDate(match);
-    }
-  }
-  
-  return getReadableDate();
-}
-
-/**
- * Format transaction date to human-readable format (e.g., 21 Jan 2026)
- */
-function formatTransactionDate(match: RegExpMatchArray): string {
-  const monthMap: { [key: string]: string } = {
-    '01': 'Jan', '02': 'Feb', '03': 'Mar', '04': 'Apr',
-    '05': 'May', '06': 'Jun', '07': 'Jul', '08': 'Aug',
-    '09': 'Sep', '10': 'Oct', '11': 'Nov', '12': 'Dec'
-  };
-  
-  const monthNameMap: { [key: string]: string } = {
-    'JAN': 'Jan', 'FEB': 'Feb', 'MAR': 'Mar', 'APR': 'Apr',
-    'MAY': 'May', 'JUN': 'Jun', 'JUL': 'Jul', 'AUG': 'Aug',
-    'SEP': 'Sep', 'OCT': 'Oct', 'NOV': 'Nov', 'DEC': 'Dec'
-  };
-  
-  // Format: 17JAN2026 20:19:52
-  if (match[2] && monthNameMap[match[2].toUpperCase()]) {
-    const day = parseInt(match[1] || '1');
-    const month = monthNameMap[match[2].toUpperCase()];
-    const year = match[3] || new Date().getFullYear().toString();
-    
-    return `${day} ${month} ${year}`;
+function extractTransactionTimestamp(
+  sms: string,
+  templateDate: string | undefined,
+  receivedAt?: Date
+): { occurredAt: Date; inferred: boolean } {
+  const reference = receivedAt ?? new Date();
+  const found = findSmsTimestamp(sms, reference);
+  const templateDay = templateDate ? parseCalendarDate(templateDate) : null;
+
+  if (templateDay && (!found || istCalendarDate(found.occurredAt).getTime() !== templateDay.getTime())) {
+    return { occurredAt: istInstant(templateDay), inferred: false };
   }
-  
-  // Format: 17-01-2026 20:19:52 or 20-01-2026 at 16:35:10
-  if (match[1] && match[2] && match[3]) {
-    const day = parseInt(match[1] || '1');
-    const monthNum = (match[2] || '01').padStart(2, '0');
-    const month = monthMap[monthNum] || 'Jan';
-    const year = match[3] || new Date().getFullYear().toString();
-    
-    return `${day} ${month} ${year}`;
+  if (!found) {
+    return { occurredAt: reference, inferred: true };
   }
-  
-  return getReadableDate();
+  return { occurredAt: found.occurredAt, inferred: false };
 }
 
 /**
@@ -439,11 +543,19 @@ function extractAccount(sms: string): string {
   const bankPattern = /(Federal Bank|HDFC Bank|ICICI Bank|SBI|State Bank|Axis Bank|Kotak Bank|Yes Bank|IDFC|PNB|Bank of Baroda|Canara Bank)/i;
   const match = sms.match(bankPattern);
   
-  if (match) {
-    return match[1] || 'Unknown';
+  if (!match || !match[1]) {
+    return 'Unknown';
   }
   
-  return 'Unknown';
+  // Append masked account digits (A/c XX2411) so accounts at the same bank stay distinct
+  const digits = sms.match(/A\/c\s*(?:No\.?)?\s*[X*]*(\d{3,6})/i)?.[1];
+  if (digits) {
+    return `${match[1]} XX${digits}`;
+  }
+
+  // Credit cards are accounts of their own (card spends, payments received on the card)
+  const cardDigits = creditCardDigits(sms);
+  return cardDigits ? `${match[1]} Credit Card XX${cardDigits}` : match[1];
 }
 
 /**
@@ -456,7 +568,12 @@ function extractPaymentMethod(sms: string): string {
     return 'UPI';
   }
   
-  if (lowerSms.includes('card') || lowerSms.includes('atm')) {
+  // A bill payment only names the card it pays, the money comes from the bank account
+  if (mentionsCreditCard(sms) && !isCardBillPayment(sms)) {
+    return 'Credit Card';
+  }
+
+  if ((lowerSms.includes('card') && !isCardBillPayment(sms)) || lowerSms.includes('atm')) {
     return 'Card';
   }
   
@@ -476,105 +593,79 @@ function extractPaymentMethod(sms: string): string {
 }
 
 /**
- * Get current date in readable format (e.g., 21 Jan 2026)
+ * Use the LLM classifier as FALLBACK ONLY when merchant rules don't match
+ * The LLM should focus on category classification, not merchant extraction
+ *
+ * Failures yield "Unknown" at confidence 0:
+ * - reply failed schema validation -> logged, and the review queue picks it up
+ * - provider unreachable / timed out / circuit open -> marked pending for the classification worker
  */
-function getReadableDate(): string {
-  const now = new Date();
-  const day = now.getDate();
-  const monthNames = ['Jan', 'Feb', 'Mar', 'Apr', 'May', 'Jun', 'Jul', 'Aug', 'Sep', 'Oct', 'Nov', 'Dec'];
-  const month = monthNames[now.getMonth()];
-  const year = now.getFullYear();
-  
-  return `${day} ${month} ${year}`;
-}
+async function classifyWithFallback(inputs: ClassificationInput[]): Promise<Omit<MerchantCategoryResolution, 'source'>[]> {
+  const classifier = getTransactionClassifier();
 
-/**
- * Get current time in 12-hour format (e.g., 1:13pm)
- */
-function get12HourTime(): string {
-  const now = new Date();
-  let hours = now.getHours();
-  const minutes = now.getMinutes();
-  const ampm = hours >= 12 ? 'pm' : 'am';
-  
-  hours = hours % 12;
-  hours = hours ? hours : 12; // 0 should be 12
-  
-  return `${hours}:${minutes.toString().padStart(2, '0')}${ampm}`;
-}
-
-/**
- * Use Gemini AI as FALLBACK ONLY when merchant rules don't match
- * Gemini should focus on category classification, not merchant extraction
- */
-async function classifyTransactionWithGemini(
-  sms: string,
-  rawMerchant: string
-): Promise<GeminiClassification> {
   try {
-    const prompt = `Parse this Indian bank SMS and classify the transaction category.
-
-SMS: "${sms}"
-Extracted Merchant: "${rawMerchant}"
-
-Your task:
-1. Classify into ONE category from: [${ALLOWED_CATEGORIES.join(', ')}]
-2. Provide confidence score (0.0 to 1.0)
-3. Keep the extracted merchant as-is or refine it slightly if needed
+    const classifications = inputs.length === 1
+      ? [await classifier.classify(inputs[0]!)]
+      : await classifier.classifyBatch(inputs);
+    return classifications.map((classification, index) => toResolution(classification, inputs[index]!.rawMerchant));
+  } catch (error) {
+    const pending = isClassifierUnavailable(error);
+    if (error instanceof ClassifierOutputError) {
+      console.error(`${classifier.name} classification rejected: ${error.message}`, { issues: error.issues, output: error.output });
+    } else {
+      console.error(`${classifier.name} classification unavailable, marking ${inputs.length} transaction(s) pending:`, error instanceof Error ? error.message : error);
+    }
 
-Return JSON with:
-{
-  "category": "<category_name>",
-  "confidence": <0.0-1.0>,
-  "merchant": "<merchant_name>"
+    return inputs.map((input) => ({ category: 'Unknown', confidence: 0, merchant: input.rawMerchant || 'Unknown', pending }));
+  }
 }
 
-Examples:
-SMS: "Rs 29.00 sent via UPI to SWIGGY"
-Merchant: "SWIGGY"
-Answer: {"category":"Food & Dining","confidence":0.85,"merchant":"SWIGGY"}
-
-SMS: "Rs 500 paid to AMAZONPAY"
-Merchant: "AMAZONPAY"
-Answer: {"category":"Fashion and Shopping","confidence":0.75,"merchant":"AMAZON PAY"}
-
-Now classify the above SMS. Return ONLY JSON, no explanation:`;
-
-    const result = await geminiModel.generateContent(prompt);
-    const response = result.response;
-    const text = response.text().trim();
-
-    // Remove markdown code blocks if present
-    const cleanText = text.replace(/```json\n?/g, '').replace(/```\n?/g, '').trim();
-    const parsed = JSON.parse(cleanText) as { category: string; confidence: number; merchant: string };
+function toResolution(classification: Classification, rawMerchant: string): Omit<MerchantCategoryResolution, 'source'> {
+  return {
+    merchant: classification.merchant || rawMerchant || 'Unknown',
+    category: classification.category,
+    confidence: Math.min(classification.confidence, LLM_MAX_CONFIDENCE),
+  };
+}
 
-    // Validate category
-    if (!ALLOWED_CATEGORIES.includes(parsed.category as any)) {
-      parsed.category = 'Unknown';
-      parsed.confidence = 0;
+/**
+ * Classify transactions that were stored while the LLM was unavailable
+ * Merchant rules are tried first (one may have been added since).
+ * Returns null while the LLM is still unavailable.
+ */
+export async function resolvePendingClassification(
+  items: { text: string; rawMerchant: string }[]
+): Promise<{ merchant: string; category: string; confidence: number }[] | null> {
+  const rules = await loadMerchantRules();
+  const results: Omit<MerchantCategoryResolution, 'source'>[] = new Array(items.length);
+  const unresolved: number[] = [];
+
+  items.forEach((item, index) => {
+    const ruleResolution = resolveMerchantAndCategory(item.rawMerchant, rules);
+    if (ruleResolution) {
+      results[index] = ruleResolution;
+    } else {
+      unresolved.push(index);
     }
+  });
 
-    // Validate confidence
-    if (typeof parsed.confidence !== 'number' || parsed.confidence < 0 || parsed.confidence > 1) {
-      parsed.confidence = 0;
+  if (unresolved.length > 0) {
+    const resolutions = await classifyWithFallback(
+      unresolved.map((index) => ({ sms: items[index]!.text, rawMerchant: items[index]!.rawMerchant }))
+    );
+    if (resolutions.some((resolution) => resolution.pending)) {
+      return null;
     }
-
-    return {
-      category: parsed.category,
-      confidence: parsed.confidence,
-      bank: 'Unknown', // Bank extraction handled separately
-      merchant: parsed.merchant || rawMerchant || 'Unknown'
-    };
-  } catch (error) {
-    console.error('Gemini classification error:', error);
-    return {
-      category: 'Unknown',
-      confidence: 0,
-      bank: 'Unknown',
-      merchant: rawMerchant || 'Unknown'
-    };
+    unresolved.forEach((index, position) => {
+      results[index] = resolutions[position]!;
+    });
   }
+
+  return results.map((resolution, index) => {
+    const { merchant, category, confidence } = applyCardCategory(items[index]!.text, resolution);
+    return { merchant, category, confidence };
+  });
 }
 
 // Export for use in your application
-export { ParsedTransaction, GeminiClassification };
\ No newline at end of file
+export { ParsedTransaction, SmsContext, ExtractedDetails, MessageSummary };
@@ -0,0 +1,122 @@
+import {
+  GenerativeModel,
+  GoogleGenerativeAIAbortError,
+  GoogleGenerativeAIError,
+  GoogleGenerativeAIFetchError,
+  GoogleGenerativeAIRequestInputError,
+  GoogleGenerativeAIResponseError,
+  ResponseSchema,
+  Schema,
+  SchemaType,
+} from '@google/generative-ai';
+import { getGeminiModel } from '../config/gemini';
+import {
+  batchClassificationSchema,
+  buildBatchClassificationPrompt,
+  buildClassificationPrompt,
+  CLASSIFIER_BATCH_TIMEOUT_MS,
+  CLASSIFIER_TIMEOUT_MS,
+  classificationSchema,
+  ClassifierHttpError,
+  ClassifierTimeoutError,
+  ClassifierUnreachableError,
+  orderBatchResults,
+  parseClassifierOutput,
+  TransactionClassifier,
+} from './classification';
+import { createRateLimiter } from './rateLimiter';
+import { tenantCategories } from './tenantContext';
+
+// Gemini free tier allows 15 requests per minute
+const GEMINI_MAX_REQUESTS_PER_MINUTE = parseInt(process.env.GEMINI_MAX_REQUESTS_PER_MINUTE || '15', 10);
+
+// Room for ~20 results per batch reply
+const GEMINI_BATCH_MAX_OUTPUT_TOKENS = 4096;
+
+// Built per call - the category enum is the current tenant's list
+function classificationProperties(): Record<string, Schema> {
+  return {
+    category: { type: SchemaType.STRING, format: 'enum', enum: [...tenantCategories()] },
+    confidence: { type: SchemaType.NUMBER },
+    merchant: { type: SchemaType.STRING },
+  };
+}
+
+function classificationResponseSchema(): ResponseSchema {
+  return {
+    type: SchemaType.OBJECT,
+    properties: classificationProperties(),
+    required: ['category', 'confidence', 'merchant'],
+  };
+}
+
+function batchResponseSchema(): ResponseSchema {
+  return {
+    type: SchemaType.OBJECT,
+    properties: {
+      results: {
+        type: SchemaType.ARRAY,
+        items: {
+          type: SchemaType.OBJECT,
+          properties: {
+            index: { type: SchemaType.INTEGER },
+            ...classificationProperties(),
+          },
+          required: ['index', 'category', 'confidence', 'merchant'],
+        },
+      },
+    },
+    required: ['results'],
+  };
+}
+
+/**
+ * Gemini classifier using structured output (JSON mode + response schema)
+ */
+export function createGeminiClassifier(): TransactionClassifier {
+  const schedule = createRateLimiter(GEMINI_MAX_REQUESTS_PER_MINUTE);
+
+  // Surface HTTP failures with their status so 429 / 5xx can be retried
+  // The timeout starts when the request is sent, after the rate limiter let it through
+  async function generate(model: GenerativeModel, prompt: string, timeoutMs: number): Promise<string> {
+    try {
+      const result = await schedule(() => model.generateContent(prompt, { timeout: timeoutMs }));
+      return result.response.text();
+    } catch (error) {
+      if (error instanceof GoogleGenerativeAIFetchError && error.status) {
+        throw new ClassifierHttpError(error.message, error.status);
+      }
+      if (error instanceof GoogleGenerativeAIAbortError) {
+        throw new ClassifierTimeoutError(`gemini classification timed out after ${timeoutMs}ms`);
+      }
+      // The SDK wraps network failures in its base error class
+      if (error instanceof GoogleGenerativeAIError
+        && !(error instanceof GoogleGenerativeAIRequestInputError || error instanceof GoogleGenerativeAIResponseError)) {
+        throw new ClassifierUnreachableError(error.message);
+      }
+      throw error;
+    }
+  }
+
+  return {
+    name: 'gemini',
+
+    async classify(input) {
+      const model = getGeminiModel({
+        responseMimeType: 'application/json',
+        responseSchema: classificationResponseSchema(),
+      });
+      return parseClassifierOutput(await generate(model, buildClassificationPrompt(input), CLASSIFIER_TIMEOUT_MS), classificationSchema);
+    },
+
+    async classifyBatch(inputs) {
+      const model = getGeminiModel({
+        responseMimeType: 'application/json',
+        responseSchema: batchResponseSchema(),
+        maxOutputTokens: GEMINI_BATCH_MAX_OUTPUT_TOKENS,
+      });
+      const text = await generate(model, buildBatchClassificationPrompt(inputs), CLASSIFIER_BATCH_TIMEOUT_MS);
+      return orderBatchResults(inputs, parseClassifierOutput(text, batchClassificationSchema), text);
+    },
+  };
+}
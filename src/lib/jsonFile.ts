@@ -0,0 +1,108 @@
+import { promises as fs } from 'fs';
+import path from 'path';
+import { currentTenant, DEFAULT_TENANT_ID } from './tenantContext';
+
+export const DATA_DIR = path.resolve(process.env.DATA_DIR || 'data');
+
+export interface JsonFile<T> {
+  read(): Promise<T>;
+  update<R>(mutate: (data: T) => R | Promise<R>): Promise<R>;
+}
+
+/**
+ * Small embedded JSON database backed by a single file under DATA_DIR
+ *
+ * - Contents are loaded once and kept in memory
+ * - Writes are serialized and land atomically (write temp file, then rename)
+ */
+export function createJsonFile<T>(fileName: string, initial: () => T): JsonFile<T> {
+  const filePath = path.join(DATA_DIR, fileName);
+  let data: T | null = null;
+  let queue: Promise<unknown> = Promise.resolve();
+
+  async function load(): Promise<T> {
+    if (data) {
+      return data;
+    }
+
+    try {
+      const contents = await fs.readFile(filePath, 'utf8');
+      data = JSON.parse(contents) as T;
+    } catch (error) {
+      if ((error as NodeJS.ErrnoException).code !== 'ENOENT') {
+        throw new Error(`Failed to read ${filePath}: ${error instanceof Error ? error.message : 'Unknown error'}`);
+      }
+      data = initial();
+    }
+
+    return data;
+  }
+
+  async function persist(value: T): Promise<void> {
+    await fs.mkdir(path.dirname(filePath), { recursive: true });
+    const tempPath = `${filePath}.${process.pid}.tmp`;
+    await fs.writeFile(tempPath, JSON.stringify(value, null, 2), 'utf8');
+    await fs.rename(tempPath, filePath);
+  }
+
+  return {
+    async read() {
+      await queue;
+      return load();
+    },
+
+    update<R>(mutate: (value: T) => R | Promise<R>): Promise<R> {
+      const run = queue.then(async () => {
+        const value = await load();
+        try {
+          const result = await mutate(value);
+          await persist(value);
+          return result;
+        } catch (error) {
+          // Drop in-memory state so a half-applied mutation is reloaded from disk
+          data = null;
+          throw error;
+        }
+      });
+
+      // Keep the queue alive even if this update fails
+      queue = run.catch(() => undefined);
+      return run;
+    },
+  };
+}
+
+/**
+ * Path of a tenant's file, relative to DATA_DIR
+ * The default tenant keeps the original top-level layout
+ */
+export function tenantFileName(tenantId: string, fileName: string): string {
+  return tenantId === DEFAULT_TENANT_ID ? fileName : path.join('tenants', tenantId, fileName);
+}
+
+/**
+ * One JSON file per tenant - reads and writes go to the current tenant's copy
+ */
+export function createTenantJsonFile<T>(fileName: string, initial: () => T): JsonFile<T> {
+  const files = new Map<string, JsonFile<T>>();
+
+  function forTenant(): JsonFile<T> {
+    const tenantId = currentTenant().id;
+    let file = files.get(tenantId);
+    if (!file) {
+      file = createJsonFile(tenantFileName(tenantId, fileName), initial);
+      files.set(tenantId, file);
+    }
+    return file;
+  }
+
+  return {
+    read() {
+      return forTenant().read();
+    },
+
+    update(mutate) {
+      return forTenant().update(mutate);
+    },
+  };
+}
@@ -0,0 +1,39 @@
+import { asNewTenant } from './testing';
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+import {
+  createMerchantRule,
+  deleteMerchantRule,
+  listMerchantRules,
+  MerchantRuleConflictError,
+  normalizeForMatch,
+  updateMerchantRule,
+} from './merchantRules';
+
+function rule(matchPattern: string, canonicalMerchant: string) {
+  return { match_pattern: matchPattern, canonical_merchant: canonicalMerchant, category: 'Food & Dining', priority: 0, notes: '' };
+}
+
+test('normalizes patterns for matching', () => {
+  assert.equal(normalizeForMatch('  swiggy*Instamart  '), 'SWIGGYINSTAMART');
+  assert.equal(normalizeForMatch('zomato@paytm  order'), 'ZOMATO@PAYTM ORDER');
+});
+
+test('concurrent creates of one pattern keep a single rule', () => asNewTenant(async () => {
+  const results = await Promise.allSettled([createMerchantRule(rule('Swiggy', 'Swiggy')), createMerchantRule(rule('SWIGGY', 'Swiggy'))]);
+
+  assert.equal(results.filter((result) => result.status === 'fulfilled').length, 1);
+  const rejected = results.find((result) => result.status === 'rejected');
+  assert.ok(rejected?.status === 'rejected' && rejected.reason instanceof MerchantRuleConflictError);
+  assert.equal((await listMerchantRules()).rules.length, 1);
+}));
+
+test('an update racing a delete changes the right rule', () => asNewTenant(async () => {
+  await createMerchantRule(rule('Swiggy', 'Swiggy'));
+  await createMerchantRule(rule('Zomato', 'Zomato'));
+
+  await Promise.all([deleteMerchantRule('swiggy'), updateMerchantRule('zomato', { canonical_merchant: 'Zomato Ltd' })]);
+
+  const { rules } = await listMerchantRules();
+  assert.deepEqual(rules.map((record) => [record.id, record.canonical_merchant]), [['ZOMATO', 'Zomato Ltd']]);
+}));
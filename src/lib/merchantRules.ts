@@ -0,0 +1,436 @@
+import { z } from 'zod';
+import { getSheetsClient, isSheetsConfigured } from '../config/sheets';
+import { createJsonFile, tenantFileName } from './jsonFile';
+import { categorySchema, currentTenant, isTenantCategory, Tenant } from './tenantContext';
+
+/**
+ * Merchant rule as used for matching - match_pattern is already normalized
+ */
+export interface MerchantRule {
+  match_pattern: string;
+  canonical_merchant: string;
+  category: string;
+  priority: number;
+}
+
+/**
+ * Merchant rule as stored - id is the normalized pattern, which is unique
+ */
+export interface MerchantRuleRecord {
+  id: string;
+  match_pattern: string;
+  canonical_merchant: string;
+  category: string;
+  priority: number;
+  notes: string;
+}
+
+export interface InvalidRuleRow {
+  row: number;
+  values: string[];
+  reason: string;
+}
+
+interface MerchantRuleRow {
+  row: number;
+  values: string[];
+}
+
+/**
+ * Storage backend for merchant rules
+ * Rows are returned raw so invalid ones can be reported instead of silently dropped
+ */
+interface MerchantRuleStore {
+  readonly name: string;
+  listRows(): Promise<MerchantRuleRow[]>;
+  append(record: MerchantRuleRecord): Promise<void>;
+  // Both throw MerchantRuleConflictError when the row no longer holds the rule with id `expectedId`
+  update(row: number, expectedId: string, record: MerchantRuleRecord): Promise<void>;
+  remove(row: number, expectedId: string): Promise<void>;
+}
+
+export const merchantRuleInputSchema = z.object({
+  match_pattern: z.string().refine((value) => normalizeForMatch(value) !== '', 'match_pattern must contain letters or digits'),
+  canonical_merchant: z.string().trim().min(1),
+  category: categorySchema,
+  priority: z.number().default(0),
+  notes: z.string().default(''),
+});
+
+export type MerchantRuleInput = z.infer<typeof merchantRuleInputSchema>;
+
+export class MerchantRuleConflictError extends Error {}
+
+// Rule changes of a tenant run one at a time - they act on row numbers read just before
+const mutationQueues = new Map<string, Promise<unknown>>();
+
+// In-memory cache for merchant rules, per tenant
+const merchantRulesCache = new Map<string, { rules: MerchantRule[]; loadedAt: number }>();
+const CACHE_DURATION_MS = 5 * 60 * 1000; // 5 minutes
+
+const RULES_SHEET = 'Database';
+
+/**
+ * CRITICAL: Single normalization function for ALL matching operations
+ * Ensures consistent normalization between raw merchants and rule patterns
+ *
+ * Rules:
+ * - Convert to uppercase
+ * - Keep only A-Z, 0-9, spaces, and @
+ * - Collapse multiple spaces to single space
+ * - Trim leading/trailing spaces
+ */
+export function normalizeForMatch(input: string): string {
+  if (!input) return '';
+
+  return input
+    .toUpperCase()
+    .replace(/[^A-Z0-9@\s]/g, '') // Keep only alphanumeric, @, and spaces
+    .replace(/\s+/g, ' ') // Collapse multiple spaces
+    .trim(); // Remove leading/trailing spaces
+}
+
+function assertRowHolds(row: number, matchPattern: string | undefined, expectedId: string): void {
+  if (normalizeForMatch(matchPattern ?? '') !== expectedId) {
+    throw new MerchantRuleConflictError(`Row ${row} no longer holds the rule "${expectedId}" - the rules changed, try again`);
+  }
+}
+
+/**
+ * Merchant rules in the "Database" sheet (columns A-E) of the tenant's spreadsheet
+ */
+function createSheetsRuleStore(tenant: Tenant): MerchantRuleStore {
+  function spreadsheetId(): string {
+    if (!tenant.sheets_id) {
+      throw new Error(`Tenant "${tenant.id}" has no spreadsheet configured`);
+    }
+    return tenant.sheets_id;
+  }
+
+  async function sheetId(): Promise<number> {
+    const response = await getSheetsClient().spreadsheets.get({
+      spreadsheetId: spreadsheetId(),
+      fields: 'sheets.properties',
+    });
+    const sheet = response.data.sheets?.find((candidate) => candidate.properties?.title === RULES_SHEET);
+    if (sheet?.properties?.sheetId === undefined || sheet.properties.sheetId === null) {
+      throw new Error(`Sheet "${RULES_SHEET}" not found`);
+    }
+    return sheet.properties.sheetId;
+  }
+
+  // Someone may have edited the sheet by hand since the rows were listed
+  async function checkRow(row: number, expectedId: string): Promise<void> {
+    const response = await getSheetsClient().spreadsheets.values.get({
+      spreadsheetId: spreadsheetId(),
+      range: `${RULES_SHEET}!A${row}`,
+    });
+    assertRowHolds(row, response.data.values?.[0]?.[0]?.toString(), expectedId);
+  }
+
+  const toValues = (record: MerchantRuleRecord) => [
+    record.match_pattern,        // Column A: match_pattern
+    record.canonical_merchant,   // Column B: canonical_merchant
+    record.category,             // Column C: category
+    record.priority,             // Column D: priority
+    record.notes,                // Column E: notes
+  ];
+
+  return {
+    name: 'sheets',
+
+    async listRows() {
+      if (!isSheetsConfigured() || !tenant.sheets_id) {
+        console.warn('Google Sheets not configured. Using empty merchant rules.');
+        return [];
+      }
+
+      const response = await getSheetsClient().spreadsheets.values.get({
+        spreadsheetId: spreadsheetId(),
+        range: `${RULES_SHEET}!A2:E`, // Skip header row, read columns A-E (match_pattern, canonical_merchant, category, priority, notes)
+      });
+
+      return (response.data.values || []).map((values, index) => ({
+        row: index + 2,
+        values: values.map((value) => (value ?? '').toString()),
+      }));
+    },
+
+    async append(record) {
+      await getSheetsClient().spreadsheets.values.append({
+        spreadsheetId: spreadsheetId(),
+        range: `${RULES_SHEET}!A:E`,
+        valueInputOption: 'RAW',
+        insertDataOption: 'INSERT_ROWS',
+        requestBody: { values: [toValues(record)] },
+      });
+    },
+
+    async update(row, expectedId, record) {
+      await checkRow(row, expectedId);
+      await getSheetsClient().spreadsheets.values.update({
+        spreadsheetId: spreadsheetId(),
+        range: `${RULES_SHEET}!A${row}:E${row}`,
+        valueInputOption: 'RAW',
+        requestBody: { values: [toValues(record)] },
+      });
+    },
+
+    async remove(row, expectedId) {
+      await checkRow(row, expectedId);
+      await getSheetsClient().spreadsheets.batchUpdate({
+        spreadsheetId: spreadsheetId(),
+        requestBody: {
+          requests: [{
+            deleteDimension: {
+              range: { sheetId: await sheetId(), dimension: 'ROWS', startIndex: row - 1, endIndex: row },
+            },
+          }],
+        },
+      });
+    },
+  };
+}
+
+/**
+ * Merchant rules in DATA_DIR/merchant_rules.json, same row layout as the sheet
+ */
+function createFileRuleStore(tenant: Tenant): MerchantRuleStore {
+  const file = createJsonFile<{ rows: string[][] }>(tenantFileName(tenant.id, 'merchant_rules.json'), () => ({ rows: [] }));
+  const toValues = (record: MerchantRuleRecord) => [
+    record.match_pattern, record.canonical_merchant, record.category, String(record.priority), record.notes,
+  ];
+
+  // Row numbers mirror the sheet layout (header is row 1)
+  return {
+    name: 'file',
+
+    async listRows() {
+      const data = await file.read();
+      return data.rows.map((values, index) => ({ row: index + 2, values: [...values] }));
+    },
+
+    async append(record) {
+      await file.update((data) => {
+        data.rows.push(toValues(record));
+      });
+    },
+
+    async update(row, expectedId, record) {
+      await file.update((data) => {
+        assertRowHolds(row, data.rows[row - 2]?.[0], expectedId);
+        data.rows[row - 2] = toValues(record);
+      });
+    },
+
+    async remove(row, expectedId) {
+      await file.update((data) => {
+        assertRowHolds(row, data.rows[row - 2]?.[0], expectedId);
+        data.rows.splice(row - 2, 1);
+      });
+    },
+  };
+}
+
+const ruleStores = new Map<string, MerchantRuleStore>();
+
+/**
+ * Rule store of the current tenant
+ * Rules live next to the transactions unless MERCHANT_RULE_STORE says otherwise
+ */
+function getRuleStore(): MerchantRuleStore {
+  const tenant = currentTenant();
+  let ruleStore = ruleStores.get(tenant.id);
+  if (!ruleStore) {
+    const backend = (process.env.MERCHANT_RULE_STORE || process.env.TRANSACTION_STORE || 'sheets').toLowerCase();
+    ruleStore = backend === 'file' ? createFileRuleStore(tenant) : createSheetsRuleStore(tenant);
+    ruleStores.set(tenant.id, ruleStore);
+  }
+  return ruleStore;
+}
+
+/**
+ * Drop a tenant's rule store and cached rules, e.g. after its spreadsheet changed
+ */
+export function resetMerchantRuleStore(tenantId: string): void {
+  ruleStores.delete(tenantId);
+  merchantRulesCache.delete(tenantId);
+}
+
+/**
+ * Validate raw rule rows - first occurrence of a pattern wins, later duplicates are invalid
+ */
+function validateRows(rows: MerchantRuleRow[]): { records: (MerchantRuleRecord & { row: number })[]; invalid: InvalidRuleRow[] } {
+  const records: (MerchantRuleRecord & { row: number })[] = [];
+  const invalid: InvalidRuleRow[] = [];
+  const seen = new Set<string>();
+
+  for (const { row, values } of rows) {
+    const [matchPattern = '', canonicalMerchant = '', category = '', priority = '', notes = ''] = values.map((value) => value.trim());
+
+    // Fully blank rows are just gaps in the sheet
+    if (!matchPattern && !canonicalMerchant && !category) {
+      continue;
+    }
+
+    const id = normalizeForMatch(matchPattern);
+    let reason: string | null = null;
+
+    if (!id || !canonicalMerchant || !category) {
+      reason = 'match_pattern, canonical_merchant and category are required';
+    } else if (!isTenantCategory(category)) {
+      reason = `Category "${category}" is not allowed`;
+    } else if (seen.has(id)) {
+      reason = `Duplicate pattern "${id}"`;
+    }
+
+    if (reason) {
+      invalid.push({ row, values, reason });
+      continue;
+    }
+
+    seen.add(id);
+    records.push({
+      row,
+      id,
+      match_pattern: matchPattern,
+      canonical_merchant: canonicalMerchant,
+      category,
+      priority: parseFloat(priority) || 0,
+      notes,
+    });
+  }
+
+  return { records, invalid };
+}
+
+/**
+ * Drop the current tenant's cached rules so the next parse reloads them
+ */
+export function invalidateMerchantRulesCache(): void {
+  merchantRulesCache.delete(currentTenant().id);
+}
+
+/**
+ * Load merchant-category rules from the rule store
+ * Returns cached rules if available and fresh (< 5 minutes old)
+ */
+export async function loadMerchantRules(): Promise<MerchantRule[]> {
+  // Return cached rules if still fresh
+  const now = Date.now();
+  const tenantId = currentTenant().id;
+  const cached = merchantRulesCache.get(tenantId);
+  if (cached && (now - cached.loadedAt < CACHE_DURATION_MS)) {
+    return cached.rules;
+  }
+
+  try {
+    const { records, invalid } = validateRows(await getRuleStore().listRows());
+
+    invalid.forEach((entry) => {
+      console.warn(`Skipping merchant rule row ${entry.row}: ${entry.reason}`);
+    });
+
+    const rules: MerchantRule[] = records.map((record) => ({
+      match_pattern: record.id, // CRITICAL: Normalize at load time
+      canonical_merchant: record.canonical_merchant,
+      category: record.category,
+      priority: record.priority,
+    }));
+
+    // Update cache
+    merchantRulesCache.set(tenantId, { rules, loadedAt: now });
+
+    console.log(`Loaded ${rules.length} merchant rules for tenant "${tenantId}" from ${getRuleStore().name}`);
+    return rules;
+  } catch (error) {
+    console.error('Failed to load merchant rules:', error);
+    // Return cached rules if available, even if stale
+    return cached?.rules || [];
+  }
+}
+
+/**
+ * All rules, plus the rows that were skipped and why
+ */
+export async function listMerchantRules(): Promise<{ rules: MerchantRuleRecord[]; invalid_rows: InvalidRuleRow[] }> {
+  const { records, invalid } = validateRows(await getRuleStore().listRows());
+  return {
+    rules: records.map(({ row, ...record }) => record),
+    invalid_rows: invalid,
+  };
+}
+
+/**
+ * Run a rule change of the current tenant after the ones already queued
+ */
+function serializeMutation<R>(task: () => Promise<R>): Promise<R> {
+  const tenantId = currentTenant().id;
+  const run = (mutationQueues.get(tenantId) ?? Promise.resolve()).then(task);
+  // Keep the queue alive even if this change fails
+  mutationQueues.set(tenantId, run.catch(() => undefined));
+  return run;
+}
+
+/**
+ * Add a rule - patterns are unique after normalization
+ */
+export function createMerchantRule(input: MerchantRuleInput): Promise<MerchantRuleRecord> {
+  return serializeMutation(async () => {
+    const store = getRuleStore();
+    const { records } = validateRows(await store.listRows());
+    const id = normalizeForMatch(input.match_pattern);
+
+    if (records.some((record) => record.id === id)) {
+      throw new MerchantRuleConflictError(`A rule for pattern "${id}" already exists`);
+    }
+
+    const record: MerchantRuleRecord = { id, ...input, match_pattern: input.match_pattern.trim() };
+    await store.append(record);
+    invalidateMerchantRulesCache();
+    return record;
+  });
+}
+
+/**
+ * Update a rule by id (its normalized pattern) - returns null when it does not exist
+ */
+export function updateMerchantRule(id: string, input: Partial<MerchantRuleInput>): Promise<MerchantRuleRecord | null> {
+  return serializeMutation(async () => {
+    const store = getRuleStore();
+    const { records } = validateRows(await store.listRows());
+    const existing = records.find((record) => record.id === normalizeForMatch(id));
+
+    if (!existing) {
+      return null;
+    }
+
+    const { row, ...current } = existing;
+    const matchPattern = (input.match_pattern ?? current.match_pattern).trim();
+    const updated: MerchantRuleRecord = { ...current, ...input, match_pattern: matchPattern, id: normalizeForMatch(matchPattern) };
+
+    if (updated.id !== current.id && records.some((record) => record.id === updated.id)) {
+      throw new MerchantRuleConflictError(`A rule for pattern "${updated.id}" already exists`);
+    }
+
+    await store.update(row, current.id, updated);
+    invalidateMerchantRulesCache();
+    return updated;
+  });
+}
+
+export function deleteMerchantRule(id: string): Promise<boolean> {
+  return serializeMutation(async () => {
+    const store = getRuleStore();
+    const { records } = validateRows(await store.listRows());
+    const existing = records.find((record) => record.id === normalizeForMatch(id));
+
+    if (!existing) {
+      return false;
+    }
+
+    await store.remove(existing.row, existing.id);
+    invalidateMerchantRulesCache();
+    return true;
+  });
+}
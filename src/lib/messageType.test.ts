@@ -0,0 +1,25 @@
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+import { classifyMessageType, movementDirection } from './messageType';
+
+const samples: [string, ReturnType<typeof classifyMessageType>][] = [
+  ['Rs.500.00 debited from A/c XX1234 on 05-02-26 to VPA swiggy@icici (UPI Ref No 503612345678). Not you? Call 18002586161. Never share your OTP with anyone -HDFC Bank', 'debit'],
+  ['Dear Customer, Rs.2,000.00 credited to your A/c XX5678 on 03-Feb-26 by NEFT from RAHUL SHARMA. Do not share OTP/PIN with anyone. -SBI', 'credit'],
+  ['123456 is your OTP for txn of Rs 1,299.00 at AMAZON on HDFC Bank Card XX4321. Valid for 5 mins. Do not share it with anyone.', 'otp'],
+  ['Your HDFC Bank Credit Card XX4321 bill of Rs 5,400 is due on 05-Feb-2026. Minimum amount due Rs 270. Please ignore if already paid.', 'bill_due'],
+  ['Payment of Rs 1,499 for your Airtel postpaid bill is due by 10-Feb-2026. If already paid, please ignore.', 'bill_due'],
+  ['Txn of Rs 300 on ICICI Bank Card XX9012 at ZOMATO failed. Amount debited, if any, will be reversed within 5-7 working days.', 'declined'],
+  ['Rs 300.00 reversed to your A/c XX1234 for failed UPI txn to zomato@paytm on 05-02-26. -Axis Bank', 'credit'],
+  ['Rs 1,000.00 will be debited from A/c XX1234 on 05-Feb-26 towards NETFLIX mandate. -ICICI Bank', 'bill_due'],
+];
+
+test('classifies real bank SMS', () => {
+  for (const [sms, expected] of samples) {
+    assert.equal(classifyMessageType(sms), expected, sms);
+  }
+});
+
+test('reminder wording does not count as a payment', () => {
+  assert.equal(movementDirection('Your bill of Rs 5,400 is due on 05-Feb-2026. Please ignore if already paid.'), null);
+  assert.equal(movementDirection('Rs 249 paid to JIO via UPI. Ignore if already paid.'), 'Outflow');
+});
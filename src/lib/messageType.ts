@@ -0,0 +1,109 @@
+/**
+ * SMS message-type classification
+ *
+ * Banks send far more than transaction alerts. Every message is typed before
+ * extraction so only real money movements (debit / credit) reach the ledger.
+ * Deterministic and ordered: the first matching check wins.
+ */
+
+export const MESSAGE_TYPES = [
+  'debit',
+  'credit',
+  'declined',
+  'otp',
+  'balance_alert',
+  'bill_due',
+  'mandate',
+  'promotional',
+  'unknown',
+] as const;
+
+export type MessageType = typeof MESSAGE_TYPES[number];
+
+const OTP_PATTERN = /\b(?:OTP|one[- ]time password|verification code|security code)\b/i;
+const DECLINED_PATTERN = /\b(?:declined|failed|unsuccessful|not successful|could not be (?:processed|completed)|insufficient (?:funds|balance)|rejected)\b/i;
+// A failed transaction whose money came back is a credit, not a decline
+const REVERSAL_PATTERN = /\b(?:reversed|refunded|credited back)\b/i;
+// "will be reversed" only promises the money back - the message is still a decline
+const FUTURE_REVERSAL_PATTERN = /\b(?:will be|shall be|to be|would be)\s+(?:reversed|refunded|credited back)\b/i;
+// Reminder boilerplate - "paid" here does not mean a payment happened
+const ALREADY_PAID_PATTERN = /\b(?:please\s+)?(?:ignore|disregard)(?:\s+this(?:\s+\w+)?)?\s+if\s+(?:already\s+)?paid\b|\bif\s+(?:already\s+)?paid,?\s+(?:please\s+)?(?:ignore|disregard)\b/i;
+const PROMOTIONAL_PATTERN = /\b(?:offer|pre-?approved|apply now|click|T&C|hurry|limited period|discount|coupon|voucher|congratulations|win|loan of up to)\b/i;
+const ACCOUNT_REFERENCE_PATTERN = /\b(?:A\/c|acct|account|card|UPI)\b|[X*]{2,}\d{3,}/i;
+const MANDATE_PATTERN = /\b(?:e-?mandate|mandate|auto-?pay|standing instruction)\b/i;
+const MANDATE_SETUP_PATTERN = /\b(?:created|registered|set ?up|activated|approved|modified|revoked|cancelled|paused)\b/i;
+// "will be debited on 05-Feb" announces a payment, it is not one
+const FUTURE_PAYMENT_PATTERN = /\b(?:will be|shall be|to be|is scheduled to be)\s+(?:debited|deducted|charged|paid)\b/i;
+// Money that has moved - only these outrank OTP wording ("Never share your OTP" footers)
+const COMPLETED_MOVEMENT_PATTERN = /\b(?:debited|credited|spent|withdrawn|deducted|deposited|received|paid)\b/i;
+const DEBIT_PATTERN = /\b(?:debited|spent|paid|sent|withdrawn|deducted|purchased?|dr\.?)(?=\W|$)/i;
+const CREDIT_PATTERN = /\b(?:credited|received|deposited|refund(?:ed)?|reversed|cashback|cr\.?)(?=\W|$)/i;
+const BILL_DUE_PATTERN = /\b(?:due (?:date|on|by)|is due|payment due|min(?:imum)?\.? (?:amt|amount) due|total (?:amt|amount) due|(?:bill|statement) (?:is )?generated|pay by)\b/i;
+const BALANCE_PATTERN = /\b(?:avl|avail(?:able)?|clr|closing|ledger)\.?\s*bal(?:ance)?\b|\bbalance\s+(?:in|of|for|is|as on)\b/i;
+
+/**
+ * The SMS without wording about payments that have not happened
+ * ("will be debited", "will be reversed", "ignore if already paid")
+ */
+function withoutPendingWording(sms: string): string {
+  return [FUTURE_PAYMENT_PATTERN, FUTURE_REVERSAL_PATTERN, ALREADY_PAID_PATTERN]
+    .reduce((text, pattern) => text.replace(new RegExp(pattern.source, 'gi'), ''), sms);
+}
+
+/**
+ * Direction of a money movement, from whichever keyword comes first
+ * ("debited ... credited to beneficiary" is a debit), or null when there is none
+ */
+export function movementDirection(sms: string): 'Inflow' | 'Outflow' | null {
+  const text = withoutPendingWording(sms);
+  const debit = text.search(DEBIT_PATTERN);
+  const credit = text.search(CREDIT_PATTERN);
+
+  if (debit === -1 && credit === -1) {
+    return null;
+  }
+  if (credit === -1 || (debit !== -1 && debit < credit)) {
+    return 'Outflow';
+  }
+  return 'Inflow';
+}
+
+/**
+ * Type of an SMS
+ */
+export function classifyMessageType(message: string): MessageType {
+  const sms = message.trim();
+  const completed = withoutPendingWording(sms);
+
+  if (OTP_PATTERN.test(sms) && !COMPLETED_MOVEMENT_PATTERN.test(completed)) {
+    return 'otp';
+  }
+  if (DECLINED_PATTERN.test(sms) && !REVERSAL_PATTERN.test(completed)) {
+    return 'declined';
+  }
+  if (PROMOTIONAL_PATTERN.test(sms) && !ACCOUNT_REFERENCE_PATTERN.test(sms)) {
+    return 'promotional';
+  }
+
+  const direction = movementDirection(sms);
+  if (MANDATE_PATTERN.test(sms) && MANDATE_SETUP_PATTERN.test(sms) && !direction) {
+    return 'mandate';
+  }
+  if (direction) {
+    return direction === 'Outflow' ? 'debit' : 'credit';
+  }
+  if (BILL_DUE_PATTERN.test(sms) || FUTURE_PAYMENT_PATTERN.test(sms)) {
+    return 'bill_due';
+  }
+  if (BALANCE_PATTERN.test(sms)) {
+    return 'balance_alert';
+  }
+  return 'unknown';
+}
+
+/**
+ * Only debits and credits are written to the ledger
+ */
+export function isMoneyMovement(type: MessageType): boolean {
+  return type === 'debit' || type === 'credit';
+}
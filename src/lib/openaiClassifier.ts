@@ -0,0 +1,81 @@
+import {
+  batchClassificationSchema,
+  buildBatchClassificationPrompt,
+  buildClassificationPrompt,
+  CLASSIFIER_BATCH_TIMEOUT_MS,
+  CLASSIFIER_TIMEOUT_MS,
+  classificationSchema,
+  orderBatchResults,
+  parseClassifierOutput,
+  ClassifierHttpError,
+  ClassifierTimeoutError,
+  ClassifierUnreachableError,
+  TransactionClassifier,
+} from './classification';
+import { createRateLimiter } from './rateLimiter';
+
+// Any server speaking the OpenAI chat completions API: OpenAI, Ollama, vLLM, llama.cpp, LM Studio ...
+const OPENAI_BASE_URL = (process.env.OPENAI_BASE_URL || 'https://api.openai.com/v1').replace(/\/+$/, '');
+const OPENAI_MODEL = process.env.OPENAI_MODEL || 'gpt-4o-mini';
+const OPENAI_MAX_REQUESTS_PER_MINUTE = parseInt(process.env.OPENAI_MAX_REQUESTS_PER_MINUTE || '60', 10);
+
+const SYSTEM_PROMPT = 'You classify Indian bank SMS transactions. Reply with a single JSON object and nothing else.';
+
+interface ChatCompletionResponse {
+  choices?: { message?: { content?: string | null } }[];
+}
+
+/**
+ * OpenAI-compatible classifier using JSON output mode (response_format: json_object)
+ */
+export function createOpenAiClassifier(): TransactionClassifier {
+  const schedule = createRateLimiter(OPENAI_MAX_REQUESTS_PER_MINUTE);
+
+  // The timeout starts when the request is sent, after the rate limiter let it through
+  async function complete(prompt: string, timeoutMs: number): Promise<string> {
+    const headers: Record<string, string> = { 'content-type': 'application/json' };
+    if (process.env.OPENAI_API_KEY) {
+      headers.authorization = `Bearer ${process.env.OPENAI_API_KEY}`; // Local servers usually need none
+    }
+
+    const response = await schedule(() => fetch(`${OPENAI_BASE_URL}/chat/completions`, {
+      method: 'POST',
+      headers,
+      signal: AbortSignal.timeout(timeoutMs),
+      body: JSON.stringify({
+        model: OPENAI_MODEL,
+        temperature: 0.1,
+        response_format: { type: 'json_object' },
+        messages: [
+          { role: 'system', content: SYSTEM_PROMPT },
+          { role: 'user', content: prompt },
+        ],
+      }),
+    })).catch((error: unknown) => {
+      if (error instanceof Error && (error.name === 'TimeoutError' || error.name === 'AbortError')) {
+        throw new ClassifierTimeoutError(`openai classification timed out after ${timeoutMs}ms`);
+      }
+      throw new ClassifierUnreachableError(error instanceof Error ? error.message : 'OpenAI-compatible endpoint unreachable');
+    });
+
+    if (!response.ok) {
+      throw new ClassifierHttpError(`OpenAI-compatible endpoint responded with ${response.status}`, response.status);
+    }
+
+    const body = await response.json() as ChatCompletionResponse;
+    return body.choices?.[0]?.message?.content ?? '';
+  }
+
+  return {
+    name: 'openai',
+
+    async classify(input) {
+      return parseClassifierOutput(await complete(buildClassificationPrompt(input), CLASSIFIER_TIMEOUT_MS), classificationSchema);
+    },
+
+    async classifyBatch(inputs) {
+      const text = await complete(buildBatchClassificationPrompt(inputs), CLASSIFIER_BATCH_TIMEOUT_MS);
+      return orderBatchResults(inputs, parseClassifierOutput(text, batchClassificationSchema), text);
+    },
+  };
+}
@@ -0,0 +1,78 @@
+import { asNewTenant, makeTransaction } from './testing';
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+import { promises as fs } from 'fs';
+import path from 'path';
+import { DATA_DIR, tenantFileName } from './jsonFile';
+import { deliverDueOutboxEntries, listOutboxEntries, replayOutboxEntry, writeThroughOutbox } from './outbox';
+import { currentTenant } from './tenantContext';
+import { getTransactionStore } from './transactionStore';
+
+test('writes through to the ledger and empties the outbox', () => asNewTenant(async () => {
+  const result = await writeThroughOutbox([makeTransaction(), makeTransaction()]);
+
+  assert.equal(result.delivered, true);
+  assert.equal((await getTransactionStore().list()).length, 2);
+  assert.deepEqual(await listOutboxEntries(), []);
+}));
+
+test('keeps the entry when the ledger write fails and delivers it later', () => asNewTenant(async () => {
+  const store = getTransactionStore();
+  const appendMany = store.appendMany;
+  store.appendMany = async () => { throw new Error('Sheets is down'); };
+  const result = await writeThroughOutbox([makeTransaction()]);
+  store.appendMany = appendMany;
+
+  assert.equal(result.delivered, false);
+  const [entry] = await listOutboxEntries();
+  assert.equal(entry?.attempts, 1);
+  assert.equal(entry?.last_error, 'Sheets is down');
+
+  assert.deepEqual(await replayOutboxEntry(entry!.id), { delivered: true });
+  assert.equal((await store.list()).length, 1);
+  assert.deepEqual(await listOutboxEntries(), []);
+}));
+
+test('does not write a row twice when an earlier attempt landed but the entry stayed', () => asNewTenant(async () => {
+  // The ledger write succeeded, then the process died before the entry was removed
+  const transaction = makeTransaction();
+  await getTransactionStore().append(transaction);
+  const entry = {
+    id: 'crashed',
+    status: 'pending',
+    transaction,
+    attempts: 0,
+    last_error: null,
+    created_at: '2026-02-05T04:30:00.000Z',
+    next_attempt_at: '2026-02-05T04:30:30.000Z',
+  };
+  const outboxPath = path.join(DATA_DIR, tenantFileName(currentTenant().id, 'outbox.json'));
+  await fs.writeFile(outboxPath, JSON.stringify({ entries: [entry] }), 'utf8');
+
+  assert.deepEqual(await deliverDueOutboxEntries(), { delivered: 1, remaining: 0 });
+  assert.equal((await getTransactionStore().list()).length, 1);
+}));
+
+test('the worker only picks up entries whose retry time has come', () => asNewTenant(async () => {
+  const store = getTransactionStore();
+  const appendMany = store.appendMany;
+  store.appendMany = async () => { throw new Error('Sheets is down'); };
+  await writeThroughOutbox([makeTransaction()]);
+  store.appendMany = appendMany;
+
+  assert.deepEqual(await deliverDueOutboxEntries(), { delivered: 0, remaining: 1 });
+}));
+
+test('concurrent replays never deliver the same entry twice', () => asNewTenant(async () => {
+  const store = getTransactionStore();
+  const appendMany = store.appendMany;
+  store.appendMany = async () => { throw new Error('Sheets is down'); };
+  await writeThroughOutbox([makeTransaction()]);
+  store.appendMany = appendMany;
+
+  const [entry] = await listOutboxEntries();
+  const replays = await Promise.allSettled([replayOutboxEntry(entry!.id), replayOutboxEntry(entry!.id)]);
+
+  assert.deepEqual(replays.map((replay) => replay.status).sort(), ['fulfilled', 'rejected']);
+  assert.equal((await store.list()).length, 1);
+}));
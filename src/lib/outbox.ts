@@ -0,0 +1,249 @@
+import { randomUUID } from 'crypto';
+import type { ParsedTransaction } from './geminiAgent';
+import { createTenantJsonFile } from './jsonFile';
+import { forEachTenant } from './tenants';
+import { getTransactionStore } from './transactionStore';
+
+export type OutboxStatus = 'pending' | 'failed';
+
+export interface OutboxEntry {
+  id: string;
+  status: OutboxStatus;          // failed = retries exhausted, needs replay or discard
+  transaction: ParsedTransaction;
+  attempts: number;
+  last_error: string | null;
+  created_at: string;
+  next_attempt_at: string;
+}
+
+interface OutboxFile {
+  entries: OutboxEntry[];
+}
+
+const OUTBOX_MAX_ATTEMPTS = parseInt(process.env.OUTBOX_MAX_ATTEMPTS || '10', 10);
+const OUTBOX_POLL_INTERVAL_MS = parseInt(process.env.OUTBOX_POLL_INTERVAL_MS || '30000', 10);
+const RETRY_BASE_DELAY_MS = 30_000;          // Doubles on every attempt
+const RETRY_MAX_DELAY_MS = 60 * 60 * 1000;   // 1 hour
+const DELIVERY_BATCH_SIZE = 500;
+
+export class OutboxEntryBusyError extends Error {}
+
+const file = createTenantJsonFile<OutboxFile>('outbox.json', () => ({ entries: [] }));
+
+let delivering = false;
+const inFlight = new Set<string>(); // Entry ids being written right now - the worker and replays leave them alone
+
+function retryDelay(attempts: number): number {
+  return Math.min(RETRY_BASE_DELAY_MS * 2 ** Math.max(attempts - 1, 0), RETRY_MAX_DELAY_MS);
+}
+
+/**
+ * Save transactions locally before they are written to the ledger
+ * The caller delivers them right away - the worker only picks them up if that attempt never finishes
+ */
+async function enqueue(transactions: ParsedTransaction[]): Promise<OutboxEntry[]> {
+  return file.update((data) => {
+    const now = new Date().toISOString();
+    const firstRetry = new Date(Date.now() + RETRY_BASE_DELAY_MS).toISOString();
+    const entries = transactions.map((transaction): OutboxEntry => ({
+      id: randomUUID(),
+      status: 'pending',
+      transaction,
+      attempts: 0,
+      last_error: null,
+      created_at: now,
+      next_attempt_at: firstRetry,
+    }));
+    data.entries.push(...entries);
+    return entries;
+  });
+}
+
+/**
+ * Mark entries as being written - returns the ones nobody else is writing already
+ * Synchronous, so a claim can never interleave with another one
+ */
+function claim(entries: OutboxEntry[]): OutboxEntry[] {
+  const free = entries.filter((entry) => !inFlight.has(entry.id));
+  free.forEach((entry) => inFlight.add(entry.id));
+  return free;
+}
+
+/**
+ * Write claimed entries to the ledger; delivered entries leave the outbox, failed ones are rescheduled
+ * Rows are checked against the ledger first unless this is the first inline write - an earlier
+ * attempt may have landed without its entry being removed
+ */
+async function deliver(
+  entries: OutboxEntry[],
+  checkLedger: boolean = true
+): Promise<{ delivered: boolean; error?: string }> {
+  if (entries.length === 0) {
+    return { delivered: true };
+  }
+
+  const store = getTransactionStore();
+  const ids = new Set(entries.map((entry) => entry.id));
+
+  try {
+    let toWrite = entries.map((entry) => entry.transaction);
+    if (checkLedger) {
+      const existing = new Set((await store.list()).map((transaction) => transaction.fingerprint));
+      toWrite = toWrite.filter((transaction) => !existing.has(transaction.fingerprint));
+    }
+
+    await store.appendMany(toWrite);
+    await file.update((data) => {
+      data.entries = data.entries.filter((entry) => !ids.has(entry.id));
+    });
+    return { delivered: true };
+  } catch (error) {
+    const errorMessage = error instanceof Error ? error.message : 'Failed to write transactions';
+
+    await file.update((data) => {
+      const now = Date.now();
+      data.entries.filter((entry) => ids.has(entry.id)).forEach((entry) => {
+        entry.attempts++;
+        entry.last_error = errorMessage;
+        entry.next_attempt_at = new Date(now + retryDelay(entry.attempts)).toISOString();
+        if (entry.attempts >= OUTBOX_MAX_ATTEMPTS) {
+          entry.status = 'failed';
+        }
+      });
+    });
+    return { delivered: false, error: errorMessage };
+  } finally {
+    ids.forEach((id) => inFlight.delete(id));
+  }
+}
+
+/**
+ * Durable ledger write: save to the outbox, then try the ledger right away
+ * If the ledger write fails the transactions stay in the outbox and the
+ * background worker retries them - nothing is lost either way
+ */
+export async function writeThroughOutbox(
+  transactions: ParsedTransaction[]
+): Promise<{ delivered: boolean; entries: OutboxEntry[]; error?: string }> {
+  const entries = await enqueue(transactions);
+  const result = await deliver(claim(entries), false);
+  return { ...result, entries };
+}
+
+export async function listOutboxEntries(status?: OutboxStatus): Promise<OutboxEntry[]> {
+  const data = await file.read();
+  return data.entries.filter((entry) => !status || entry.status === status);
+}
+
+/**
+ * Outbox entry for a message fingerprint - it is parsed, just not in the ledger yet
+ */
+export async function findOutboxEntryByFingerprint(fingerprint: string): Promise<OutboxEntry | null> {
+  const data = await file.read();
+  return data.entries.find((entry) => entry.transaction.fingerprint === fingerprint) || null;
+}
+
+/**
+ * Change a transaction that is still waiting in the outbox, so the change reaches the ledger with it
+ * Returns false when no entry has that fingerprint
+ */
+export async function updateOutboxTransaction(fingerprint: string, changes: Partial<ParsedTransaction>): Promise<boolean> {
+  return file.update((data) => {
+    const entry = data.entries.find((candidate) => candidate.transaction.fingerprint === fingerprint);
+    if (!entry) {
+      return false;
+    }
+    Object.assign(entry.transaction, changes, { fingerprint });
+    return true;
+  });
+}
+
+/**
+ * Retry one entry now, regardless of its schedule or failed status
+ * Returns null when the entry does not exist, throws OutboxEntryBusyError while it is being written
+ */
+export async function replayOutboxEntry(id: string): Promise<{ delivered: boolean; error?: string } | null> {
+  const data = await file.read();
+  const entry = data.entries.find((candidate) => candidate.id === id);
+  if (!entry) {
+    return null;
+  }
+  if (claim([entry]).length === 0) {
+    throw new OutboxEntryBusyError('Outbox entry is already being delivered');
+  }
+
+  try {
+    await file.update((current) => {
+      const target = current.entries.find((candidate) => candidate.id === id);
+      if (target) {
+        target.status = 'pending';
+      }
+    });
+  } catch (error) {
+    inFlight.delete(id);
+    throw error;
+  }
+  return deliver([entry]);
+}
+
+/**
+ * Drop an entry without writing it - returns false when it does not exist
+ */
+export async function discardOutboxEntry(id: string): Promise<boolean> {
+  return file.update((data) => {
+    const before = data.entries.length;
+    data.entries = data.entries.filter((entry) => entry.id !== id);
+    return data.entries.length < before;
+  });
+}
+
+/**
+ * Deliver every pending entry of the current tenant whose retry time has come
+ */
+export async function deliverDueOutboxEntries(): Promise<{ delivered: number; remaining: number }> {
+  const now = Date.now();
+  const due = (await listOutboxEntries('pending'))
+    .filter((entry) => new Date(entry.next_attempt_at).getTime() <= now && !inFlight.has(entry.id));
+
+  let delivered = 0;
+  for (let start = 0; start < due.length; start += DELIVERY_BATCH_SIZE) {
+    // A replay may have claimed some of them since the list was read
+    const batch = claim(due.slice(start, start + DELIVERY_BATCH_SIZE));
+    const result = await deliver(batch);
+    if (!result.delivered) {
+      break; // Ledger is still failing, the rest waits for the next round
+    }
+    delivered += batch.length;
+  }
+
+  return { delivered, remaining: (await listOutboxEntries()).length };
+}
+
+/**
+ * Periodically retry outbox deliveries of every tenant in the background
+ * Returns a function that stops the worker
+ */
+export function startOutboxWorker(): () => void {
+  const timer = setInterval(async () => {
+    if (delivering) {
+      return;
+    }
+
+    delivering = true;
+    try {
+      await forEachTenant(async (tenant) => {
+        const { delivered, remaining } = await deliverDueOutboxEntries();
+        if (delivered > 0 || remaining > 0) {
+          console.log(`Outbox worker [${tenant.id}]: ${delivered} delivered, ${remaining} still in outbox`);
+        }
+      });
+    } catch (error) {
+      console.error('Outbox worker failed:', error);
+    } finally {
+      delivering = false;
+    }
+  }, OUTBOX_POLL_INTERVAL_MS);
+
+  timer.unref();
+  return () => clearInterval(timer);
+}
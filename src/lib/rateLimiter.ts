@@ -0,0 +1,26 @@
+export type RateLimiter = <T>(task: () => Promise<T>) => Promise<T>;
+
+function sleep(ms: number): Promise<void> {
+  return new Promise((resolve) => setTimeout(resolve, ms));
+}
+
+/**
+ * Space out task starts so no more than maxPerMinute run in any minute
+ * Tasks are started in call order; each waits for its own slot
+ */
+export function createRateLimiter(maxPerMinute: number): RateLimiter {
+  const intervalMs = 60_000 / Math.max(maxPerMinute, 1);
+  let nextSlot = 0;
+
+  return async function schedule<T>(task: () => Promise<T>): Promise<T> {
+    const now = Date.now();
+    const startAt = Math.max(now, nextSlot);
+    nextSlot = startAt + intervalMs;
+
+    if (startAt > now) {
+      await sleep(startAt - now);
+    }
+
+    return task();
+  };
+}
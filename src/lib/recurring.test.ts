@@ -0,0 +1,59 @@
+import { asNewTenant, makeTransaction } from './testing';
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+import { detectRecurringSeries, listRecurringSeries, matchRecurringSeries, scanRecurringSeries, withStatus } from './recurring';
+import { getTransactionStore } from './transactionStore';
+
+function charge(date: string, amount: number, merchant: string = 'Amazon') {
+  return makeTransaction({ merchant, amount, transaction_date: date, category: 'Entertainment, OTT etc' });
+}
+
+const subscription = [charge('05 Nov 2025', 299), charge('05 Dec 2025', 299), charge('05 Jan 2026', 299)];
+
+test('detects a monthly subscription and when the next charge is due', () => {
+  const [series] = detectRecurringSeries(subscription);
+
+  assert.equal(series?.cadence, 'monthly');
+  assert.equal(series?.occurrences, 3);
+  assert.equal(series?.expected_next_date, '2026-02-05');
+  assert.equal(withStatus(series!, new Date('2026-02-08')).status, 'active');
+  assert.equal(withStatus(series!, new Date('2026-02-20')).status, 'missed');
+});
+
+test('needs regular gaps and similar amounts', () => {
+  assert.deepEqual(detectRecurringSeries([charge('05 Nov 2025', 299), charge('05 Dec 2025', 299)]), []);
+  assert.deepEqual(detectRecurringSeries([charge('05 Nov 2025', 299), charge('19 Nov 2025', 299), charge('05 Jan 2026', 299)]), []);
+  assert.deepEqual(detectRecurringSeries([charge('05 Nov 2025', 299), charge('05 Dec 2025', 2340), charge('05 Jan 2026', 899)]), []);
+});
+
+test('an on-time charge continues the series and moves it on', () => asNewTenant(async () => {
+  await getTransactionStore().appendMany(subscription);
+  await scanRecurringSeries();
+
+  const match = await matchRecurringSeries(charge('06 Feb 2026', 329));
+  assert.equal(match?.amount_changed, true);
+  assert.equal(match?.series.last_date, '2026-02-06');
+  assert.equal(match?.series.expected_next_date, '2026-03-06');
+  assert.equal(match?.series.occurrences, 4);
+}));
+
+test('a one-off purchase at the same merchant is not part of the series', () => asNewTenant(async () => {
+  await getTransactionStore().appendMany(subscription);
+  await scanRecurringSeries();
+
+  assert.equal(await matchRecurringSeries(charge('06 Feb 2026', 2340)), null);
+  assert.equal(await matchRecurringSeries(charge('20 Jan 2026', 299)), null);
+
+  const { series: [series] } = await listRecurringSeries();
+  assert.equal(series?.last_date, '2026-01-05');
+  assert.equal(series?.amount_changed, false);
+}));
+
+test('a replayed charge still matches without advancing the series', () => asNewTenant(async () => {
+  await getTransactionStore().appendMany(subscription);
+  await scanRecurringSeries();
+
+  const match = await matchRecurringSeries(subscription[1]!);
+  assert.equal(match?.series.last_date, '2026-01-05');
+  assert.equal(match?.series.occurrences, 3);
+}));
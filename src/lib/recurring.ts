@@ -0,0 +1,271 @@
+import { createHash } from 'crypto';
+import type { ParsedTransaction } from './geminiAgent';
+import { daysBetween, parseCalendarDate } from './dates';
+import { createTenantJsonFile } from './jsonFile';
+import { getTransactionStore } from './transactionStore';
+
+export type Cadence = 'weekly' | 'monthly' | 'quarterly' | 'yearly';
+
+export interface RecurringSeries {
+  id: string;
+  merchant: string;
+  category: string;
+  account: string;
+  cadence: Cadence;
+  interval_days: number;
+  occurrences: number;
+  average_amount: number;
+  last_amount: number;
+  previous_amount: number;
+  last_date: string;              // YYYY-MM-DD
+  expected_next_date: string;     // YYYY-MM-DD
+  expected_amount: number;
+  amount_changed: boolean;
+  transaction_fingerprints: string[];
+}
+
+export interface RecurringSeriesStatus extends RecurringSeries {
+  status: 'active' | 'missed';
+  days_overdue: number;
+}
+
+interface RecurringFile {
+  scanned_at: string | null;
+  series: RecurringSeries[];
+}
+
+// Expected gap in days, how far a gap may drift and still count, and the calendar step
+const CADENCES: { cadence: Cadence; days: number; tolerance: number; months: number }[] = [
+  { cadence: 'weekly', days: 7, tolerance: 2, months: 0 },
+  { cadence: 'monthly', days: 30, tolerance: 5, months: 1 },
+  { cadence: 'quarterly', days: 91, tolerance: 10, months: 3 },
+  { cadence: 'yearly', days: 365, tolerance: 15, months: 12 },
+];
+
+const MIN_OCCURRENCES = 3;
+const AMOUNT_TOLERANCE = 0.2;     // Amounts within 20% of the median are "similar"
+const REGULARITY_THRESHOLD = 0.75; // Share of gaps / amounts that must fit the pattern
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+const file = createTenantJsonFile<RecurringFile>('recurring.json', () => ({ scanned_at: null, series: [] }));
+
+function median(values: number[]): number {
+  const sorted = [...values].sort((a, b) => a - b);
+  const middle = Math.floor(sorted.length / 2);
+  return sorted.length % 2 ? sorted[middle]! : (sorted[middle - 1]! + sorted[middle]!) / 2;
+}
+
+function round(value: number): number {
+  return Math.round(value * 100) / 100;
+}
+
+function toIsoDate(date: Date): string {
+  return date.toISOString().slice(0, 10);
+}
+
+/**
+ * Next expected charge date - calendar months for monthly and longer cadences,
+ * so a charge on the 5th stays on the 5th
+ */
+function nextDate(last: Date, months: number, intervalDays: number): Date {
+  if (months === 0) {
+    return new Date(last.getTime() + intervalDays * DAY_MS);
+  }
+  return new Date(Date.UTC(last.getUTCFullYear(), last.getUTCMonth() + months, last.getUTCDate()));
+}
+
+function merchantKey(merchant: string): string {
+  return merchant.toUpperCase().replace(/[^A-Z0-9]/g, '');
+}
+
+function seriesId(merchant: string, account: string, cadence: Cadence): string {
+  return 'rec_' + createHash('sha1').update(`${merchant}|${account}|${cadence}`).digest('hex').slice(0, 12);
+}
+
+function detectSeries(group: { transaction: ParsedTransaction; date: Date }[]): RecurringSeries | null {
+  if (group.length < MIN_OCCURRENCES) {
+    return null;
+  }
+
+  const sorted = [...group].sort((a, b) => a.date.getTime() - b.date.getTime());
+  const gaps = sorted.slice(1).map((entry, index) => daysBetween(entry.date, sorted[index]!.date));
+  const medianGap = median(gaps);
+
+  const cadence = CADENCES.find((candidate) => Math.abs(medianGap - candidate.days) <= candidate.tolerance);
+  if (!cadence) {
+    return null;
+  }
+
+  const regularGaps = gaps.filter((gap) => Math.abs(gap - cadence.days) <= cadence.tolerance);
+  if (regularGaps.length / gaps.length < REGULARITY_THRESHOLD) {
+    return null;
+  }
+
+  const amounts = sorted.map((entry) => entry.transaction.amount);
+  const medianAmount = median(amounts);
+  const similarAmounts = amounts.filter((amount) => Math.abs(amount - medianAmount) <= medianAmount * AMOUNT_TOLERANCE);
+  if (similarAmounts.length / amounts.length < REGULARITY_THRESHOLD) {
+    return null;
+  }
+
+  const last = sorted[sorted.length - 1]!;
+  const previous = sorted[sorted.length - 2]!;
+  const intervalDays = Math.round(median(regularGaps));
+  const accountName = last.transaction.account;
+
+  return {
+    id: seriesId(merchantKey(last.transaction.merchant), accountName, cadence.cadence),
+    merchant: last.transaction.merchant,
+    category: last.transaction.category,
+    account: accountName,
+    cadence: cadence.cadence,
+    interval_days: intervalDays,
+    occurrences: sorted.length,
+    average_amount: round(amounts.reduce((sum, amount) => sum + amount, 0) / amounts.length),
+    last_amount: last.transaction.amount,
+    previous_amount: previous.transaction.amount,
+    last_date: toIsoDate(last.date),
+    expected_next_date: toIsoDate(nextDate(last.date, cadence.months, intervalDays)),
+    expected_amount: last.transaction.amount,
+    amount_changed: Math.abs(last.transaction.amount - previous.transaction.amount) > previous.transaction.amount * 0.01,
+    transaction_fingerprints: sorted.map((entry) => entry.transaction.fingerprint),
+  };
+}
+
+/**
+ * Find recurring outflows: same merchant and account, similar amount, regular interval
+ */
+export function detectRecurringSeries(transactions: ParsedTransaction[]): RecurringSeries[] {
+  const groups = new Map<string, { transaction: ParsedTransaction; date: Date }[]>();
+
+  for (const transaction of transactions) {
+    const date = parseCalendarDate(transaction.transaction_date);
+    const merchant = merchantKey(transaction.merchant);
+    if (!date || transaction.direction !== 'Outflow' || !merchant || merchant === 'UNKNOWN') {
+      continue;
+    }
+
+    const key = `${merchant}|${transaction.account}`;
+    const group = groups.get(key) || [];
+    group.push({ transaction, date });
+    groups.set(key, group);
+  }
+
+  return [...groups.values()]
+    .map(detectSeries)
+    .filter((series): series is RecurringSeries => series !== null)
+    .sort((a, b) => a.expected_next_date.localeCompare(b.expected_next_date));
+}
+
+/**
+ * Add missed-charge status relative to today
+ * A charge is missed once today is past the expected date plus the cadence tolerance
+ */
+export function withStatus(series: RecurringSeries, today: Date = new Date()): RecurringSeriesStatus {
+  const tolerance = CADENCES.find((candidate) => candidate.cadence === series.cadence)?.tolerance ?? 0;
+  const expected = parseCalendarDate(series.expected_next_date)!;
+  const overdue = Math.floor((today.getTime() - expected.getTime()) / DAY_MS);
+
+  return {
+    ...series,
+    status: overdue > tolerance ? 'missed' : 'active',
+    days_overdue: Math.max(overdue, 0),
+  };
+}
+
+/**
+ * Detected series from the last scan, with current status
+ */
+export async function listRecurringSeries(): Promise<{ scanned_at: string | null; series: RecurringSeriesStatus[] }> {
+  const data = await file.read();
+  return { scanned_at: data.scanned_at, series: data.series.map((series) => withStatus(series)) };
+}
+
+/**
+ * Re-detect recurring series from all stored transactions, persist them and
+ * tag member transactions with their recurring_id
+ */
+export async function scanRecurringSeries(): Promise<{ series: RecurringSeriesStatus[]; tagged: number }> {
+  const store = getTransactionStore();
+  const transactions = await store.list();
+  const series = detectRecurringSeries(transactions);
+
+  const seriesByFingerprint = new Map<string, string>();
+  series.forEach((entry) => entry.transaction_fingerprints.forEach((fingerprint) => seriesByFingerprint.set(fingerprint, entry.id)));
+
+  const updates = transactions.flatMap((transaction) => {
+    const recurringId = seriesByFingerprint.get(transaction.fingerprint);
+    return recurringId && transaction.recurring_id !== recurringId
+      ? [{ fingerprint: transaction.fingerprint, changes: { recurring_id: recurringId } }]
+      : [];
+  });
+  const tagged = await store.updateMany(updates);
+
+  await file.update((data) => {
+    data.scanned_at = new Date().toISOString();
+    data.series = series;
+  });
+
+  return { series: series.map((entry) => withStatus(entry)), tagged };
+}
+
+/**
+ * Whether a charge continues a series: already one of its charges, or a similar amount
+ * on the expected date give or take the cadence tolerance
+ * Anything else at the same merchant (an Amazon order next to Prime) is a one-off
+ */
+function continuesSeries(series: RecurringSeries, transaction: ParsedTransaction, date: Date): boolean {
+  if (series.transaction_fingerprints.includes(transaction.fingerprint)) {
+    return true;
+  }
+  if (Math.abs(transaction.amount - series.expected_amount) > series.expected_amount * AMOUNT_TOLERANCE) {
+    return false;
+  }
+  const tolerance = CADENCES.find((candidate) => candidate.cadence === series.cadence)?.tolerance ?? 0;
+  const expected = parseCalendarDate(series.expected_next_date);
+  return Boolean(expected && daysBetween(date, expected) <= tolerance);
+}
+
+/**
+ * Tag a newly ingested transaction if it continues a known series, and move the series on to it
+ * (last charge, next expected date) so a charge paid on time is not reported missed
+ * Returns the series and whether the amount differs from the expected charge
+ */
+export async function matchRecurringSeries(
+  transaction: ParsedTransaction
+): Promise<{ series: RecurringSeries; amount_changed: boolean } | null> {
+  const date = parseCalendarDate(transaction.transaction_date);
+  if (transaction.direction !== 'Outflow' || !date) {
+    return null;
+  }
+
+  const key = merchantKey(transaction.merchant);
+
+  return file.update((data) => {
+    const series = data.series.find((candidate) =>
+      candidate.account === transaction.account && merchantKey(candidate.merchant) === key
+        && continuesSeries(candidate, transaction, date)
+    );
+    if (!series) {
+      return null;
+    }
+
+    const amountChanged = Math.abs(transaction.amount - series.expected_amount) > series.expected_amount * 0.01;
+    const months = CADENCES.find((candidate) => candidate.cadence === series.cadence)?.months ?? 0;
+
+    // Replayed charges still match, but only a new one advances the series
+    if (toIsoDate(date) > series.last_date && !series.transaction_fingerprints.includes(transaction.fingerprint)) {
+      series.average_amount = round((series.average_amount * series.occurrences + transaction.amount) / (series.occurrences + 1));
+      series.occurrences++;
+      series.previous_amount = series.last_amount;
+      series.last_amount = transaction.amount;
+      series.last_date = toIsoDate(date);
+      series.expected_next_date = toIsoDate(nextDate(date, months, series.interval_days));
+      series.expected_amount = transaction.amount;
+      series.amount_changed = amountChanged;
+      series.transaction_fingerprints.push(transaction.fingerprint);
+    }
+
+    return { series: { ...series }, amount_changed: amountChanged };
+  });
+}
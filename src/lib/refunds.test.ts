@@ -0,0 +1,93 @@
+import { asNewTenant, makeTransaction } from './testing';
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+import type { ParsedTransaction } from './geminiAgent';
+import { writeThroughOutbox } from './outbox';
+import { linkRefunds, recordRefundLinks, scanRefunds } from './refunds';
+import { getTransactionStore } from './transactionStore';
+
+function purchase(overrides: Partial<ParsedTransaction> = {}): ParsedTransaction {
+  return makeTransaction({ merchant: 'Myntra', amount: 1200, transaction_date: '01 Feb 2026', occurred_at: '2026-02-01T10:00:00+05:30', ...overrides });
+}
+
+function refund(amount: number, overrides: Partial<ParsedTransaction> = {}): ParsedTransaction {
+  return makeTransaction({
+    direction: 'Inflow',
+    merchant: 'Myntra',
+    amount,
+    raw_message: `Rs ${amount}.00 refund from MYNTRA credited to A/c XX1234`,
+    ...overrides,
+  });
+}
+
+async function ingestRefund(transaction: ParsedTransaction) {
+  const links = await linkRefunds([transaction]);
+  await writeThroughOutbox([transaction]);
+  await recordRefundLinks(links);
+  return links;
+}
+
+test('links a refund to its purchase once the refund is written', () => asNewTenant(async () => {
+  const store = getTransactionStore();
+  const original = purchase();
+  await store.append(original);
+
+  const credit = refund(400);
+  const [link] = await linkRefunds([credit]);
+  assert.equal(link?.matched_by, 'merchant');
+  assert.equal(credit.refund_of, original.fingerprint);
+  // Nothing is stored before the refund row exists
+  assert.equal((await store.findByFingerprint(original.fingerprint))?.refunded_amount, undefined);
+
+  await writeThroughOutbox([credit]);
+  await recordRefundLinks([link!]);
+  const stored = await store.findByFingerprint(original.fingerprint);
+  assert.equal(stored?.refunded_amount, 400);
+  assert.equal(stored?.refund_status, 'partial');
+}));
+
+test('concurrent refunds of one purchase add up', () => asNewTenant(async () => {
+  const store = getTransactionStore();
+  const original = purchase();
+  await store.append(original);
+
+  await Promise.all([ingestRefund(refund(400)), ingestRefund(refund(800))]);
+
+  const stored = await store.findByFingerprint(original.fingerprint);
+  assert.equal(stored?.refunded_amount, 1200);
+  assert.equal(stored?.refund_status, 'full');
+}));
+
+test('matches a failed-payment reversal by account and amount within a week', () => asNewTenant(async () => {
+  await getTransactionStore().append(purchase({ merchant: 'Unknown', transaction_date: '03 Feb 2026' }));
+
+  const [link] = await linkRefunds([refund(1200, { merchant: 'Unknown', raw_message: 'Rs 1200.00 reversed to A/c XX1234 for failed txn' })]);
+  assert.equal(link?.matched_by, 'amount');
+}));
+
+test('does not refund more than was spent', () => asNewTenant(async () => {
+  await getTransactionStore().append(purchase());
+  assert.deepEqual(await linkRefunds([refund(1500)]), []);
+}));
+
+test('pairing leaves the rows listed by the store alone', () => asNewTenant(async () => {
+  const store = getTransactionStore();
+  const original = purchase();
+  await store.append(original);
+  const listed = await store.list();
+
+  await linkRefunds([refund(1200)]);
+  assert.equal(listed[0]?.refunded_amount, undefined);
+  assert.equal((await store.findByFingerprint(original.fingerprint))?.refunded_amount, undefined);
+}));
+
+test('scanning links refunds ingested before their purchase', () => asNewTenant(async () => {
+  const store = getTransactionStore();
+  const original = purchase();
+  const credit = refund(1200);
+  await store.appendMany([credit, original]);
+
+  assert.equal((await scanRefunds()).length, 1);
+  assert.equal((await store.findByFingerprint(credit.fingerprint))?.refund_of, original.fingerprint);
+  assert.equal((await store.findByFingerprint(original.fingerprint))?.refund_status, 'full');
+}));
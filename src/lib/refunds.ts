@@ -0,0 +1,186 @@
+import { classifyFlow } from './analytics';
+import { daysBetween, parseCalendarDate } from './dates';
+import type { ParsedTransaction } from './geminiAgent';
+import { normalizeForMatch } from './merchantRules';
+import { listOutboxEntries, updateOutboxTransaction } from './outbox';
+import { GENERATED_ID_PATTERN } from './reviewQueue';
+import { currentTenant } from './tenantContext';
+import { getTransactionStore, TransactionUpdate } from './transactionStore';
+
+export type RefundStatus = 'partial' | 'full';
+
+export interface RefundLink {
+  refund: ParsedTransaction;
+  original: ParsedTransaction;
+  matched_by: 'reference' | 'merchant' | 'amount';
+}
+
+// Merchant refunds can take weeks (returns, chargebacks)
+const REFUND_MATCH_WINDOW_DAYS = parseInt(process.env.REFUND_MATCH_WINDOW_DAYS || '90', 10);
+// A failed payment is credited back within days and usually names nothing but the amount
+const REVERSAL_MATCH_WINDOW_DAYS = 7;
+const MATCH_SCORES: Record<RefundLink['matched_by'], number> = { reference: 3, merchant: 2, amount: 1 };
+
+// Refunded amounts of a tenant are recomputed one at a time, so a slower write never overwrites a newer total
+const recordQueues = new Map<string, Promise<unknown>>();
+
+function roundMoney(value: number): number {
+  return Math.round(value * 100) / 100;
+}
+
+function refundableAmount(original: ParsedTransaction): number {
+  return roundMoney(original.amount - (original.refunded_amount ?? 0));
+}
+
+function refundStatus(original: ParsedTransaction, refunded: number): RefundStatus {
+  return refunded >= original.amount - 0.01 ? 'full' : 'partial';
+}
+
+/**
+ * How a refund credit matches an earlier outflow, or null if it does not
+ * - reference: the credit carries the original's bank reference (UPI ref, txn id)
+ * - merchant: the credit names the original's merchant
+ * - amount: same account and exact amount within a few days (failed-transaction credits)
+ */
+function refundMatch(refund: ParsedTransaction, original: ParsedTransaction): RefundLink['matched_by'] | null {
+  const refundDate = parseCalendarDate(refund.transaction_date);
+  const originalDate = parseCalendarDate(original.transaction_date);
+  if (!refundDate || !originalDate || originalDate > refundDate) {
+    return null;
+  }
+  const days = daysBetween(refundDate, originalDate);
+  if (days > REFUND_MATCH_WINDOW_DAYS || refund.amount - refundableAmount(original) >= 0.01) {
+    return null;
+  }
+
+  const reference = original.transaction_id;
+  if (reference.length >= 6 && !GENERATED_ID_PATTERN.test(reference)
+    && (refund.transaction_id === reference || refund.raw_message.includes(reference))) {
+    return 'reference';
+  }
+
+  const merchant = normalizeForMatch(original.merchant);
+  if (merchant && original.merchant !== 'Unknown'
+    && (normalizeForMatch(refund.merchant) === merchant || normalizeForMatch(refund.raw_message).includes(merchant))) {
+    return 'merchant';
+  }
+
+  if (days <= REVERSAL_MATCH_WINDOW_DAYS && refund.account === original.account && Math.abs(refund.amount - original.amount) < 0.01) {
+    return 'amount';
+  }
+  return null;
+}
+
+/**
+ * Pair each unlinked refund with the outflow it reverses
+ * Refunds are handled oldest first so a partially refunded original is only used up to its amount;
+ * the best match wins, then the latest original
+ */
+function pairRefunds(refunds: ParsedTransaction[], pool: ParsedTransaction[]): RefundLink[] {
+  const originals = pool.filter((transaction) => classifyFlow(transaction) === 'spend');
+  const ordered = [...refunds]
+    .filter((transaction) => !transaction.refund_of && classifyFlow(transaction) === 'refund')
+    .sort((a, b) => a.occurred_at.localeCompare(b.occurred_at));
+  const links: RefundLink[] = [];
+
+  for (const refund of ordered) {
+    let best: { original: ParsedTransaction; matched_by: RefundLink['matched_by'] } | null = null;
+
+    for (const original of originals) {
+      const matchedBy = refundMatch(refund, original);
+      if (!matchedBy) {
+        continue;
+      }
+      if (!best || MATCH_SCORES[matchedBy] > MATCH_SCORES[best.matched_by]
+        || (MATCH_SCORES[matchedBy] === MATCH_SCORES[best.matched_by] && original.occurred_at > best.original.occurred_at)) {
+        best = { original, matched_by: matchedBy };
+      }
+    }
+
+    if (best) {
+      const refunded = roundMoney((best.original.refunded_amount ?? 0) + refund.amount);
+      best.original.refunded_amount = refunded;
+      best.original.refund_status = refundStatus(best.original, refunded);
+      refund.refund_of = best.original.fingerprint;
+      links.push({ refund, original: best.original, matched_by: best.matched_by });
+    }
+  }
+
+  return links;
+}
+
+/**
+ * Link new refund / reversal credits (not yet written) to the outflows they reverse
+ * The refunds get refund_of in place, as do originals within the same batch; ledger rows are
+ * left alone - call recordRefundLinks once the refunds are written
+ */
+export async function linkRefunds(transactions: ParsedTransaction[]): Promise<RefundLink[]> {
+  if (!transactions.some((transaction) => classifyFlow(transaction) === 'refund')) {
+    return [];
+  }
+
+  const ledger = (await getTransactionStore().list()).map((transaction) => ({ ...transaction }));
+  return pairRefunds(transactions, [...ledger, ...transactions]);
+}
+
+/**
+ * Store the refunded amount and status of the linked originals
+ * Recomputed from every recorded refund pointing at the original (ledger and outbox),
+ * so concurrent refunds of one purchase add up instead of overwriting each other
+ */
+export async function recordRefundLinks(links: RefundLink[]): Promise<void> {
+  const originals = new Set(links.map((link) => link.original.fingerprint));
+  if (originals.size === 0) {
+    return;
+  }
+
+  const tenantId = currentTenant().id;
+  const run = (recordQueues.get(tenantId) ?? Promise.resolve()).then(async () => {
+    const store = getTransactionStore();
+    const ledger = await store.list();
+    const outbox = (await listOutboxEntries()).map((entry) => entry.transaction);
+
+    // A row can briefly be in both while the outbox delivers it
+    const recorded = new Map([...outbox, ...ledger].map((transaction) => [transaction.fingerprint, transaction]));
+    const refunded = new Map<string, number>();
+    for (const transaction of recorded.values()) {
+      if (transaction.refund_of && originals.has(transaction.refund_of)) {
+        refunded.set(transaction.refund_of, roundMoney((refunded.get(transaction.refund_of) ?? 0) + transaction.amount));
+      }
+    }
+
+    const inLedger = new Set(ledger.map((transaction) => transaction.fingerprint));
+    const updates: TransactionUpdate[] = [];
+    for (const fingerprint of originals) {
+      const original = recorded.get(fingerprint);
+      const amount = refunded.get(fingerprint);
+      if (!original || amount === undefined) {
+        continue;
+      }
+      const changes = { refunded_amount: amount, refund_status: refundStatus(original, amount) };
+      if (inLedger.has(fingerprint)) {
+        updates.push({ fingerprint, changes });
+      } else {
+        await updateOutboxTransaction(fingerprint, changes);
+      }
+    }
+    await store.updateMany(updates);
+  });
+
+  // Keep the queue alive even if this write fails
+  recordQueues.set(tenantId, run.catch(() => undefined));
+  await run;
+}
+
+/**
+ * Link refunds already in the ledger, e.g. ones ingested before their original
+ */
+export async function scanRefunds(): Promise<RefundLink[]> {
+  const store = getTransactionStore();
+  const ledger = (await store.list()).map((transaction) => ({ ...transaction }));
+  const links = pairRefunds(ledger, ledger);
+
+  await store.updateMany(links.map((link) => ({ fingerprint: link.refund.fingerprint, changes: { refund_of: link.refund.refund_of } })));
+  await recordRefundLinks(links);
+  return links;
+}
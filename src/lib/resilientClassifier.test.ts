@@ -0,0 +1,49 @@
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+import { Classification, ClassifierHttpError, ClassifierTimeoutError, TransactionClassifier } from './classification';
+import { isClassifierUnavailable, withResilience } from './resilientClassifier';
+
+const input = { sms: 'Rs.100.00 debited to VPA swiggy@icici', rawMerchant: 'SWIGGY' };
+const result: Classification = { category: 'Food & Dining', confidence: 0.6, merchant: 'Swiggy' };
+
+// Fails with the given errors in turn, then answers
+function flakyClassifier(errors: Error[]): TransactionClassifier & { calls: number } {
+  const classifier = {
+    name: 'flaky',
+    calls: 0,
+    async classify() {
+      const error = errors[classifier.calls++];
+      if (error) {
+        throw error;
+      }
+      return result;
+    },
+    async classifyBatch() {
+      return [await classifier.classify()];
+    },
+  };
+  return classifier;
+}
+
+test('retries a rate-limited call inline', async () => {
+  const classifier = flakyClassifier([new ClassifierHttpError('Too many requests', 429)]);
+  assert.deepEqual(await withResilience(classifier).classify(input), result);
+  assert.equal(classifier.calls, 2);
+});
+
+test('hands a timeout to the pending queue without retrying', async () => {
+  const classifier = flakyClassifier([new ClassifierTimeoutError('timed out')]);
+  const error = await withResilience(classifier).classify(input).catch((failure: unknown) => failure);
+
+  assert.ok(error instanceof ClassifierTimeoutError);
+  assert.equal(isClassifierUnavailable(error), true);
+  assert.equal(classifier.calls, 1);
+});
+
+test('does not retry or defer errors that would repeat', async () => {
+  const classifier = flakyClassifier([new ClassifierHttpError('Bad request', 400)]);
+  const error = await withResilience(classifier).classify(input).catch((failure: unknown) => failure);
+
+  assert.equal(isClassifierUnavailable(error), false);
+  assert.equal(classifier.calls, 1);
+});
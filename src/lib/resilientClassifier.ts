@@ -0,0 +1,78 @@
+import { ClassifierHttpError, ClassifierTimeoutError, ClassifierUnreachableError, TransactionClassifier } from './classification';
+import { CircuitOpenError, createCircuitBreaker } from './circuitBreaker';
+
+const CLASSIFIER_MAX_RETRIES = parseInt(process.env.CLASSIFIER_MAX_RETRIES || '3', 10);
+const RETRY_BASE_DELAY_MS = 1000; // Doubles on every retry, plus jitter
+const RETRY_MAX_DELAY_MS = 30_000;
+const CIRCUIT_FAILURE_THRESHOLD = parseInt(process.env.CLASSIFIER_CIRCUIT_FAILURE_THRESHOLD || '5', 10);
+const CIRCUIT_RESET_MS = parseInt(process.env.CLASSIFIER_CIRCUIT_RESET_MS || '60000', 10);
+
+function sleep(ms: number): Promise<void> {
+  return new Promise((resolve) => setTimeout(resolve, ms));
+}
+
+/**
+ * Rate limits and overload usually clear within seconds - worth retrying while the request waits
+ */
+function isRetryable(error: unknown): boolean {
+  return error instanceof ClassifierHttpError && (error.status === 429 || error.status >= 500);
+}
+
+/**
+ * True when the provider could not be reached or did not answer in time - the
+ * transaction should be classified again later. Errors that would repeat on
+ * every try (a 400, a missing API key, a reply failing schema validation) do not count.
+ */
+export function isClassifierUnavailable(error: unknown): boolean {
+  return isRetryable(error)
+    || error instanceof ClassifierTimeoutError
+    || error instanceof ClassifierUnreachableError
+    || error instanceof CircuitOpenError;
+}
+
+/**
+ * Wrap a classifier with retries with exponential backoff on rate-limit / server errors
+ * and a circuit breaker - request timeouts are applied by the providers around each HTTP call
+ *
+ * Timeouts and network failures are not retried inline: each would hold the request for
+ * another full timeout, and the pending-classification worker retries them anyway
+ */
+export function withResilience(classifier: TransactionClassifier): TransactionClassifier {
+  const breaker = createCircuitBreaker(`${classifier.name} classifier`, {
+    failureThreshold: CIRCUIT_FAILURE_THRESHOLD,
+    resetTimeoutMs: CIRCUIT_RESET_MS,
+  });
+
+  async function withRetries<T>(task: () => Promise<T>): Promise<T> {
+    for (let attempt = 0; ; attempt++) {
+      try {
+        return await task();
+      } catch (error) {
+        if (!isRetryable(error) || attempt >= CLASSIFIER_MAX_RETRIES) {
+          throw error;
+        }
+
+        const delay = Math.min(RETRY_BASE_DELAY_MS * 2 ** attempt, RETRY_MAX_DELAY_MS) * (1 + Math.random() * 0.2);
+        console.warn(`${classifier.name} classification failed (${error instanceof Error ? error.message : error}), retrying in ${Math.round(delay)}ms`);
+        await sleep(delay);
+      }
+    }
+  }
+
+  // One breaker outcome per logical call, after its retries are used up
+  function call<T>(task: () => Promise<T>): Promise<T> {
+    return breaker.execute(() => withRetries(task), isClassifierUnavailable);
+  }
+
+  return {
+    name: classifier.name,
+
+    classify(input) {
+      return call(() => classifier.classify(input));
+    },
+
+    classifyBatch(inputs) {
+      return call(() => classifier.classifyBatch(inputs));
+    },
+  };
+}
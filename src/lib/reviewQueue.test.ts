@@ -0,0 +1,49 @@
+import { asNewTenant, makeTransaction } from './testing';
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+import { approveReviewItem, enqueueForReview, listReviewItems, rejectReviewItem, ReviewStateError } from './reviewQueue';
+import { getTransactionStore } from './transactionStore';
+
+test('does not approve a foreign amount that has no exchange rate yet', () => asNewTenant(async () => {
+  const [item] = await enqueueForReview([makeTransaction({ currency: 'USD', amount: 100, original_amount: 100 })], 'sms');
+  assert.deepEqual(item?.reasons, ['missing_exchange_rate']);
+
+  await assert.rejects(approveReviewItem(item!.id, { note: '' }), ReviewStateError);
+  assert.equal((await listReviewItems('pending')).length, 1);
+  assert.deepEqual(await getTransactionStore().list(), []);
+
+  const approved = await approveReviewItem(item!.id, { amount: 8300, note: '' });
+  assert.equal(approved?.status, 'approved');
+  assert.equal(approved?.transaction.exchange_rate, 83);
+  assert.equal((await getTransactionStore().list())[0]?.amount, 8300);
+}));
+
+test('concurrent approvals link a refund to its original only once', () => asNewTenant(async () => {
+  const store = getTransactionStore();
+  const original = makeTransaction({ merchant: 'Myntra', amount: 1200 });
+  await store.append(original);
+  const [item] = await enqueueForReview([makeTransaction({
+    direction: 'Inflow',
+    merchant: 'Myntra',
+    amount: 400,
+    confidence: 0.3,
+    raw_message: 'Rs 400.00 refund from MYNTRA credited to A/c XX1234',
+  })], 'sms');
+
+  const approvals = await Promise.allSettled([approveReviewItem(item!.id, { note: '' }), approveReviewItem(item!.id, { note: '' })]);
+  assert.deepEqual(approvals.map((approval) => approval.status).sort(), ['fulfilled', 'rejected']);
+
+  const updated = await store.findByFingerprint(original.fingerprint);
+  assert.equal(updated?.refunded_amount, 400);
+  assert.equal(updated?.refund_status, 'partial');
+  assert.equal((await store.list()).length, 2);
+}));
+
+test('an approval and a rejection cannot both win', () => asNewTenant(async () => {
+  const [item] = await enqueueForReview([makeTransaction({ confidence: 0.3 })], 'sms');
+
+  const [approval, rejection] = await Promise.allSettled([approveReviewItem(item!.id, { note: '' }), rejectReviewItem(item!.id)]);
+  assert.equal(approval.status, 'fulfilled');
+  assert.equal(rejection.status, 'rejected');
+  assert.equal((await listReviewItems('approved')).length, 1);
+}));
@@ -0,0 +1,251 @@
+import { randomUUID } from 'crypto';
+import { z } from 'zod';
+import type { ParsedTransaction } from './geminiAgent';
+import { createTenantJsonFile } from './jsonFile';
+import { matchRecurringSeries } from './recurring';
+import { categorySchema } from './tenantContext';
+import { findOutboxEntryByFingerprint, writeThroughOutbox } from './outbox';
+import { getTransactionStore } from './transactionStore';
+import { tagSelfTransfers } from './transfers';
+import { linkRefunds, recordRefundLinks, RefundLink } from './refunds';
+import { matchSettlements } from './splits';
+import { convertToHomeCurrency, needsExchangeRate } from './currency';
+
+export type ReviewReason = 'low_confidence' | 'zero_amount' | 'generated_id' | 'missing_exchange_rate';
+
+export type ReviewStatus = 'pending' | 'approving' | 'approved' | 'rejected';
+
+export type ReviewSource = 'sms' | 'sms_import' | 'statement';
+
+export interface ReviewItem {
+  id: string;
+  status: ReviewStatus;
+  reasons: ReviewReason[];
+  source: ReviewSource;
+  transaction: ParsedTransaction;
+  queued_at: string;
+  reviewed_at: string | null;
+  note: string;
+}
+
+interface ReviewFile {
+  items: ReviewItem[];
+}
+
+// Rule matches score 0.95, Gemini at most 0.7 and failures 0
+const REVIEW_CONFIDENCE_THRESHOLD = parseFloat(process.env.REVIEW_CONFIDENCE_THRESHOLD || '0.5');
+
+// An approval that died midway (process restart) can be taken over after this long
+const APPROVAL_CLAIM_TIMEOUT_MS = 10 * 60 * 1000;
+
+// Fallback ID from extractTransactionId when the SMS carries no reference
+export const GENERATED_ID_PATTERN = /^TXN\d{8}$/;
+
+const file = createTenantJsonFile<ReviewFile>('review_queue.json', () => ({ items: [] }));
+
+export const reviewFixSchema = z.object({
+  category: categorySchema.optional(),
+  merchant: z.string().trim().min(1).optional(),
+  amount: z.number().positive().optional(),
+  transaction_id: z.string().trim().min(1).optional(),
+  note: z.string().default(''),
+});
+
+export type ReviewFix = z.infer<typeof reviewFixSchema>;
+
+export class ReviewStateError extends Error {}
+
+/**
+ * Why a transaction needs a human look before it reaches the ledger (empty = it doesn't)
+ */
+export function reviewReasons(transaction: ParsedTransaction): ReviewReason[] {
+  const reasons: ReviewReason[] = [];
+  // Pending transactions have no real confidence yet - the classification worker fills it in
+  if (!transaction.pending_classification && transaction.confidence < REVIEW_CONFIDENCE_THRESHOLD) {
+    reasons.push('low_confidence');
+  }
+  if (!transaction.amount) {
+    reasons.push('zero_amount');
+  }
+  if (GENERATED_ID_PATTERN.test(transaction.transaction_id)) {
+    reasons.push('generated_id');
+  }
+  // The amount is still in the foreign currency - add the rate or fix the amount on approval
+  if (needsExchangeRate(transaction)) {
+    reasons.push('missing_exchange_rate');
+  }
+  return reasons;
+}
+
+/**
+ * Hold transactions in the review queue instead of writing them to the ledger
+ */
+export async function enqueueForReview(
+  transactions: ParsedTransaction[],
+  source: ReviewSource
+): Promise<ReviewItem[]> {
+  if (transactions.length === 0) {
+    return [];
+  }
+
+  return file.update((data) => {
+    const queuedAt = new Date().toISOString();
+    const items = transactions.map((transaction): ReviewItem => ({
+      id: randomUUID(),
+      status: 'pending',
+      reasons: reviewReasons(transaction),
+      source,
+      transaction,
+      queued_at: queuedAt,
+      reviewed_at: null,
+      note: '',
+    }));
+    data.items.push(...items);
+    return items;
+  });
+}
+
+export async function listReviewItems(status?: ReviewStatus): Promise<ReviewItem[]> {
+  const data = await file.read();
+  return data.items.filter((item) => !status || item.status === status);
+}
+
+/**
+ * Queue entry for a message fingerprint, so a re-sent SMS is not queued twice
+ */
+export async function findReviewItemByFingerprint(fingerprint: string): Promise<ReviewItem | null> {
+  const data = await file.read();
+  return data.items.find((item) => item.transaction.fingerprint === fingerprint) || null;
+}
+
+/**
+ * Apply changes to the transaction of a pending queue item (e.g. a late classification)
+ */
+export async function updateQueuedTransaction(
+  fingerprint: string,
+  changes: Partial<ParsedTransaction>
+): Promise<ReviewItem | null> {
+  return file.update((data) => {
+    const item = data.items.find((candidate) => candidate.status === 'pending' && candidate.transaction.fingerprint === fingerprint);
+    if (!item) {
+      return null;
+    }
+    Object.assign(item.transaction, changes, { fingerprint });
+    return { ...item };
+  });
+}
+
+/**
+ * Move a pending item to `status` inside the write queue, so two reviews never both act on it
+ * Returns null when the item does not exist, throws ReviewStateError when it is no longer pending
+ */
+async function claimPendingItem(id: string, status: 'approving' | 'rejected', note: string): Promise<ReviewItem | null> {
+  return file.update((data) => {
+    const item = data.items.find((candidate) => candidate.id === id);
+    if (!item) {
+      return null;
+    }
+    const abandoned = item.status === 'approving'
+      && Date.now() - new Date(item.reviewed_at ?? 0).getTime() > APPROVAL_CLAIM_TIMEOUT_MS;
+    if (item.status !== 'pending' && !abandoned) {
+      throw new ReviewStateError(`Review item is already ${item.status}`);
+    }
+
+    item.status = status;
+    item.reviewed_at = new Date().toISOString();
+    item.note = note;
+    return { ...item };
+  });
+}
+
+async function finishApproval(id: string, transaction: ParsedTransaction | null): Promise<ReviewItem> {
+  return file.update((data) => {
+    const item = data.items.find((candidate) => candidate.id === id)!;
+    if (transaction) {
+      item.status = 'approved';
+      item.transaction = transaction;
+    } else {
+      // The approval failed - the item can be reviewed again
+      item.status = 'pending';
+      item.reviewed_at = null;
+      item.note = '';
+    }
+    return { ...item };
+  });
+}
+
+/**
+ * Approve a queued transaction, applying any fixes, and write it to the ledger
+ * Returns null when the item does not exist
+ */
+export async function approveReviewItem(id: string, fix: ReviewFix): Promise<ReviewItem | null> {
+  const { note, ...changes } = fix;
+  const item = await claimPendingItem(id, 'approving', note);
+  if (!item) {
+    return null;
+  }
+
+  try {
+    return await finishApproval(id, await applyApproval(item, changes));
+  } catch (error) {
+    await finishApproval(id, null);
+    throw error;
+  }
+}
+
+/**
+ * Fix, convert and link the transaction of a claimed item, then write it to the ledger
+ */
+async function applyApproval(item: ReviewItem, changes: Omit<ReviewFix, 'note'>): Promise<ParsedTransaction> {
+  const fixed = Object.values(changes).some((value) => value !== undefined);
+  const transaction: ParsedTransaction = {
+    ...item.transaction,
+    category: changes.category ?? item.transaction.category,
+    merchant: changes.merchant ?? item.transaction.merchant,
+    amount: changes.amount ?? item.transaction.amount,
+    transaction_id: changes.transaction_id ?? item.transaction.transaction_id,
+    confidence: fixed ? 1 : item.transaction.confidence, // Human-fixed values are certain
+  };
+  if (changes.category) {
+    transaction.pending_classification = false;
+  }
+  if (changes.amount && needsExchangeRate(transaction) && transaction.original_amount) {
+    // The reviewer entered the converted amount
+    transaction.exchange_rate = Math.round((changes.amount / transaction.original_amount) * 10000) / 10000;
+  } else {
+    await convertToHomeCurrency(transaction);
+  }
+  // Writing it now would book the foreign amount as rupees
+  if (needsExchangeRate(transaction)) {
+    throw new ReviewStateError(`No ${transaction.currency} exchange rate yet - add the rate or approve with the converted amount`);
+  }
+
+  const recurring = await matchRecurringSeries(transaction);
+  if (recurring) {
+    transaction.recurring_id = recurring.series.id;
+  }
+  if (!transaction.transfer_id) {
+    await tagSelfTransfers([transaction]);
+  }
+  const refundLinks: RefundLink[] = transaction.refund_of ? [] : await linkRefunds([transaction]);
+  if (!transaction.settlement_of) {
+    await matchSettlements([transaction]);
+  }
+
+  // A previous approval may have written the row before failing to mark the item
+  // A failed store write stays in the outbox and is retried in the background
+  const alreadyWritten = await getTransactionStore().findByFingerprint(transaction.fingerprint)
+    || await findOutboxEntryByFingerprint(transaction.fingerprint);
+  if (!alreadyWritten) {
+    await writeThroughOutbox([transaction]);
+  }
+  await recordRefundLinks(refundLinks);
+  return transaction;
+}
+
+/**
+ * Discard a queued transaction - it never reaches the ledger
+ */
+export async function rejectReviewItem(id: string, note: string = ''): Promise<ReviewItem | null> {
+  return claimPendingItem(id, 'rejected', note);
+}
@@ -1,54 +1,213 @@
-import { google } from 'googleapis';
-import { ParsedTransaction } from './smsParser';
+import { getSheetsClient } from '../config/sheets';
+import { ParsedTransaction } from './geminiAgent';
+import { RUPEE_CURRENCY } from './currency';
+import { calendarDateToIstIso, formatReadableTimestamp, parseReadableTimestamp } from './dates';
+import type { Tenant } from './tenantContext';
+import type { TransactionStore } from './transactionStore';
 
-const SHEETS_ID = process.env.GOOGLE_SHEETS_ID;
-const CLIENT_EMAIL = process.env.GOOGLE_CLIENT_EMAIL;
-const PRIVATE_KEY = process.env.GOOGLE_PRIVATE_KEY?.replace(/\\n/g, '\n');
+const SHEET_NAME = 'Monthly Spending';
+const LAST_COLUMN = 'AC';
+const SHEET_RANGE = `${SHEET_NAME}!A:${LAST_COLUMN}`;
+const SHEET_DATA_RANGE = `${SHEET_NAME}!A2:${LAST_COLUMN}`; // Skip header row
+const APPEND_CHUNK_SIZE = 500; // Rows per append request during bulk writes
 
-if (!SHEETS_ID || !CLIENT_EMAIL || !PRIVATE_KEY) {
-  throw new Error('Missing required Google Sheets environment variables');
-}
-
-const auth = new google.auth.GoogleAuth({
-  credentials: {
-    client_email: CLIENT_EMAIL,
-    private_key: PRIVATE_KEY,
-  },
-  scopes: ['https://www.googleapis.com/auth/spreadsheets'],
-});
-
-const sheets = google.sheets({ version: 'v4', auth });
-
-export async function appendTransactionToSheet(
-  transaction: ParsedTransaction,
-  category: string
-): Promise<void> {
-  // Map your data to match the exact column order in your sheet
-  const row = [
+// Map your data to match the exact column order in your sheet
+function toRow(transaction: ParsedTransaction): (string | number)[] {
+  return [
     transaction.transaction_id,      // Column A: transaction_id
     transaction.transaction_date,    // Column B: transaction_date
     transaction.amount,               // Column C: amount
-    category,                         // Column D: category
+    transaction.category,             // Column D: category
     transaction.merchant,             // Column E: merchant
     transaction.account,              // Column F: account
     transaction.payment_method,       // Column G: payment_method
     transaction.direction,            // Column H: direction
-    transaction.created_at,           // Column I: created_at
+    formatReadableTimestamp(transaction.created_at), // Column I: created_at (IST)
     transaction.raw_message,          // Column J: message (raw SMS)
+    transaction.fingerprint,          // Column K: fingerprint (dedupe)
+    transaction.confidence,           // Column L: confidence
+    transaction.template,             // Column M: SMS template used to parse
+    transaction.recurring_id || '',   // Column N: recurring series (subscriptions, EMIs, ...)
+    transaction.pending_classification ? 'TRUE' : '', // Column O: waiting for the classification worker
+    transaction.balance_after ?? '',  // Column P: available balance reported after the transaction
+    transaction.transfer_id || '',    // Column Q: self-transfer pair (excluded from analytics)
+    transaction.currency,             // Column R: currency of the SMS amount
+    transaction.original_amount ?? '', // Column S: amount in that currency when converted
+    transaction.exchange_rate ?? '',  // Column T: rate used for the conversion
+    transaction.forex_fee ?? '',      // Column U: forex markup / cross-currency fee
+    formatReadableTimestamp(transaction.occurred_at), // Column V: when it happened (IST)
+    transaction.date_inferred ? 'TRUE' : '', // Column W: no date in the SMS, V is the receive time
+    transaction.refund_of || '',      // Column X: refund credit -> fingerprint of the original outflow
+    transaction.refunded_amount ?? '', // Column Y: outflow -> amount refunded so far
+    transaction.refund_status || '',  // Column Z: outflow -> partial / full
+    transaction.split_id || '',       // Column AA: outflow shared with contacts
+    transaction.shared_amount ?? '',  // Column AB: outflow -> the contacts' shares (receivable)
+    transaction.settlement_of || '',  // Column AC: inflow -> contact paying back
   ];
+}
+
+function fromRow(row: unknown[]): ParsedTransaction {
+  const cell = (index: number) => (row[index] ?? '').toString().trim();
 
+  return {
+    transaction_id: cell(0),
+    transaction_date: cell(1),
+    amount: parseFloat(cell(2).replace(/,/g, '')) || 0,
+    category: cell(3),
+    merchant: cell(4),
+    account: cell(5),
+    payment_method: cell(6),
+    direction: cell(7) === 'Inflow' ? 'Inflow' : 'Outflow',
+    created_at: parseReadableTimestamp(cell(8)) ?? cell(8),
+    raw_message: cell(9),
+    fingerprint: cell(10),
+    confidence: parseFloat(cell(11)) || 0,
+    template: cell(12),
+    recurring_id: cell(13) || undefined,
+    pending_classification: cell(14).toUpperCase() === 'TRUE' || undefined,
+    balance_after: cell(15) ? parseFloat(cell(15).replace(/,/g, '')) : undefined,
+    transfer_id: cell(16) || undefined,
+    currency: cell(17) || RUPEE_CURRENCY, // Rows from before currencies were tracked are rupees
+    original_amount: cell(18) ? parseFloat(cell(18).replace(/,/g, '')) : undefined,
+    exchange_rate: cell(19) ? parseFloat(cell(19)) : undefined,
+    forex_fee: cell(20) ? parseFloat(cell(20).replace(/,/g, '')) : undefined,
+    // Rows from before timestamps were tracked only have the date
+    occurred_at: parseReadableTimestamp(cell(21)) ?? calendarDateToIstIso(cell(1)) ?? '',
+    date_inferred: cell(22).toUpperCase() === 'TRUE',
+    refund_of: cell(23) || undefined,
+    refunded_amount: cell(24) ? parseFloat(cell(24).replace(/,/g, '')) : undefined,
+    refund_status: cell(25) === 'partial' || cell(25) === 'full' ? cell(25) as 'partial' | 'full' : undefined,
+    split_id: cell(26) || undefined,
+    shared_amount: cell(27) ? parseFloat(cell(27).replace(/,/g, '')) : undefined,
+    settlement_of: cell(28) || undefined,
+  };
+}
+
+async function appendRows(spreadsheetId: string, values: (string | number)[][]): Promise<void> {
   try {
-    await sheets.spreadsheets.values.append({
-      spreadsheetId: SHEETS_ID,
-      range: 'Monthly Spending!A:J', // Updated range to include message column
+    await getSheetsClient().spreadsheets.values.append({
+      spreadsheetId,
+      range: SHEET_RANGE,
       valueInputOption: 'USER_ENTERED', // Changed from RAW to handle dates/numbers better
       insertDataOption: 'INSERT_ROWS', // Ensures new rows are inserted
       requestBody: {
-        values: [row],
+        values,
       },
     });
-    
   } catch (error) {
     throw new Error(`Failed to write to Google Sheets: ${error instanceof Error ? error.message : 'Unknown error'}`);
   }
-}
\ No newline at end of file
+}
+
+/**
+ * Read all transaction rows along with their sheet row numbers (needed for updates)
+ */
+async function readRows(spreadsheetId: string): Promise<{ rowNumber: number; transaction: ParsedTransaction }[]> {
+  try {
+    const response = await getSheetsClient().spreadsheets.values.get({
+      spreadsheetId,
+      range: SHEET_DATA_RANGE,
+    });
+
+    return (response.data.values || [])
+      .map((row, index) => ({ rowNumber: index + 2, row }))
+      .filter(({ row }) => row.length > 0 && row[0])
+      .map(({ rowNumber, row }) => ({ rowNumber, transaction: fromRow(row) }));
+  } catch (error) {
+    throw new Error(`Failed to read from Google Sheets: ${error instanceof Error ? error.message : 'Unknown error'}`);
+  }
+}
+
+/**
+ * Google Sheets transaction store, writes to the "Monthly Spending" sheet of the tenant's spreadsheet
+ */
+export function createSheetsTransactionStore(tenant: Tenant): TransactionStore {
+  function spreadsheetId(): string {
+    if (!tenant.sheets_id) {
+      throw new Error(`Tenant "${tenant.id}" has no spreadsheet configured`);
+    }
+    return tenant.sheets_id;
+  }
+
+  return {
+    name: 'sheets',
+
+    async append(transaction) {
+      await appendRows(spreadsheetId(), [toRow(transaction)]);
+    },
+
+    async appendMany(transactions) {
+      for (let start = 0; start < transactions.length; start += APPEND_CHUNK_SIZE) {
+        await appendRows(spreadsheetId(), transactions.slice(start, start + APPEND_CHUNK_SIZE).map(toRow));
+      }
+    },
+
+    async list() {
+      const rows = await readRows(spreadsheetId());
+      return rows.map((row) => row.transaction);
+    },
+
+    async update(fingerprint, changes) {
+      const rows = await readRows(spreadsheetId());
+      const row = rows.find((candidate) => candidate.transaction.fingerprint === fingerprint);
+      if (!row) {
+        return null;
+      }
+
+      const updated: ParsedTransaction = { ...row.transaction, ...changes, fingerprint };
+      try {
+        await getSheetsClient().spreadsheets.values.update({
+          spreadsheetId: spreadsheetId(),
+          range: `${SHEET_NAME}!A${row.rowNumber}:${LAST_COLUMN}${row.rowNumber}`,
+          valueInputOption: 'USER_ENTERED',
+          requestBody: {
+            values: [toRow(updated)],
+          },
+        });
+      } catch (error) {
+        throw new Error(`Failed to update Google Sheets row: ${error instanceof Error ? error.message : 'Unknown error'}`);
+      }
+
+      return updated;
+    },
+
+    async updateMany(updates) {
+      if (updates.length === 0) {
+        return 0;
+      }
+
+      // One read and one batch write instead of a full-sheet read per row
+      const rows = new Map((await readRows(spreadsheetId())).map((row) => [row.transaction.fingerprint, row]));
+      const data = updates.flatMap(({ fingerprint, changes }) => {
+        const row = rows.get(fingerprint);
+        if (!row) {
+          return [];
+        }
+        row.transaction = { ...row.transaction, ...changes, fingerprint };
+        return [{ range: `${SHEET_NAME}!A${row.rowNumber}:${LAST_COLUMN}${row.rowNumber}`, values: [toRow(row.transaction)] }];
+      });
+      if (data.length === 0) {
+        return 0;
+      }
+
+      try {
+        await getSheetsClient().spreadsheets.values.batchUpdate({
+          spreadsheetId: spreadsheetId(),
+          requestBody: {
+            valueInputOption: 'USER_ENTERED',
+            data,
+          },
+        });
+      } catch (error) {
+        throw new Error(`Failed to update Google Sheets rows: ${error instanceof Error ? error.message : 'Unknown error'}`);
+      }
+
+      return new Set(data.map((entry) => entry.range)).size;
+    },
+
+    async findByFingerprint(fingerprint) {
+      const transactions = await this.list();
+      return transactions.find((transaction) => transaction.fingerprint === fingerprint) || null;
+    },
+  };
+}
@@ -0,0 +1,315 @@
+import { fingerprintMessage, MessageSummary, parseTransactionBatch, ParsedTransaction, SmsContext, summarizeMessage } from './geminiAgent';
+import { recordBillReminder } from './billReminders';
+import { BalanceObservation, recordBalance } from './balances';
+import { classifyMessageType, isMoneyMovement, MessageType } from './messageType';
+import { rememberTransaction } from './dedupe';
+import { enqueueForReview, listReviewItems, ReviewSource, reviewReasons } from './reviewQueue';
+import { listOutboxEntries, writeThroughOutbox } from './outbox';
+import { getTransactionStore } from './transactionStore';
+import { tagSelfTransfers } from './transfers';
+import { linkRefunds, recordRefundLinks, RefundLink } from './refunds';
+import { matchSettlements } from './splits';
+import { recordCardStatement, recordCardTransaction } from './creditCards';
+
+export interface SmsRecord {
+  message: string;
+  sender?: string;
+  receivedAt?: Date;
+  incoming?: boolean;
+}
+
+export type ImportStatus = 'imported' | 'queued' | 'skipped' | 'failed';
+
+export interface ImportResult {
+  index: number;
+  status: ImportStatus;
+  reason?: string;
+  transaction_id?: string;
+  matched_transaction_id?: string;
+  review_id?: string;
+  message_type?: MessageType;   // Set for messages skipped as not_a_transaction
+}
+
+export interface ImportReport {
+  summary: Record<ImportStatus, number> & { total: number };
+  results: ImportResult[];
+}
+
+export function buildImportReport(results: ImportResult[], total: number): ImportReport {
+  const summary = { total, imported: 0, queued: 0, skipped: 0, failed: 0 };
+  results.forEach((result) => {
+    summary[result.status]++;
+  });
+
+  return { summary, results };
+}
+
+/**
+ * Reconcile balances from an import oldest first - backups are often exported newest first
+ * The imported transactions are not written yet, so they are passed along as movements between balances
+ */
+async function reconcileImportedBalances(observations: BalanceObservation[], imported: ParsedTransaction[]): Promise<void> {
+  const ordered = [...observations].sort((a, b) => a.observed_at.getTime() - b.observed_at.getTime());
+  for (const observation of ordered) {
+    try {
+      const gap = await recordBalance(observation, imported);
+      if (gap) {
+        console.warn(`Balance gap on ${gap.account}: expected ${gap.expected_balance}, bank reported ${gap.reported_balance}`);
+      }
+    } catch (error) {
+      console.error('Failed to record imported balance:', error);
+    }
+  }
+}
+
+/**
+ * Apply card statements and card activity oldest first, so each statement starts its cycle in order
+ */
+async function reconcileImportedCards(events: { observed_at: Date; apply: () => Promise<unknown> }[]): Promise<void> {
+  const ordered = [...events].sort((a, b) => a.observed_at.getTime() - b.observed_at.getTime());
+  for (const event of ordered) {
+    try {
+      await event.apply();
+    } catch (error) {
+      console.error('Failed to record imported credit card activity:', error);
+    }
+  }
+}
+
+/**
+ * Write parsed import rows: confident ones to the ledger in one bulk append (via the outbox),
+ * doubtful ones to the review queue (see reviewReasons)
+ */
+export async function writeImportedTransactions(
+  items: { index: number; transaction: ParsedTransaction }[],
+  results: ImportResult[],
+  source: ReviewSource
+): Promise<void> {
+  const ledger = items.filter(({ transaction }) => reviewReasons(transaction).length === 0);
+  const review = items.filter(({ transaction }) => reviewReasons(transaction).length > 0);
+
+  const write = async (batch: typeof items, task: () => Promise<void>) => {
+    try {
+      await task();
+    } catch (error) {
+      const reason = error instanceof Error ? error.message : 'Failed to write transactions';
+      batch.forEach(({ index }) => {
+        results[index] = { index, status: 'failed', reason };
+      });
+    }
+  };
+
+  await write(ledger, async () => {
+    if (ledger.length === 0) {
+      return;
+    }
+    // Pair legs of transfers between own accounts, within the batch and against the ledger
+    try {
+      await tagSelfTransfers(ledger.map(({ transaction }) => transaction));
+    } catch (error) {
+      console.error('Self-transfer matching failed during import:', error);
+    }
+    let refundLinks: RefundLink[] = [];
+    try {
+      refundLinks = await linkRefunds(ledger.map(({ transaction }) => transaction));
+    } catch (error) {
+      console.error('Refund linking failed during import:', error);
+    }
+    try {
+      await matchSettlements(ledger.map(({ transaction }) => transaction));
+    } catch (error) {
+      console.error('Settlement matching failed during import:', error);
+    }
+
+    // Rows the store rejects stay in the outbox and are retried in the background
+    const outbox = await writeThroughOutbox(ledger.map(({ transaction }) => transaction));
+    try {
+      await recordRefundLinks(refundLinks);
+    } catch (error) {
+      console.error('Refund linking failed during import:', error);
+    }
+    ledger.forEach(({ index, transaction }) => {
+      rememberTransaction(transaction);
+      results[index] = outbox.delivered
+        ? { index, status: 'imported', transaction_id: transaction.transaction_id }
+        : { index, status: 'imported', transaction_id: transaction.transaction_id, reason: 'store_write_deferred' };
+    });
+  });
+
+  await write(review, async () => {
+    const queued = await enqueueForReview(review.map(({ transaction }) => transaction), source);
+    review.forEach(({ index, transaction }, position) => {
+      rememberTransaction(transaction);
+      results[index] = { index, status: 'queued', transaction_id: transaction.transaction_id, review_id: queued[position]!.id };
+    });
+  });
+}
+
+/**
+ * Fingerprints already in the ledger, the review queue or the outbox
+ */
+export async function knownFingerprints(existing: ParsedTransaction[]): Promise<Set<string>> {
+  const queued = await listReviewItems();
+  const outbox = await listOutboxEntries();
+  return new Set([
+    ...existing.map((transaction) => transaction.fingerprint),
+    ...queued.map((item) => item.transaction.fingerprint),
+    ...outbox.map((entry) => entry.transaction.fingerprint),
+  ]);
+}
+
+function decodeXmlEntities(value: string): string {
+  return value
+    .replace(/&#x([0-9a-f]+);/gi, (_, hex: string) => String.fromCodePoint(parseInt(hex, 16)))
+    .replace(/&#(\d+);/g, (_, dec: string) => String.fromCodePoint(parseInt(dec, 10)))
+    .replace(/&quot;/g, '"')
+    .replace(/&apos;/g, "'")
+    .replace(/&lt;/g, '<')
+    .replace(/&gt;/g, '>')
+    .replace(/&amp;/g, '&');
+}
+
+function toDate(value: unknown): Date | undefined {
+  if (value === undefined || value === null || value === '') {
+    return undefined;
+  }
+
+  // Backup apps store epoch milliseconds, JSON callers may send ISO strings
+  const date = typeof value === 'number' || /^\d+$/.test(String(value))
+    ? new Date(Number(value))
+    : new Date(String(value));
+
+  return isNaN(date.getTime()) ? undefined : date;
+}
+
+/**
+ * Parse the XML export of "SMS Backup & Restore" style Android apps
+ * e.g. <smses><sms address="AD-HDFCBK" body="..." date="1705500000000" type="1" /></smses>
+ */
+export function parseSmsBackupXml(xml: string): SmsRecord[] {
+  const records: SmsRecord[] = [];
+  const smsTagPattern = /<sms\s([^>]*?)\/?>/g;
+  const attributePattern = /([\w:-]+)="([^"]*)"/g;
+
+  for (const tag of xml.matchAll(smsTagPattern)) {
+    const attributes: Record<string, string> = {};
+    for (const attribute of (tag[1] || '').matchAll(attributePattern)) {
+      attributes[attribute[1]!] = decodeXmlEntities(attribute[2] || '');
+    }
+
+    records.push({
+      message: attributes.body || '',
+      sender: attributes.address || undefined,
+      receivedAt: toDate(attributes.date),
+      incoming: attributes.type === undefined || attributes.type === '1', // 1 = inbox, 2 = sent
+    });
+  }
+
+  return records;
+}
+
+/**
+ * Parse a JSON import payload
+ * Accepts an array of strings, or of { message | body, sender | address, date | receivedAt }
+ */
+export function parseSmsBackupJson(payload: unknown): SmsRecord[] {
+  if (!Array.isArray(payload)) {
+    throw new Error('Expected a JSON array of messages');
+  }
+
+  return payload.map((item) => {
+    if (typeof item === 'string') {
+      return { message: item };
+    }
+
+    const entry = (item || {}) as Record<string, unknown>;
+    return {
+      message: String(entry.message ?? entry.body ?? ''),
+      sender: (entry.sender ?? entry.address) as string | undefined,
+      receivedAt: toDate(entry.receivedAt ?? entry.date),
+    };
+  });
+}
+
+/**
+ * Import a batch of SMS records
+ *
+ * - Outgoing SMS, non-transactions and duplicates are skipped
+ * - Gemini fallback classification is batched (see parseTransactionBatch)
+ * - New transactions are bulk-written to the store, doubtful ones go to the review queue
+ */
+export async function importSmsRecords(records: SmsRecord[]): Promise<ImportReport> {
+  const store = getTransactionStore();
+  const results: ImportResult[] = [];
+  const toParse: { index: number; message: string; context: SmsContext }[] = [];
+  const reminders: { message: string; summary: MessageSummary }[] = [];
+  const balances: BalanceObservation[] = [];
+  const cardEvents: Parameters<typeof reconcileImportedCards>[0] = [];
+
+  const seenFingerprints = await knownFingerprints(await store.list());
+
+  records.forEach((record, index) => {
+    const message = record.message.trim();
+
+    if (!message) {
+      results[index] = { index, status: 'failed', reason: 'Message is required' };
+      return;
+    }
+    if (record.incoming === false) {
+      results[index] = { index, status: 'skipped', reason: 'outgoing_message' };
+      return;
+    }
+    const messageType = classifyMessageType(message);
+    if (!isMoneyMovement(messageType)) {
+      results[index] = { index, status: 'skipped', reason: 'not_a_transaction', message_type: messageType };
+      const summary = summarizeMessage(message, { sender: record.sender });
+      if (messageType === 'bill_due') {
+        reminders.push({ message, summary });
+        const observedAt = record.receivedAt || new Date();
+        cardEvents.push({ observed_at: observedAt, apply: () => recordCardStatement(message, summary, observedAt) });
+      }
+      if (messageType === 'balance_alert' && summary.account && summary.balance !== null) {
+        balances.push({ account: summary.account, balance: summary.balance, observed_at: record.receivedAt || new Date() });
+      }
+      return;
+    }
+
+    const context: SmsContext = { sender: record.sender, receivedAt: record.receivedAt };
+    const fingerprint = fingerprintMessage(message, context);
+    if (seenFingerprints.has(fingerprint)) {
+      results[index] = { index, status: 'skipped', reason: 'duplicate' };
+      return;
+    }
+
+    seenFingerprints.add(fingerprint);
+    toParse.push({ index, message, context });
+  });
+
+  for (const { message, summary } of reminders) {
+    await recordBillReminder(message, summary);
+  }
+
+  const transactions = await parseTransactionBatch(toParse);
+  transactions.forEach((transaction, position) => {
+    const occurredAt = new Date(transaction.occurred_at);
+    cardEvents.push({ observed_at: occurredAt, apply: () => recordCardTransaction(transaction, occurredAt) });
+    if (transaction.balance_after !== undefined) {
+      balances.push({
+        account: transaction.account,
+        balance: transaction.balance_after,
+        observed_at: new Date(transaction.occurred_at),
+        transaction,
+      });
+    }
+  });
+  await reconcileImportedBalances(balances, transactions);
+  await reconcileImportedCards(cardEvents);
+
+  await writeImportedTransactions(
+    transactions.map((transaction, position) => ({ index: toParse[position]!.index, transaction })),
+    results,
+    'sms_import'
+  );
+
+  return buildImportReport(results, records.length);
+}
@@ -0,0 +1,305 @@
+import { randomUUID } from 'crypto';
+import { z } from 'zod';
+import type { ParsedTransaction } from './geminiAgent';
+import { createTenantJsonFile } from './jsonFile';
+import { normalizeForMatch } from './merchantRules';
+import { findTransaction } from './transactionQuery';
+import { getTransactionStore } from './transactionStore';
+
+/**
+ * Shared expenses
+ *
+ * A split divides an outflow between the user and contacts: the user's share stays
+ * in the expense's category, the contacts' shares are receivables. Contacts pay back
+ * over UPI - incoming credits from a known contact settle what they owe.
+ */
+
+export interface Contact {
+  id: string;
+  name: string;
+  vpas: string[];       // UPI IDs the contact pays from, lowercase
+  created_at: string;
+}
+
+export interface SplitShare {
+  contact_id: string;
+  amount: number;
+}
+
+export interface Split {
+  id: string;
+  fingerprint: string;        // Of the split transaction
+  transaction_id: string;
+  total: number;
+  my_share: number;
+  shares: SplitShare[];
+  note: string;
+  created_at: string;
+}
+
+export interface Settlement {
+  id: string;
+  contact_id: string;
+  amount: number;
+  source: 'upi' | 'manual';
+  fingerprint: string | null; // Of the incoming credit, null for manual settlements
+  note: string;
+  settled_at: string;
+}
+
+export interface ContactBalance {
+  contact_id: string;
+  name: string;
+  shared: number;             // Total of the contact's shares
+  settled: number;            // Total paid back
+  owed: number;               // shared - settled: > 0 they owe the user, < 0 the user owes them
+}
+
+interface SplitsFile {
+  contacts: Contact[];
+  splits: Split[];
+  settlements: Settlement[];
+}
+
+const file = createTenantJsonFile<SplitsFile>('splits.json', () => ({ contacts: [], splits: [], settlements: [] }));
+
+export const contactInputSchema = z.object({
+  name: z.string().trim().min(1),
+  vpas: z.array(z.string().trim().toLowerCase().regex(/^[a-z0-9._-]+@[a-z0-9.-]+$/, 'VPA must look like name@handle')).default([]),
+});
+
+const shareInputSchema = z.object({
+  contact_id: z.string().min(1),
+  amount: z.number().positive().optional(),
+  percent: z.number().positive().max(100).optional(),
+}).refine((share) => (share.amount === undefined) !== (share.percent === undefined), 'Give either amount or percent');
+
+export const splitInputSchema = z.object({
+  shares: z.array(shareInputSchema).min(1),
+  note: z.string().default(''),
+});
+
+export const settlementInputSchema = z.object({
+  amount: z.number().positive(),
+  note: z.string().default(''),
+});
+
+export type ContactInput = z.infer<typeof contactInputSchema>;
+export type SplitInput = z.infer<typeof splitInputSchema>;
+export type SettlementInput = z.infer<typeof settlementInputSchema>;
+
+export class SplitError extends Error {}
+export class SplitConflictError extends Error {}
+
+function roundMoney(value: number): number {
+  return Math.round(value * 100) / 100;
+}
+
+function balanceOf(data: SplitsFile, contact: Contact): ContactBalance {
+  const shared = data.splits
+    .flatMap((split) => split.shares)
+    .filter((share) => share.contact_id === contact.id)
+    .reduce((sum, share) => sum + share.amount, 0);
+  const settled = data.settlements
+    .filter((settlement) => settlement.contact_id === contact.id)
+    .reduce((sum, settlement) => sum + settlement.amount, 0);
+
+  return {
+    contact_id: contact.id,
+    name: contact.name,
+    shared: roundMoney(shared),
+    settled: roundMoney(settled),
+    owed: roundMoney(shared - settled),
+  };
+}
+
+export async function listContacts(): Promise<Contact[]> {
+  const data = await file.read();
+  return [...data.contacts];
+}
+
+export async function addContact(input: ContactInput): Promise<Contact> {
+  return file.update((data) => {
+    if (data.contacts.some((contact) => contact.name.toLowerCase() === input.name.toLowerCase())) {
+      throw new SplitConflictError(`Contact "${input.name}" already exists`);
+    }
+    const taken = input.vpas.find((vpa) => data.contacts.some((contact) => contact.vpas.includes(vpa)));
+    if (taken) {
+      throw new SplitConflictError(`VPA "${taken}" already belongs to another contact`);
+    }
+
+    const contact: Contact = { id: randomUUID(), name: input.name, vpas: [...new Set(input.vpas)], created_at: new Date().toISOString() };
+    data.contacts.push(contact);
+    return { ...contact };
+  });
+}
+
+/**
+ * Running balance per contact, largest amount owed first
+ */
+export async function listContactBalances(): Promise<ContactBalance[]> {
+  const data = await file.read();
+  return data.contacts
+    .map((contact) => balanceOf(data, contact))
+    .sort((a, b) => b.owed - a.owed);
+}
+
+export async function listSplits(): Promise<Split[]> {
+  const data = await file.read();
+  return [...data.splits];
+}
+
+/**
+ * Split a ledger outflow between the user and contacts (by amount or percent of the total)
+ * The user's share is whatever the contacts' shares leave
+ * Returns null when the transaction does not exist
+ */
+export async function splitTransaction(id: string, input: SplitInput): Promise<Split | null> {
+  const store = getTransactionStore();
+  const transaction = findTransaction(await store.list(), id);
+  if (!transaction) {
+    return null;
+  }
+  if (transaction.direction !== 'Outflow') {
+    throw new SplitError('Only outflows can be split');
+  }
+
+  const split = await file.update((data) => {
+    if (data.splits.some((existing) => existing.fingerprint === transaction.fingerprint)) {
+      throw new SplitConflictError(`Transaction ${transaction.transaction_id} is already split`);
+    }
+
+    const shares = input.shares.map((share) => {
+      if (!data.contacts.some((contact) => contact.id === share.contact_id)) {
+        throw new SplitError(`Unknown contact "${share.contact_id}"`);
+      }
+      return {
+        contact_id: share.contact_id,
+        amount: roundMoney(share.amount ?? (transaction.amount * share.percent!) / 100),
+      };
+    });
+    if (new Set(shares.map((share) => share.contact_id)).size !== shares.length) {
+      throw new SplitError('Each contact can only have one share');
+    }
+
+    const othersTotal = roundMoney(shares.reduce((sum, share) => sum + share.amount, 0));
+    if (othersTotal > transaction.amount) {
+      throw new SplitError(`Shares (${othersTotal}) exceed the transaction amount (${transaction.amount})`);
+    }
+
+    const created: Split = {
+      id: randomUUID(),
+      fingerprint: transaction.fingerprint,
+      transaction_id: transaction.transaction_id,
+      total: transaction.amount,
+      my_share: roundMoney(transaction.amount - othersTotal),
+      shares,
+      note: input.note,
+      created_at: new Date().toISOString(),
+    };
+    data.splits.push(created);
+    return created;
+  });
+
+  await store.update(transaction.fingerprint, { split_id: split.id, shared_amount: roundMoney(split.total - split.my_share) });
+  return { ...split };
+}
+
+/**
+ * Undo a split - the whole amount is the user's again
+ * Returns false when the split does not exist
+ */
+export async function removeSplit(id: string): Promise<boolean> {
+  const removed = await file.update((data) => {
+    const split = data.splits.find((candidate) => candidate.id === id);
+    data.splits = data.splits.filter((candidate) => candidate.id !== id);
+    return split ?? null;
+  });
+  if (!removed) {
+    return false;
+  }
+
+  await getTransactionStore().update(removed.fingerprint, { split_id: undefined, shared_amount: undefined });
+  return true;
+}
+
+/**
+ * Record a repayment made outside UPI (cash, another app, ...)
+ * Returns null when the contact does not exist
+ */
+export async function recordSettlement(contactId: string, input: SettlementInput): Promise<Settlement | null> {
+  return file.update((data) => {
+    if (!data.contacts.some((contact) => contact.id === contactId)) {
+      return null;
+    }
+
+    const settlement: Settlement = {
+      id: randomUUID(),
+      contact_id: contactId,
+      amount: input.amount,
+      source: 'manual',
+      fingerprint: null,
+      note: input.note,
+      settled_at: new Date().toISOString(),
+    };
+    data.settlements.push(settlement);
+    return { ...settlement };
+  });
+}
+
+/**
+ * The contact an incoming credit is from: one of their VPAs or their name appears in the SMS
+ */
+function payerOf(transaction: ParsedTransaction, contacts: Contact[]): Contact | null {
+  const text = transaction.raw_message.toLowerCase();
+  const normalized = normalizeForMatch(transaction.raw_message);
+
+  return contacts.find((contact) => contact.vpas.some((vpa) => text.includes(vpa)))
+    ?? contacts.find((contact) => {
+      const name = normalizeForMatch(contact.name);
+      return name.length >= 3 && normalized.includes(name);
+    })
+    ?? null;
+}
+
+/**
+ * Treat new incoming credits (not yet written) from contacts as repayments
+ * A credit only settles up to what the contact owes - anything larger is left alone
+ * Matched credits get settlement_of (the contact id) in place
+ */
+export async function matchSettlements(transactions: ParsedTransaction[]): Promise<Settlement[]> {
+  const credits = transactions.filter((transaction) => transaction.direction === 'Inflow'
+    && !transaction.settlement_of && !transaction.refund_of && !transaction.transfer_id);
+  if (credits.length === 0) {
+    return [];
+  }
+
+  return file.update((data) => {
+    const settlements: Settlement[] = [];
+
+    for (const credit of credits) {
+      const contact = payerOf(credit, data.contacts);
+      if (!contact || data.settlements.some((settlement) => settlement.fingerprint === credit.fingerprint)) {
+        continue;
+      }
+      if (credit.amount - balanceOf(data, contact).owed >= 0.01) {
+        continue;
+      }
+
+      const settlement: Settlement = {
+        id: randomUUID(),
+        contact_id: contact.id,
+        amount: credit.amount,
+        source: 'upi',
+        fingerprint: credit.fingerprint,
+        note: '',
+        settled_at: new Date().toISOString(),
+      };
+      data.settlements.push(settlement);
+      credit.settlement_of = contact.id;
+      settlements.push({ ...settlement });
+    }
+
+    return settlements;
+  });
+}
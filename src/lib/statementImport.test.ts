@@ -0,0 +1,36 @@
+import { asNewTenant, makeTransaction } from './testing';
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+import { enqueueForReview } from './reviewQueue';
+import { importStatement } from './statementImport';
+import { getTransactionStore } from './transactionStore';
+
+const options = { format: 'csv' as const, bank: 'hdfc', account: 'HDFC Bank XX1234' };
+
+function statement(...rows: string[]): string {
+  return ['Date,Narration,Chq./Ref.No.,Withdrawal Amt.,Deposit Amt.', ...rows].join('\n');
+}
+
+test('two identical rows are both imported, and only once', () => asNewTenant(async () => {
+  const csv = statement('05/02/26,ATM WDL MG ROAD,,2000.00,', '05/02/26,ATM WDL MG ROAD,,2000.00,');
+
+  const first = await importStatement(csv, options);
+  assert.equal(first.summary.imported + first.summary.queued, 2);
+
+  const again = await importStatement(csv, options);
+  assert.equal(again.summary.skipped, 2);
+}));
+
+test('a row matching an SMS transaction in the ledger is skipped', () => asNewTenant(async () => {
+  await getTransactionStore().append(makeTransaction({ amount: 450, transaction_date: '05 Feb 2026' }));
+
+  const report = await importStatement(statement('05/02/26,UPI-SWIGGY-swiggy@icici,503612345678,450.00,'), options);
+  assert.equal(report.results[0]?.reason, 'matched_sms');
+}));
+
+test('a row matching an SMS transaction still waiting for review is skipped', () => asNewTenant(async () => {
+  await enqueueForReview([makeTransaction({ amount: 450, transaction_date: '05 Feb 2026', confidence: 0.3 })], 'sms');
+
+  const report = await importStatement(statement('05/02/26,UPI-SWIGGY-swiggy@icici,503612345678,450.00,'), options);
+  assert.equal(report.results[0]?.reason, 'matched_sms');
+}));
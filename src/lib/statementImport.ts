@@ -0,0 +1,430 @@
+import { z } from 'zod';
+import { categorizeExtractedBatch, ExtractedDetails, extractSmsRawMerchant, ParsedTransaction } from './geminiAgent';
+import { computeFingerprint } from './dedupe';
+import { daysBetween, formatReadableDate, istInstant, parseCalendarDate, toIstIsoString } from './dates';
+import { listOutboxEntries } from './outbox';
+import { listReviewItems } from './reviewQueue';
+import { getTransactionStore } from './transactionStore';
+import { buildImportReport, ImportReport, ImportResult, knownFingerprints, writeImportedTransactions } from './smsImport';
+
+export type StatementFormat = 'csv' | 'ofx';
+
+export const STATEMENT_TEMPLATE_PREFIX = 'statement-';
+
+// Bank posting dates can lag the SMS by a couple of days
+const RECONCILE_WINDOW_DAYS = 2;
+
+export const csvColumnMappingSchema = z.object({
+  date: z.string().min(1),
+  description: z.string().min(1),
+  debit: z.string().min(1).optional(),
+  credit: z.string().min(1).optional(),
+  amount: z.string().min(1).optional(),     // Single signed column, negative = outflow
+  type: z.string().min(1).optional(),       // Column holding DR / CR when amount is unsigned
+  reference: z.string().min(1).optional(),
+}).refine((mapping) => mapping.amount || (mapping.debit && mapping.credit), {
+  message: 'Mapping needs either an amount column or both debit and credit columns',
+});
+
+export type CsvColumnMapping = z.infer<typeof csvColumnMappingSchema>;
+
+/**
+ * Column mappings for the CSV statement exports of supported banks
+ */
+export const CSV_MAPPINGS: Record<string, CsvColumnMapping> = {
+  hdfc: { date: 'Date', description: 'Narration', reference: 'Chq./Ref.No.', debit: 'Withdrawal Amt.', credit: 'Deposit Amt.' },
+  sbi: { date: 'Txn Date', description: 'Description', reference: 'Ref No./Cheque No.', debit: 'Debit', credit: 'Credit' },
+  icici: { date: 'Transaction Date', description: 'Transaction Remarks', reference: 'Cheque Number', debit: 'Withdrawal Amount (INR )', credit: 'Deposit Amount (INR )' },
+  federal: { date: 'Date', description: 'Particulars', reference: 'Tran Id', debit: 'Withdrawals', credit: 'Deposits' },
+  generic: { date: 'Date', description: 'Description', amount: 'Amount', type: 'Type', reference: 'Reference' },
+};
+
+export interface StatementImportOptions {
+  format: StatementFormat;
+  account?: string;
+  bank?: string;
+  mapping?: CsvColumnMapping;
+}
+
+interface StatementEntry {
+  date: Date;
+  description: string;
+  amount: number;
+  direction: 'Inflow' | 'Outflow';
+  reference?: string;
+  payee?: string;
+  account: string;
+}
+
+const NARRATION_KEYWORDS = new Set([
+  'UPI', 'IMPS', 'NEFT', 'RTGS', 'ACH', 'NACH', 'POS', 'ATM', 'DR', 'CR', 'P2M', 'P2A', 'PAYMENT', 'TRANSFER', 'INB', 'MB', 'BIL', 'ONL',
+]);
+
+/**
+ * Split CSV text into rows (RFC 4180 quoting, CRLF or LF line endings)
+ */
+function parseCsv(text: string): string[][] {
+  const rows: string[][] = [];
+  let row: string[] = [];
+  let field = '';
+  let inQuotes = false;
+
+  for (let i = 0; i < text.length; i++) {
+    const char = text[i];
+
+    if (inQuotes) {
+      if (char === '"' && text[i + 1] === '"') {
+        field += '"';
+        i++;
+      } else if (char === '"') {
+        inQuotes = false;
+      } else {
+        field += char;
+      }
+    } else if (char === '"') {
+      inQuotes = true;
+    } else if (char === ',') {
+      row.push(field);
+      field = '';
+    } else if (char === '\n' || char === '\r') {
+      if (char === '\r' && text[i + 1] === '\n') {
+        i++;
+      }
+      row.push(field);
+      rows.push(row);
+      row = [];
+      field = '';
+    } else {
+      field += char;
+    }
+  }
+
+  if (field || row.length > 0) {
+    row.push(field);
+    rows.push(row);
+  }
+
+  return rows.filter((cells) => cells.some((cell) => cell.trim() !== ''));
+}
+
+function normalizeHeader(header: string): string {
+  return header.toLowerCase().replace(/\s+/g, ' ').trim();
+}
+
+/**
+ * Parse an amount cell: "1,234.50", "₹ 1,234.50", "(1,234.50)", "1,234.50 Dr"
+ * Returns a signed number (negative = outflow), or null for empty cells
+ */
+function parseAmountCell(value: string | undefined): number | null {
+  const cell = (value || '').trim();
+  if (!cell || cell === '-') {
+    return null;
+  }
+
+  const negative = /^\(.*\)$/.test(cell) || /^-/.test(cell) || /\bDr\.?$/i.test(cell);
+  const amount = parseFloat(cell.replace(/[^0-9.]/g, ''));
+
+  if (isNaN(amount)) {
+    return null;
+  }
+  return negative ? -amount : amount;
+}
+
+function parseCsvStatement(content: string, mapping: CsvColumnMapping, account: string): StatementEntry[] {
+  const rows = parseCsv(content);
+
+  // Exports often start with account details - find the real header row
+  const headerIndex = rows.findIndex((cells) => {
+    const headers = cells.map(normalizeHeader);
+    return headers.includes(normalizeHeader(mapping.date)) && headers.includes(normalizeHeader(mapping.description));
+  });
+
+  if (headerIndex === -1) {
+    throw new Error(`Header row with "${mapping.date}" and "${mapping.description}" columns not found`);
+  }
+
+  const headers = rows[headerIndex]!.map(normalizeHeader);
+  const column = (name?: string) => (name ? headers.indexOf(normalizeHeader(name)) : -1);
+  const columns = {
+    date: column(mapping.date),
+    description: column(mapping.description),
+    debit: column(mapping.debit),
+    credit: column(mapping.credit),
+    amount: column(mapping.amount),
+    type: column(mapping.type),
+    reference: column(mapping.reference),
+  };
+
+  const entries: StatementEntry[] = [];
+
+  for (const cells of rows.slice(headerIndex + 1)) {
+    const cell = (index: number) => (index >= 0 ? (cells[index] || '').trim() : '');
+    const date = parseCalendarDate(cell(columns.date));
+
+    // Footer rows (totals, closing balance) carry no date
+    if (!date) {
+      continue;
+    }
+
+    let signed: number | null;
+    if (columns.amount >= 0) {
+      signed = parseAmountCell(cell(columns.amount));
+      if (signed !== null && /^(?:DR|DEBIT|D)$/i.test(cell(columns.type))) {
+        signed = -Math.abs(signed);
+      }
+    } else {
+      const debit = parseAmountCell(cell(columns.debit));
+      const credit = parseAmountCell(cell(columns.credit));
+      signed = debit ? -Math.abs(debit) : credit ? Math.abs(credit) : null;
+    }
+
+    if (!signed) {
+      continue;
+    }
+
+    entries.push({
+      date,
+      description: cell(columns.description),
+      amount: Math.abs(signed),
+      direction: signed < 0 ? 'Outflow' : 'Inflow',
+      reference: cell(columns.reference) || undefined,
+      account,
+    });
+  }
+
+  return entries;
+}
+
+/**
+ * Parse OFX / QFX (SGML or XML flavour) statement transactions
+ */
+function parseOfxStatement(content: string, account: string, bank?: string): StatementEntry[] {
+  const tag = (block: string, name: string) => block.match(new RegExp(`<${name}>([^<\\r\\n]*)`, 'i'))?.[1]?.trim() || '';
+
+  // Fall back to the statement's own account number when none was supplied
+  const acctId = tag(content, 'ACCTID');
+  const statementAccount = account !== 'Unknown' || !acctId
+    ? account
+    : `${bank || tag(content, 'ORG') || 'Unknown'} XX${acctId.slice(-4)}`;
+
+  const entries: StatementEntry[] = [];
+
+  for (const block of content.split(/<STMTTRN>/i).slice(1)) {
+    const date = parseCalendarDate(tag(block, 'DTPOSTED'));
+    const signed = parseFloat(tag(block, 'TRNAMT'));
+
+    if (!date || isNaN(signed) || signed === 0) {
+      continue;
+    }
+
+    const name = tag(block, 'NAME');
+    const memo = tag(block, 'MEMO');
+
+    entries.push({
+      date,
+      description: [name, memo].filter(Boolean).join(' '),
+      amount: Math.abs(signed),
+      direction: signed < 0 ? 'Outflow' : 'Inflow',
+      reference: tag(block, 'FITID') || tag(block, 'REFNUM') || undefined,
+      payee: name || undefined,
+      account: statementAccount,
+    });
+  }
+
+  return entries;
+}
+
+/**
+ * Pull a merchant out of a bank narration
+ * e.g. "UPI-SWIGGY-swiggy@axisbank-UTIB0000-601234567890-Payment" -> "SWIGGY"
+ *      "UPI/DR/601234567890/RAHUL KUMAR/SBIN/rahul@oksbi" -> "RAHUL KUMAR"
+ */
+export function extractNarrationMerchant(description: string): string {
+  const segments = description.split(/[-\/]/).map((segment) => segment.trim()).filter(Boolean);
+
+  if (segments.length > 1 && NARRATION_KEYWORDS.has(segments[0]!.toUpperCase())) {
+    const merchant = segments.slice(1).find((segment) =>
+      /[A-Za-z]{2,}/.test(segment)
+      && !NARRATION_KEYWORDS.has(segment.toUpperCase())
+      && !/^[A-Z]{4}0[A-Z0-9]{6}$/i.test(segment) // IFSC codes
+    );
+    if (merchant) {
+      return merchant;
+    }
+  }
+
+  return description || 'Unknown';
+}
+
+/**
+ * Raw merchant the rule step saw when a stored transaction was ingested
+ */
+export function rawMerchantOf(transaction: ParsedTransaction): string {
+  return transaction.template.startsWith(STATEMENT_TEMPLATE_PREFIX)
+    ? extractNarrationMerchant(transaction.raw_message)
+    : extractSmsRawMerchant(transaction.raw_message);
+}
+
+function extractNarrationPaymentMethod(description: string): string {
+  const prefix = description.trim().split(/[-\/\s]/)[0]?.toUpperCase() || '';
+
+  if (['UPI', 'IMPS', 'NEFT', 'RTGS'].includes(prefix)) {
+    return prefix;
+  }
+  if (['ACH', 'NACH', 'ECS', 'SI'].includes(prefix)) {
+    return 'Auto Debit';
+  }
+  if (['POS', 'ATM'].includes(prefix)) {
+    return 'Card';
+  }
+  return 'Bank Transfer';
+}
+
+function toDetails(entry: StatementEntry, format: StatementFormat): ExtractedDetails {
+  const transactionDate = formatReadableDate(entry.date);
+  const narrationRef = entry.description.match(/\b(\d{10,})\b/)?.[1];
+
+  return {
+    amount: entry.amount,
+    direction: entry.direction,
+    transactionId: entry.reference || narrationRef || `STM${entry.date.getTime().toString().slice(-8)}`,
+    transactionDate,
+    occurredAt: toIstIsoString(istInstant(entry.date)), // Statements only give the posting day
+    dateInferred: false,
+    account: entry.account,
+    paymentMethod: extractNarrationPaymentMethod(entry.description),
+    rawMerchant: entry.payee || extractNarrationMerchant(entry.description),
+    template: `${STATEMENT_TEMPLATE_PREFIX}${format}`,
+  };
+}
+
+function bankOf(account: string): string {
+  return account.replace(/\s+XX\w+$/i, '').toUpperCase();
+}
+
+/**
+ * Find the SMS-ingested transaction a statement entry corresponds to
+ * Matches on direction + amount within RECONCILE_WINDOW_DAYS, preferring a shared
+ * reference number and then the closest date
+ */
+function findSmsMatch(
+  entry: StatementEntry,
+  details: ExtractedDetails,
+  candidates: ParsedTransaction[],
+  used: Set<ParsedTransaction>
+): ParsedTransaction | null {
+  let best: { transaction: ParsedTransaction; score: number } | null = null;
+
+  for (const transaction of candidates) {
+    if (used.has(transaction) || transaction.direction !== entry.direction) {
+      continue;
+    }
+    if (Math.abs(transaction.amount - entry.amount) >= 0.01) {
+      continue;
+    }
+    if (entry.account !== 'Unknown' && transaction.account !== 'Unknown' && bankOf(entry.account) !== bankOf(transaction.account)) {
+      continue;
+    }
+
+    const smsDate = parseCalendarDate(transaction.transaction_date);
+    const days = smsDate ? daysBetween(smsDate, entry.date) : Infinity;
+    if (days > RECONCILE_WINDOW_DAYS) {
+      continue;
+    }
+
+    const sharesReference = transaction.transaction_id.length >= 6
+      && (entry.description.includes(transaction.transaction_id) || details.transactionId === transaction.transaction_id);
+    const score = (sharesReference ? 0 : 10) + days;
+
+    if (!best || score < best.score) {
+      best = { transaction, score };
+    }
+  }
+
+  return best?.transaction || null;
+}
+
+/**
+ * Parse a statement file into entries
+ */
+export function parseStatement(content: string, options: StatementImportOptions): StatementEntry[] {
+  const account = options.account || 'Unknown';
+
+  if (options.format === 'ofx') {
+    return parseOfxStatement(content, account, options.bank);
+  }
+
+  const mapping = options.mapping || CSV_MAPPINGS[(options.bank || 'generic').toLowerCase()];
+  if (!mapping) {
+    throw new Error(`No CSV column mapping for bank "${options.bank}". Known banks: ${Object.keys(CSV_MAPPINGS).join(', ')}`);
+  }
+
+  return parseCsvStatement(content, mapping, account);
+}
+
+/**
+ * Import a bank / credit-card statement
+ *
+ * - Rows already imported from an earlier statement are skipped (fingerprint)
+ * - Rows that match an SMS-ingested transaction (in the ledger, the review queue or the outbox)
+ *   are skipped so nothing is counted twice
+ * - The rest go through merchant rules + Gemini categorization and are bulk-written
+ *   (or queued for review, see writeImportedTransactions)
+ */
+export async function importStatement(content: string, options: StatementImportOptions): Promise<ImportReport> {
+  const store = getTransactionStore();
+  const entries = parseStatement(content, options);
+  const results: ImportResult[] = [];
+  const toCategorize: { index: number; text: string; details: ExtractedDetails }[] = [];
+
+  const existing = await store.list();
+  const seenFingerprints = await knownFingerprints(existing);
+  // SMS transactions still waiting for review or for the ledger write count as recorded too
+  const queued = (await listReviewItems('pending')).map((item) => item.transaction);
+  const outbox = (await listOutboxEntries()).map((entry) => entry.transaction);
+  const smsTransactions = [...new Map([...outbox, ...queued, ...existing].map((transaction) => [transaction.fingerprint, transaction])).values()]
+    .filter((transaction) => !transaction.template.startsWith(STATEMENT_TEMPLATE_PREFIX));
+  const matched = new Set<ParsedTransaction>();
+  const occurrences = new Map<string, number>();
+
+  entries.forEach((entry, index) => {
+    const details = toDetails(entry, options.format);
+    const row = {
+      text: entry.reference ? `${entry.description} ${entry.reference}` : entry.description,
+      amount: details.amount,
+      account: details.account,
+      timestamp: details.transactionDate,
+    };
+    // Identical rows (two ATM withdrawals of the same amount on one day) are told apart by
+    // their order in the statement - stable when an overlapping statement is imported again
+    const rowKey = computeFingerprint(row);
+    const occurrence = (occurrences.get(rowKey) ?? 0) + 1;
+    occurrences.set(rowKey, occurrence);
+    const fingerprint = occurrence === 1 ? rowKey : computeFingerprint({ ...row, text: `${row.text} #${occurrence}` });
+    details.fingerprint = fingerprint;
+
+    if (seenFingerprints.has(fingerprint)) {
+      results[index] = { index, status: 'skipped', reason: 'duplicate' };
+      return;
+    }
+    seenFingerprints.add(fingerprint);
+
+    const smsMatch = findSmsMatch(entry, details, smsTransactions, matched);
+    if (smsMatch) {
+      matched.add(smsMatch);
+      results[index] = { index, status: 'skipped', reason: 'matched_sms', matched_transaction_id: smsMatch.transaction_id };
+      return;
+    }
+
+    toCategorize.push({ index, text: entry.description, details });
+  });
+
+  const transactions = await categorizeExtractedBatch(toCategorize);
+  await writeImportedTransactions(
+    transactions.map((transaction, position) => ({ index: toCategorize[position]!.index, transaction })),
+    results,
+    'statement'
+  );
+
+  return buildImportReport(results, entries.length);
+}
@@ -0,0 +1,57 @@
+import { AsyncLocalStorage } from 'async_hooks';
+import { z } from 'zod';
+import { ALLOWED_CATEGORIES } from '../config/categories';
+
+/**
+ * A user (or team) of the deployment, with their own ledger, rules, categories and budgets
+ */
+export interface Tenant {
+  id: string;
+  name: string;
+  sheets_id: string | null;        // Ledger spreadsheet, used by the sheets stores
+  categories: string[] | null;     // null = ALLOWED_CATEGORIES
+  budget_alert_webhook_url: string | null;
+  created_at: string;
+}
+
+// Existing single-user deployments keep their data as the default tenant
+export const DEFAULT_TENANT_ID = 'default';
+
+const storage = new AsyncLocalStorage<Tenant>();
+
+/**
+ * Run a task on behalf of a tenant - every tenant-scoped store inside it uses that tenant's data
+ */
+export function runWithTenant<R>(tenant: Tenant, task: () => R): R {
+  return storage.run(tenant, task);
+}
+
+/**
+ * Tenant of the current request or background job
+ * Throws outside runWithTenant, so nothing can fall back to another tenant's data
+ */
+export function currentTenant(): Tenant {
+  const tenant = storage.getStore();
+  if (!tenant) {
+    throw new Error('No tenant in context - tenant-scoped data accessed outside runWithTenant');
+  }
+  return tenant;
+}
+
+/**
+ * Category list of the current tenant
+ */
+export function tenantCategories(): readonly string[] {
+  return currentTenant().categories ?? ALLOWED_CATEGORIES;
+}
+
+export function isTenantCategory(category: string): boolean {
+  return tenantCategories().includes(category);
+}
+
+/**
+ * Category field validated against the current tenant's list at parse time
+ */
+export const categorySchema = z.string().refine(isTenantCategory, {
+  error: (issue) => `Category "${String(issue.input)}" is not one of: ${tenantCategories().join(', ')}`,
+});
@@ -0,0 +1,118 @@
+import { z } from 'zod';
+import { SHEETS_ID } from '../config/sheets';
+import { createJsonFile } from './jsonFile';
+import { resetMerchantRuleStore } from './merchantRules';
+import { DEFAULT_TENANT_ID, runWithTenant, Tenant } from './tenantContext';
+import { resetTransactionStore } from './transactionStore';
+
+interface TenantsFile {
+  tenants: Tenant[];
+}
+
+// Deployment-wide registry, not scoped to a tenant
+const file = createJsonFile<TenantsFile>('tenants.json', () => ({ tenants: [] }));
+
+// Custom category lists always keep "Unknown" - it is the fallback for failed classifications
+const categoriesSchema = z.array(z.string().trim().min(1)).min(1)
+  .transform((categories) => [...new Set([...categories, 'Unknown'])]);
+
+// Fields that can be changed - null resets to the deployment default
+// sheets_id and budget_alert_webhook_url only by the deployment admin
+export const tenantUpdateSchema = z.object({
+  name: z.string().trim().min(1).optional(),
+  sheets_id: z.string().trim().min(1).nullable().optional(),
+  categories: categoriesSchema.nullable().optional(),
+  budget_alert_webhook_url: z.url().nullable().optional(),
+});
+
+export const tenantInputSchema = z.object({
+  id: z.string().regex(/^[a-z0-9][a-z0-9_-]{0,39}$/, 'id must be lowercase letters, digits, _ or - (max 40)')
+    .refine((id) => id !== DEFAULT_TENANT_ID, `"${DEFAULT_TENANT_ID}" is reserved`),
+  name: z.string().trim().min(1),
+  sheets_id: z.string().trim().min(1).nullable().default(null),
+  categories: categoriesSchema.nullable().default(null),
+  budget_alert_webhook_url: z.url().nullable().default(null),
+});
+
+export type TenantInput = z.infer<typeof tenantInputSchema>;
+export type TenantUpdate = z.infer<typeof tenantUpdateSchema>;
+
+export class TenantConflictError extends Error {}
+
+/**
+ * The original single-user setup - configured from the environment, not editable through the API
+ */
+export function defaultTenant(): Tenant {
+  return {
+    id: DEFAULT_TENANT_ID,
+    name: 'Default',
+    sheets_id: SHEETS_ID || null,
+    categories: null,
+    budget_alert_webhook_url: process.env.BUDGET_ALERT_WEBHOOK_URL || null,
+    created_at: new Date(0).toISOString(),
+  };
+}
+
+export async function listTenants(): Promise<Tenant[]> {
+  const data = await file.read();
+  return [defaultTenant(), ...data.tenants];
+}
+
+export async function findTenant(id: string): Promise<Tenant | null> {
+  if (id === DEFAULT_TENANT_ID) {
+    return defaultTenant();
+  }
+  const data = await file.read();
+  return data.tenants.find((tenant) => tenant.id === id) || null;
+}
+
+export async function createTenant(input: TenantInput): Promise<Tenant> {
+  return file.update((data) => {
+    if (data.tenants.some((tenant) => tenant.id === input.id)) {
+      throw new TenantConflictError(`Tenant "${input.id}" already exists`);
+    }
+
+    const tenant: Tenant = { ...input, created_at: new Date().toISOString() };
+    data.tenants.push(tenant);
+    return { ...tenant };
+  });
+}
+
+/**
+ * Update a tenant - returns null when it does not exist
+ * Cached stores and rules are dropped so a new spreadsheet takes effect immediately
+ */
+export async function updateTenant(id: string, changes: TenantUpdate): Promise<Tenant | null> {
+  if (id === DEFAULT_TENANT_ID) {
+    throw new TenantConflictError(`Tenant "${DEFAULT_TENANT_ID}" is configured through the environment`);
+  }
+
+  const updated = await file.update((data) => {
+    const tenant = data.tenants.find((candidate) => candidate.id === id);
+    if (!tenant) {
+      return null;
+    }
+    Object.assign(tenant, Object.fromEntries(Object.entries(changes).filter(([, value]) => value !== undefined)));
+    return { ...tenant };
+  });
+
+  if (updated) {
+    resetTransactionStore(id);
+    resetMerchantRuleStore(id);
+  }
+  return updated;
+}
+
+/**
+ * Run a background task once per tenant, each inside its own tenant context
+ * A failing tenant is logged and does not stop the others
+ */
+export async function forEachTenant(task: (tenant: Tenant) => Promise<void>): Promise<void> {
+  for (const tenant of await listTenants()) {
+    try {
+      await runWithTenant(tenant, () => task(tenant));
+    } catch (error) {
+      console.error(`Background task failed for tenant "${tenant.id}":`, error);
+    }
+  }
+}
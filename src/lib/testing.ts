@@ -0,0 +1,61 @@
+import { mkdtempSync, rmSync } from 'fs';
+import { tmpdir } from 'os';
+import path from 'path';
+import { randomUUID } from 'crypto';
+import type { ParsedTransaction } from './geminiAgent';
+import { runWithTenant, Tenant } from './tenantContext';
+
+/**
+ * Shared setup for the node:test suites - import it before anything else
+ *
+ * - Every test process gets its own DATA_DIR, removed on exit
+ * - Transactions go to the file store and classification to the fake classifier,
+ *   so no Google or OpenAI credentials are needed
+ */
+const dataDir = mkdtempSync(path.join(tmpdir(), 'fintech-test-'));
+process.env.DATA_DIR = dataDir;
+process.env.TRANSACTION_STORE = 'file';
+process.env.CLASSIFIER_PROVIDER = 'fake';
+process.on('exit', () => rmSync(dataDir, { recursive: true, force: true }));
+
+/**
+ * Run a test body as a brand-new tenant, so it starts from empty files
+ */
+export function asNewTenant<R>(task: () => Promise<R>, overrides: Partial<Tenant> = {}): Promise<R> {
+  const tenant: Tenant = {
+    id: `test-${randomUUID().slice(0, 8)}`,
+    name: 'Test',
+    sheets_id: null,
+    categories: null,
+    budget_alert_webhook_url: null,
+    created_at: new Date().toISOString(),
+    ...overrides,
+  };
+  return runWithTenant(tenant, task);
+}
+
+/**
+ * A parsed rupee outflow - override whatever the test is about
+ */
+export function makeTransaction(overrides: Partial<ParsedTransaction> = {}): ParsedTransaction {
+  const fingerprint = overrides.fingerprint ?? randomUUID();
+  return {
+    transaction_id: `REF${fingerprint.slice(0, 8)}`,
+    transaction_date: '05 Feb 2026',
+    occurred_at: '2026-02-05T10:00:00+05:30',
+    date_inferred: false,
+    amount: 100,
+    category: 'Food & Dining',
+    merchant: 'Swiggy',
+    account: 'HDFC Bank XX1234',
+    payment_method: 'UPI',
+    direction: 'Outflow',
+    created_at: '2026-02-05T10:00:05+05:30',
+    raw_message: 'Rs.100.00 debited from A/c XX1234 to VPA swiggy@icici',
+    confidence: 1,
+    fingerprint,
+    template: 'generic',
+    currency: 'INR',
+    ...overrides,
+  };
+}
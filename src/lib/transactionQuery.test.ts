@@ -0,0 +1,28 @@
+import { makeTransaction } from './testing';
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+import { queryTransactions, transactionQuerySchema } from './transactionQuery';
+
+const sameDay = [
+  makeTransaction({ fingerprint: 'c', merchant: 'Lunch', occurred_at: '2026-02-05T13:00:00+05:30' }),
+  makeTransaction({ fingerprint: 'a', merchant: 'Dinner', occurred_at: '2026-02-05T21:00:00+05:30' }),
+  makeTransaction({ fingerprint: 'b', merchant: 'Breakfast', occurred_at: '2026-02-05T08:00:00+05:30' }),
+];
+
+test('orders transactions of one day by time', () => {
+  const page = queryTransactions(sameDay, transactionQuerySchema.parse({}));
+  assert.deepEqual(page.items.map((transaction) => transaction.merchant), ['Dinner', 'Lunch', 'Breakfast']);
+});
+
+test('pages through a day with the cursor without skipping or repeating', () => {
+  const first = queryTransactions(sameDay, transactionQuerySchema.parse({ order: 'asc', limit: 2 }));
+  const second = queryTransactions(sameDay, transactionQuerySchema.parse({ order: 'asc', limit: 2, cursor: first.next_cursor }));
+
+  assert.deepEqual([...first.items, ...second.items].map((transaction) => transaction.merchant), ['Breakfast', 'Lunch', 'Dinner']);
+  assert.equal(second.next_cursor, null);
+});
+
+test('rejects impossible dates in the filters', () => {
+  assert.equal(transactionQuerySchema.safeParse({ from: '2026-02-30' }).success, false);
+  assert.equal(transactionQuerySchema.safeParse({ from: '2026-02-28', to: '2026-03-01' }).success, true);
+});
@@ -0,0 +1,155 @@
+import { z } from 'zod';
+import type { ParsedTransaction } from './geminiAgent';
+import { parseCalendarDate } from './dates';
+
+const SORT_FIELDS = ['date', 'amount', 'confidence', 'merchant', 'category'] as const;
+
+type SortField = typeof SORT_FIELDS[number];
+
+const isoDate = z.string()
+  .regex(/^\d{4}-\d{2}-\d{2}$/, 'Expected YYYY-MM-DD')
+  .refine((value) => parseCalendarDate(value) !== null, 'Not a calendar date');
+
+export const transactionQuerySchema = z.object({
+  from: isoDate.optional(),
+  to: isoDate.optional(),
+  category: z.string().min(1).optional(),
+  merchant: z.string().min(1).optional(),
+  account: z.string().min(1).optional(),
+  direction: z.enum(['Inflow', 'Outflow']).optional(),
+  payment_method: z.string().min(1).optional(),
+  min_amount: z.coerce.number().nonnegative().optional(),
+  max_amount: z.coerce.number().nonnegative().optional(),
+  min_confidence: z.coerce.number().min(0).max(1).optional(),
+  max_confidence: z.coerce.number().min(0).max(1).optional(),
+  sort: z.enum(SORT_FIELDS).default('date'),
+  order: z.enum(['asc', 'desc']).default('desc'),
+  limit: z.coerce.number().int().min(1).max(500).default(50),
+  cursor: z.string().min(1).optional(),
+});
+
+export type TransactionQuery = z.infer<typeof transactionQuerySchema>;
+
+export interface TransactionPage {
+  items: ParsedTransaction[];
+  next_cursor: string | null;
+  total: number;
+}
+
+interface Cursor {
+  value: string | number;
+  id: string;
+}
+
+// Exact time, so transactions of one day keep their order - the calendar day only for rows without it
+function dateValue(transaction: ParsedTransaction): number {
+  const occurredAt = new Date(transaction.occurred_at).getTime();
+  return Number.isNaN(occurredAt) ? parseCalendarDate(transaction.transaction_date)?.getTime() ?? 0 : occurredAt;
+}
+
+function sortValue(transaction: ParsedTransaction, field: SortField): string | number {
+  switch (field) {
+    case 'date': return dateValue(transaction);
+    case 'amount': return transaction.amount;
+    case 'confidence': return transaction.confidence;
+    case 'merchant': return transaction.merchant.toLowerCase();
+    case 'category': return transaction.category.toLowerCase();
+  }
+}
+
+/**
+ * Compare two sort keys, falling back to the fingerprint so the order is total
+ * (required for stable cursor pagination)
+ */
+function compareKeys(a: Cursor, b: Cursor, order: 'asc' | 'desc'): number {
+  let result = a.value < b.value ? -1 : a.value > b.value ? 1 : 0;
+  if (result === 0) {
+    result = a.id < b.id ? -1 : a.id > b.id ? 1 : 0;
+  }
+  return order === 'asc' ? result : -result;
+}
+
+function encodeCursor(cursor: Cursor): string {
+  return Buffer.from(JSON.stringify(cursor)).toString('base64url');
+}
+
+function decodeCursor(value: string): Cursor {
+  try {
+    const cursor = JSON.parse(Buffer.from(value, 'base64url').toString('utf8')) as Cursor;
+    if (typeof cursor.id !== 'string' || (typeof cursor.value !== 'string' && typeof cursor.value !== 'number')) {
+      throw new Error('Malformed cursor');
+    }
+    return cursor;
+  } catch {
+    throw new Error('Invalid cursor');
+  }
+}
+
+function matchesFilters(transaction: ParsedTransaction, query: TransactionQuery): boolean {
+  const contains = (value: string, needle: string) => value.toLowerCase().includes(needle.toLowerCase());
+  const equals = (value: string, expected: string) => value.toLowerCase() === expected.toLowerCase();
+
+  if (query.from || query.to) {
+    const date = parseCalendarDate(transaction.transaction_date);
+    if (!date) return false;
+    const from = query.from ? parseCalendarDate(query.from) : null;
+    const to = query.to ? parseCalendarDate(query.to) : null;
+    if (from && date < from) return false;
+    if (to && date > to) return false;
+  }
+
+  if (query.category && !equals(transaction.category, query.category)) return false;
+  if (query.merchant && !contains(transaction.merchant, query.merchant)) return false;
+  if (query.account && !contains(transaction.account, query.account)) return false;
+  if (query.direction && transaction.direction !== query.direction) return false;
+  if (query.payment_method && !equals(transaction.payment_method, query.payment_method)) return false;
+  if (query.min_amount !== undefined && transaction.amount < query.min_amount) return false;
+  if (query.max_amount !== undefined && transaction.amount > query.max_amount) return false;
+  if (query.min_confidence !== undefined && transaction.confidence < query.min_confidence) return false;
+  if (query.max_confidence !== undefined && transaction.confidence > query.max_confidence) return false;
+
+  return true;
+}
+
+/**
+ * Filter, sort and paginate transactions
+ * Cursors point at the last item of the previous page (keyset pagination),
+ * so pages stay consistent while new transactions are being ingested
+ */
+export function queryTransactions(transactions: ParsedTransaction[], query: TransactionQuery): TransactionPage {
+  const key = (transaction: ParsedTransaction): Cursor => ({
+    value: sortValue(transaction, query.sort),
+    id: transaction.fingerprint,
+  });
+
+  const filtered = transactions
+    .filter((transaction) => matchesFilters(transaction, query))
+    .sort((a, b) => compareKeys(key(a), key(b), query.order));
+
+  const after = query.cursor ? decodeCursor(query.cursor) : null;
+  const remaining = after
+    ? filtered.filter((transaction) => compareKeys(key(transaction), after, query.order) > 0)
+    : filtered;
+
+  const items = remaining.slice(0, query.limit);
+  const last = items[items.length - 1];
+
+  return {
+    items,
+    next_cursor: last && remaining.length > items.length ? encodeCursor(key(last)) : null,
+    total: filtered.length,
+  };
+}
+
+/**
+ * Find a transaction by fingerprint, or by transaction_id when that is unique
+ */
+export function findTransaction(transactions: ParsedTransaction[], id: string): ParsedTransaction | null {
+  const byFingerprint = transactions.find((transaction) => transaction.fingerprint === id);
+  if (byFingerprint) {
+    return byFingerprint;
+  }
+
+  const byTransactionId = transactions.filter((transaction) => transaction.transaction_id === id);
+  return byTransactionId.length === 1 ? byTransactionId[0]! : null;
+}
@@ -0,0 +1,60 @@
+import type { ParsedTransaction } from './geminiAgent';
+import { createSheetsTransactionStore } from './sheets';
+import { createFileTransactionStore } from './fileStore';
+import { currentTenant, Tenant } from './tenantContext';
+
+export interface TransactionUpdate {
+  fingerprint: string;
+  changes: Partial<ParsedTransaction>;
+}
+
+/**
+ * Storage backend for ingested transactions
+ * Every sink (Google Sheets, local file, ...) implements this interface
+ */
+export interface TransactionStore {
+  readonly name: string;
+  append(transaction: ParsedTransaction): Promise<void>;
+  appendMany(transactions: ParsedTransaction[]): Promise<void>;
+  list(): Promise<ParsedTransaction[]>;
+  update(fingerprint: string, changes: Partial<ParsedTransaction>): Promise<ParsedTransaction | null>;
+  updateMany(updates: TransactionUpdate[]): Promise<number>; // One write for many rows, returns how many exist
+  findByFingerprint(fingerprint: string): Promise<ParsedTransaction | null>;
+}
+
+const STORE_FACTORIES: Record<string, (tenant: Tenant) => TransactionStore> = {
+  sheets: createSheetsTransactionStore,
+  file: createFileTransactionStore,
+};
+
+const stores = new Map<string, TransactionStore>();
+
+/**
+ * Get the configured transaction store of the current tenant
+ * Selected with TRANSACTION_STORE (sheets | file), defaults to sheets
+ */
+export function getTransactionStore(): TransactionStore {
+  const tenant = currentTenant();
+  const existing = stores.get(tenant.id);
+  if (existing) {
+    return existing;
+  }
+
+  const backend = (process.env.TRANSACTION_STORE || 'sheets').toLowerCase();
+  const factory = STORE_FACTORIES[backend];
+
+  if (!factory) {
+    throw new Error(`Unknown TRANSACTION_STORE "${backend}". Expected one of: ${Object.keys(STORE_FACTORIES).join(', ')}`);
+  }
+
+  const store = factory(tenant);
+  stores.set(tenant.id, store);
+  return store;
+}
+
+/**
+ * Drop a tenant's store, e.g. after its spreadsheet changed
+ */
+export function resetTransactionStore(tenantId: string): void {
+  stores.delete(tenantId);
+}
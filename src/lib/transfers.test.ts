@@ -0,0 +1,74 @@
+import { asNewTenant, makeTransaction } from './testing';
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+import { getTransactionStore } from './transactionStore';
+import { addOwnAccount, ownAccountInputSchema, scanSelfTransfers, tagSelfTransfers } from './transfers';
+
+const outflow = (overrides = {}) => makeTransaction({
+  account: 'HDFC Bank XX1234',
+  merchant: 'Transfer',
+  amount: 5000,
+  raw_message: 'Rs.5000.00 debited from A/c XX1234 via NEFT to A/c XX5678',
+  ...overrides,
+});
+
+const inflow = (overrides = {}) => makeTransaction({
+  account: 'ICICI Bank XX5678',
+  direction: 'Inflow',
+  merchant: 'Transfer',
+  amount: 5000,
+  raw_message: 'Rs.5000.00 credited to A/c XX5678 via NEFT',
+  ...overrides,
+});
+
+test('normalizes own account identifiers', () => {
+  assert.equal(ownAccountInputSchema.parse({ kind: 'account', identifier: 'XX5678' }).identifier, '5678');
+  assert.equal(ownAccountInputSchema.parse({ kind: 'vpa', identifier: 'Me@OkHdfc' }).identifier, 'me@okhdfc');
+  assert.equal(ownAccountInputSchema.safeParse({ kind: 'account', identifier: 'XX12' }).success, false);
+  assert.equal(ownAccountInputSchema.safeParse({ kind: 'vpa', identifier: 'not a vpa' }).success, false);
+});
+
+test('pairs a new leg with the stored leg carrying the same reference', () => asNewTenant(async () => {
+  await addOwnAccount(ownAccountInputSchema.parse({ kind: 'vpa', identifier: 'me@okhdfc' }));
+  const store = getTransactionStore();
+  const sent = outflow({ transaction_id: 'N123456789', raw_message: 'Rs.5000.00 debited from A/c XX1234' });
+  await store.append(sent);
+
+  const received = inflow({ transaction_id: 'N123456789' });
+  const [pair] = await tagSelfTransfers([received]);
+
+  assert.equal(pair?.matched_by, 'reference');
+  assert.equal(received.transfer_id, pair?.transfer_id);
+  assert.equal((await store.findByFingerprint(sent.fingerprint))?.transfer_id, pair?.transfer_id);
+}));
+
+test('pairs legs that name an own account within the window', () => asNewTenant(async () => {
+  await addOwnAccount(ownAccountInputSchema.parse({ kind: 'account', identifier: 'XX5678' }));
+  const sent = outflow();
+  const received = inflow({ transaction_date: '06 Feb 2026' });
+
+  const [pair] = await tagSelfTransfers([sent, received]);
+  assert.equal(pair?.matched_by, 'counterparty');
+  assert.equal(sent.transfer_id, received.transfer_id);
+}));
+
+test('leaves payments to other people alone', () => asNewTenant(async () => {
+  assert.deepEqual(await tagSelfTransfers([outflow(), inflow()]), []);
+
+  await addOwnAccount(ownAccountInputSchema.parse({ kind: 'account', identifier: 'XX5678' }));
+  assert.deepEqual(await tagSelfTransfers([outflow(), inflow({ amount: 4999 })]), []);
+  assert.deepEqual(await tagSelfTransfers([outflow(), inflow({ transaction_date: '10 Feb 2026' })]), []);
+  assert.deepEqual(await tagSelfTransfers([outflow({ raw_message: 'Rs.5000.00 debited from A/c XX1234 to VPA friend@okaxis' }), inflow()]), []);
+}));
+
+test('a scan tags transfers already in the ledger', () => asNewTenant(async () => {
+  const store = getTransactionStore();
+  const [sent, received] = [outflow(), inflow()];
+  await store.appendMany([sent, received, makeTransaction()]);
+  await addOwnAccount(ownAccountInputSchema.parse({ kind: 'account', identifier: '5678' }));
+
+  const pairs = await scanSelfTransfers();
+  assert.equal(pairs.length, 1);
+  const tagged = (await store.list()).filter((transaction) => transaction.transfer_id);
+  assert.deepEqual(tagged.map((transaction) => transaction.fingerprint).sort(), [sent.fingerprint, received.fingerprint].sort());
+}));
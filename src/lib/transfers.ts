@@ -0,0 +1,231 @@
+import { randomUUID } from 'crypto';
+import { z } from 'zod';
+import { daysBetween, parseCalendarDate } from './dates';
+import type { ParsedTransaction } from './geminiAgent';
+import { createTenantJsonFile } from './jsonFile';
+import { listOutboxEntries, updateOutboxTransaction } from './outbox';
+import { GENERATED_ID_PATTERN } from './reviewQueue';
+import { getTransactionStore } from './transactionStore';
+
+export type OwnAccountKind = 'account' | 'vpa';
+
+/**
+ * One of the user's own bank accounts (matched by its last digits) or UPI IDs
+ */
+export interface OwnAccount {
+  id: string;
+  kind: OwnAccountKind;
+  identifier: string;   // Account: last 3-6 digits, VPA: lowercase name@handle
+  label: string;
+  created_at: string;
+}
+
+export interface TransferPair {
+  transfer_id: string;
+  outflow: ParsedTransaction;
+  inflow: ParsedTransaction;
+  matched_by: 'reference' | 'counterparty';
+}
+
+interface OwnAccountsFile {
+  accounts: OwnAccount[];
+}
+
+// SMS for both legs usually arrive the same day, NEFT can settle the next working day
+const TRANSFER_MATCH_WINDOW_DAYS = parseInt(process.env.TRANSFER_MATCH_WINDOW_DAYS || '2', 10);
+
+const file = createTenantJsonFile<OwnAccountsFile>('own_accounts.json', () => ({ accounts: [] }));
+
+export const ownAccountInputSchema = z.object({
+  kind: z.enum(['account', 'vpa']),
+  identifier: z.string().trim().min(1),
+  label: z.string().trim().default(''),
+}).transform((input, ctx) => {
+  const identifier = input.kind === 'account'
+    ? input.identifier.replace(/\D/g, '').slice(-6)
+    : input.identifier.toLowerCase();
+
+  if (input.kind === 'account' && identifier.length < 3) {
+    ctx.addIssue({ code: 'custom', path: ['identifier'], message: 'Account identifier needs at least 3 digits (e.g. XX1234)' });
+  }
+  if (input.kind === 'vpa' && !/^[a-z0-9._-]+@[a-z0-9.-]+$/.test(identifier)) {
+    ctx.addIssue({ code: 'custom', path: ['identifier'], message: 'VPA must look like name@handle' });
+  }
+  return { ...input, identifier };
+});
+
+export type OwnAccountInput = z.infer<typeof ownAccountInputSchema>;
+
+export class OwnAccountConflictError extends Error {}
+
+export async function listOwnAccounts(): Promise<OwnAccount[]> {
+  const data = await file.read();
+  return [...data.accounts];
+}
+
+export async function addOwnAccount(input: OwnAccountInput): Promise<OwnAccount> {
+  return file.update((data) => {
+    if (data.accounts.some((account) => account.kind === input.kind && account.identifier === input.identifier)) {
+      throw new OwnAccountConflictError(`${input.kind} "${input.identifier}" is already registered`);
+    }
+
+    const account: OwnAccount = { id: randomUUID(), ...input, created_at: new Date().toISOString() };
+    data.accounts.push(account);
+    return { ...account };
+  });
+}
+
+/**
+ * Remove an account from the registry - returns false when it does not exist
+ * Transfers already tagged keep their transfer_id
+ */
+export async function removeOwnAccount(id: string): Promise<boolean> {
+  return file.update((data) => {
+    const before = data.accounts.length;
+    data.accounts = data.accounts.filter((account) => account.id !== id);
+    return data.accounts.length < before;
+  });
+}
+
+function escapeRegExp(value: string): string {
+  return value.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+}
+
+/**
+ * Does the message name one of the user's other accounts / VPAs as the counterparty?
+ * The transaction's own account is skipped - every SMS mentions that one
+ */
+function mentionsOwnCounterparty(transaction: ParsedTransaction, accounts: OwnAccount[]): boolean {
+  const ownDigits = transaction.account.match(/(\d{3,6})$/)?.[1];
+
+  return accounts.some((account) => {
+    if (account.kind === 'vpa') {
+      return transaction.raw_message.toLowerCase().includes(account.identifier);
+    }
+    if (ownDigits && (ownDigits.endsWith(account.identifier) || account.identifier.endsWith(ownDigits))) {
+      return false;
+    }
+    return new RegExp(`(?:[X*]+|a/c\\s*(?:no\\.?)?\\s*)${escapeRegExp(account.identifier)}\\b`, 'i').test(transaction.raw_message);
+  });
+}
+
+function withinWindow(a: ParsedTransaction, b: ParsedTransaction): boolean {
+  const first = parseCalendarDate(a.transaction_date);
+  const second = parseCalendarDate(b.transaction_date);
+  return Boolean(first && second && daysBetween(first, second) <= TRANSFER_MATCH_WINDOW_DAYS);
+}
+
+/**
+ * How two transactions form a transfer between own accounts, or null if they don't
+ * - Same amount, opposite directions, different accounts
+ * - Same bank reference (UTR) on both legs, or within the time window with
+ *   either leg naming one of the user's own accounts / VPAs
+ */
+function transferMatch(
+  outflow: ParsedTransaction,
+  inflow: ParsedTransaction,
+  accounts: OwnAccount[]
+): TransferPair['matched_by'] | null {
+  if (outflow.direction !== 'Outflow' || inflow.direction !== 'Inflow') {
+    return null;
+  }
+  if (Math.abs(outflow.amount - inflow.amount) >= 0.01 || outflow.amount <= 0) {
+    return null;
+  }
+  if (outflow.account !== 'Unknown' && outflow.account === inflow.account) {
+    return null;
+  }
+
+  if (outflow.transaction_id === inflow.transaction_id && !GENERATED_ID_PATTERN.test(outflow.transaction_id)) {
+    return 'reference';
+  }
+  if (withinWindow(outflow, inflow)
+    && (mentionsOwnCounterparty(outflow, accounts) || mentionsOwnCounterparty(inflow, accounts))) {
+    return 'counterparty';
+  }
+  return null;
+}
+
+/**
+ * Pair untagged transactions from candidates with untagged ones from the pool (or each other)
+ * Each transaction joins at most one pair, reference matches win over counterparty matches
+ * Only candidates are paired against everything, so a single new SMS costs one pass over the ledger
+ */
+function pairTransfers(candidates: ParsedTransaction[], pool: ParsedTransaction[], accounts: OwnAccount[]): TransferPair[] {
+  const untagged = candidates.filter((transaction) => !transaction.transfer_id);
+  const candidateSet = new Set(candidates);
+  const everything = [...untagged, ...pool.filter((transaction) => !candidateSet.has(transaction) && !transaction.transfer_id)];
+  const used = new Set<ParsedTransaction>();
+  const pairs: TransferPair[] = [];
+
+  for (const pass of ['reference', 'counterparty'] as const) {
+    for (const candidate of untagged) {
+      for (const other of everything) {
+        if (candidate === other || used.has(candidate) || used.has(other)) {
+          continue;
+        }
+        const [outflow, inflow] = candidate.direction === 'Outflow' ? [candidate, other] : [other, candidate];
+        if (transferMatch(outflow, inflow, accounts) === pass) {
+          pairs.push({ transfer_id: randomUUID(), outflow, inflow, matched_by: pass });
+          used.add(outflow);
+          used.add(inflow);
+        }
+      }
+    }
+  }
+
+  return pairs;
+}
+
+/**
+ * Tag new transactions (not yet written) that complete a transfer between own accounts
+ * New legs get transfer_id in place, legs already in the ledger are updated there
+ */
+export async function tagSelfTransfers(transactions: ParsedTransaction[]): Promise<TransferPair[]> {
+  const accounts = await listOwnAccounts();
+  if (accounts.length === 0 || transactions.length === 0) {
+    return [];
+  }
+
+  // Legs still waiting in the outbox count too - they reach the ledger later with their tag
+  const store = getTransactionStore();
+  const ledger = await store.list();
+  const queued = (await listOutboxEntries()).map((entry) => entry.transaction);
+  const pairs = pairTransfers(transactions, [...ledger, ...queued], accounts);
+
+  const tagged: TransferPair[] = [];
+  for (const pair of pairs) {
+    // Tag the stored leg first - if it has vanished, the new leg must not be left half-paired
+    const stored = [pair.outflow, pair.inflow].find((leg) => !transactions.includes(leg));
+    if (stored) {
+      const updated = await store.update(stored.fingerprint, { transfer_id: pair.transfer_id })
+        || await updateOutboxTransaction(stored.fingerprint, { transfer_id: pair.transfer_id });
+      if (!updated) {
+        continue;
+      }
+    }
+
+    pair.outflow.transfer_id = pair.transfer_id;
+    pair.inflow.transfer_id = pair.transfer_id;
+    tagged.push(pair);
+  }
+
+  return tagged;
+}
+
+/**
+ * Find transfer pairs across the whole ledger, e.g. after registering an account
+ */
+export async function scanSelfTransfers(): Promise<TransferPair[]> {
+  const accounts = await listOwnAccounts();
+  const store = getTransactionStore();
+  const ledger = await store.list();
+  const pairs = pairTransfers(ledger, [], accounts);
+
+  await store.updateMany(pairs.flatMap((pair) => [
+    { fingerprint: pair.outflow.fingerprint, changes: { transfer_id: pair.transfer_id } },
+    { fingerprint: pair.inflow.fingerprint, changes: { transfer_id: pair.transfer_id } },
+  ]));
+
+  return pairs;
+}
@@ -0,0 +1,18 @@
+const WEBHOOK_TIMEOUT_MS = 5000;
+
+/**
+ * POST a JSON payload to an outgoing webhook
+ * Throws on network errors and non-2xx responses so callers can log them
+ */
+export async function sendWebhook(url: string, payload: unknown): Promise<void> {
+  const response = await fetch(url, {
+    method: 'POST',
+    headers: { 'content-type': 'application/json' },
+    body: JSON.stringify(payload),
+    signal: AbortSignal.timeout(WEBHOOK_TIMEOUT_MS),
+  });
+
+  if (!response.ok) {
+    throw new Error(`Webhook responded with ${response.status}`);
+  }
+}
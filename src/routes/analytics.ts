@@ -0,0 +1,9 @@
+import { FastifyPluginAsync } from 'fastify';
+import { categoryAnalyticsHandler, monthlyAnalyticsHandler } from '../controller/analytics.controller';
+
+const analyticsRoute: FastifyPluginAsync = async (fastify, opts) => {
+  fastify.get('/finance/analytics/monthly', monthlyAnalyticsHandler);
+  fastify.get('/finance/analytics/categories', categoryAnalyticsHandler);
+};
+
+export default analyticsRoute;
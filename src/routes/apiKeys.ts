@@ -0,0 +1,10 @@
+import { FastifyPluginAsync } from 'fastify';
+import { createApiKeyHandler, listApiKeysHandler, revokeApiKeyHandler } from '../controller/apiKeys.controller';
+
+const apiKeysRoute: FastifyPluginAsync = async (fastify, opts) => {
+  fastify.get('/admin/api-keys', listApiKeysHandler);
+  fastify.post('/admin/api-keys', createApiKeyHandler);
+  fastify.delete('/admin/api-keys/:id', revokeApiKeyHandler);
+};
+
+export default apiKeysRoute;
@@ -0,0 +1,10 @@
+import { FastifyPluginAsync } from 'fastify';
+import { listBalanceGapsHandler, listBalancesHandler, resolveBalanceGapHandler } from '../controller/balances.controller';
+
+const balancesRoute: FastifyPluginAsync = async (fastify, opts) => {
+  fastify.get('/finance/balances', listBalancesHandler);
+  fastify.get('/finance/balances/gaps', listBalanceGapsHandler);
+  fastify.post('/finance/balances/gaps/:id/resolve', resolveBalanceGapHandler);
+};
+
+export default balancesRoute;
@@ -0,0 +1,8 @@
+import { FastifyPluginAsync } from 'fastify';
+import { listBillRemindersHandler } from '../controller/billReminders.controller';
+
+const billRemindersRoute: FastifyPluginAsync = async (fastify, opts) => {
+  fastify.get('/finance/bill-reminders', listBillRemindersHandler);
+};
+
+export default billRemindersRoute;
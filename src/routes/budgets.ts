@@ -0,0 +1,18 @@
+import { FastifyPluginAsync } from 'fastify';
+import {
+  budgetStatusHandler,
+  createBudgetHandler,
+  deleteBudgetHandler,
+  listBudgetsHandler,
+  updateBudgetHandler,
+} from '../controller/budgets.controller';
+
+const budgetsRoute: FastifyPluginAsync = async (fastify, opts) => {
+  fastify.get('/finance/budgets', listBudgetsHandler);
+  fastify.get('/finance/budgets/status', budgetStatusHandler);
+  fastify.post('/finance/budgets', createBudgetHandler);
+  fastify.put('/finance/budgets/:id', updateBudgetHandler);
+  fastify.delete('/finance/budgets/:id', deleteBudgetHandler);
+};
+
+export default budgetsRoute;
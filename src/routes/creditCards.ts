@@ -0,0 +1,9 @@
+import { FastifyPluginAsync } from 'fastify';
+import { listCardStatementsHandler, listCreditCardsHandler } from '../controller/creditCards.controller';
+
+const creditCardsRoute: FastifyPluginAsync = async (fastify, opts) => {
+  fastify.get('/finance/credit-cards', listCreditCardsHandler);
+  fastify.get('/finance/credit-cards/statements', listCardStatementsHandler);
+};
+
+export default creditCardsRoute;
@@ -0,0 +1,10 @@
+import { FastifyPluginAsync } from 'fastify';
+import { deleteExchangeRateHandler, listExchangeRatesHandler, setExchangeRateHandler } from '../controller/exchangeRates.controller';
+
+const exchangeRatesRoute: FastifyPluginAsync = async (fastify, opts) => {
+  fastify.get('/admin/exchange-rates', listExchangeRatesHandler);
+  fastify.put('/admin/exchange-rates/:currency', setExchangeRateHandler);
+  fastify.delete('/admin/exchange-rates/:currency', deleteExchangeRateHandler);
+};
+
+export default exchangeRatesRoute;
@@ -1,8 +1,24 @@
 import { FastifyPluginAsync } from 'fastify';
 import { newTransactionHandler } from '../controller/finance.controller';
+import { importSmsHandler, importStatementHandler } from '../controller/import.controller';
+
+// SMS backups and statements can span years of transactions
+const IMPORT_BODY_LIMIT = parseInt(process.env.IMPORT_BODY_LIMIT_BYTES || `${50 * 1024 * 1024}`, 10);
 
 const ingestRoute: FastifyPluginAsync = async (fastify, opts) => {
+  // SMS backups (XML) and statements (CSV, OFX/QFX) reach the controllers as raw strings
+  const rawContentTypes = [
+    'application/xml', 'text/xml',
+    'text/csv',
+    'application/x-ofx', 'application/vnd.intu.qfx', 'application/x-qfx',
+  ];
+  fastify.addContentTypeParser(rawContentTypes, { parseAs: 'string' }, (req, body, done) => {
+    done(null, body);
+  });
+
   fastify.post('/finance/new-transaction', newTransactionHandler);
+  fastify.post('/finance/import/sms', { bodyLimit: IMPORT_BODY_LIMIT }, importSmsHandler);
+  fastify.post('/finance/import/statement', { bodyLimit: IMPORT_BODY_LIMIT }, importStatementHandler);
 };
 
-export default ingestRoute;
\ No newline at end of file
+export default ingestRoute;
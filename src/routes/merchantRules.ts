@@ -0,0 +1,19 @@
+import { FastifyPluginAsync } from 'fastify';
+import {
+  createMerchantRuleHandler,
+  deleteMerchantRuleHandler,
+  listMerchantRulesHandler,
+  testMerchantRuleHandler,
+  updateMerchantRuleHandler,
+} from '../controller/merchantRules.controller';
+
+// :id is the rule's normalized match_pattern, URL-encoded
+const merchantRulesRoute: FastifyPluginAsync = async (fastify, opts) => {
+  fastify.get('/finance/merchant-rules', listMerchantRulesHandler);
+  fastify.post('/finance/merchant-rules', createMerchantRuleHandler);
+  fastify.post('/finance/merchant-rules/test', testMerchantRuleHandler);
+  fastify.put('/finance/merchant-rules/:id', updateMerchantRuleHandler);
+  fastify.delete('/finance/merchant-rules/:id', deleteMerchantRuleHandler);
+};
+
+export default merchantRulesRoute;
@@ -0,0 +1,10 @@
+import { FastifyPluginAsync } from 'fastify';
+import { discardOutboxHandler, listOutboxHandler, replayOutboxHandler } from '../controller/outbox.controller';
+
+const outboxRoute: FastifyPluginAsync = async (fastify, opts) => {
+  fastify.get('/admin/outbox', listOutboxHandler);
+  fastify.post('/admin/outbox/:id/replay', replayOutboxHandler);
+  fastify.delete('/admin/outbox/:id', discardOutboxHandler);
+};
+
+export default outboxRoute;
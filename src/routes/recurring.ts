@@ -0,0 +1,9 @@
+import { FastifyPluginAsync } from 'fastify';
+import { listRecurringHandler, scanRecurringHandler } from '../controller/recurring.controller';
+
+const recurringRoute: FastifyPluginAsync = async (fastify, opts) => {
+  fastify.get('/finance/recurring', listRecurringHandler);
+  fastify.post('/finance/recurring/scan', scanRecurringHandler);
+};
+
+export default recurringRoute;
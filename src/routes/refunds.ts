@@ -0,0 +1,8 @@
+import { FastifyPluginAsync } from 'fastify';
+import { scanRefundsHandler } from '../controller/refunds.controller';
+
+const refundsRoute: FastifyPluginAsync = async (fastify, opts) => {
+  fastify.post('/finance/refunds/scan', scanRefundsHandler);
+};
+
+export default refundsRoute;
@@ -0,0 +1,10 @@
+import { FastifyPluginAsync } from 'fastify';
+import { approveReviewHandler, listReviewHandler, rejectReviewHandler } from '../controller/review.controller';
+
+const reviewRoute: FastifyPluginAsync = async (fastify, opts) => {
+  fastify.get('/finance/review', listReviewHandler);
+  fastify.post('/finance/review/:id/approve', approveReviewHandler);
+  fastify.post('/finance/review/:id/reject', rejectReviewHandler);
+};
+
+export default reviewRoute;
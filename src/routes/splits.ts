@@ -0,0 +1,22 @@
+import { FastifyPluginAsync } from 'fastify';
+import {
+  addContactHandler,
+  listContactBalancesHandler,
+  listContactsHandler,
+  listSplitsHandler,
+  recordSettlementHandler,
+  removeSplitHandler,
+  splitTransactionHandler,
+} from '../controller/splits.controller';
+
+const splitsRoute: FastifyPluginAsync = async (fastify, opts) => {
+  fastify.get('/finance/contacts', listContactsHandler);
+  fastify.post('/finance/contacts', addContactHandler);
+  fastify.get('/finance/contacts/balances', listContactBalancesHandler);
+  fastify.post('/finance/contacts/:id/settlements', recordSettlementHandler);
+  fastify.post('/finance/transactions/:id/split', splitTransactionHandler);
+  fastify.get('/finance/splits', listSplitsHandler);
+  fastify.delete('/finance/splits/:id', removeSplitHandler);
+};
+
+export default splitsRoute;
@@ -0,0 +1,10 @@
+import { FastifyPluginAsync } from 'fastify';
+import { createTenantHandler, listTenantsHandler, updateTenantHandler } from '../controller/tenants.controller';
+
+const tenantsRoute: FastifyPluginAsync = async (fastify, opts) => {
+  fastify.get('/admin/tenants', listTenantsHandler);
+  fastify.post('/admin/tenants', createTenantHandler);
+  fastify.patch('/admin/tenants/:id', updateTenantHandler);
+};
+
+export default tenantsRoute;
@@ -0,0 +1,16 @@
+import { FastifyPluginAsync } from 'fastify';
+import {
+  correctTransactionHandler,
+  getTransactionHandler,
+  listTransactionsHandler,
+  transactionCorrectionsHandler,
+} from '../controller/transactions.controller';
+
+const transactionsRoute: FastifyPluginAsync = async (fastify, opts) => {
+  fastify.get('/finance/transactions', listTransactionsHandler);
+  fastify.get('/finance/transactions/:id', getTransactionHandler);
+  fastify.patch('/finance/transactions/:id', correctTransactionHandler);
+  fastify.get('/finance/transactions/:id/corrections', transactionCorrectionsHandler);
+};
+
+export default transactionsRoute;
@@ -0,0 +1,16 @@
+import { FastifyPluginAsync } from 'fastify';
+import {
+  addOwnAccountHandler,
+  listOwnAccountsHandler,
+  removeOwnAccountHandler,
+  scanSelfTransfersHandler,
+} from '../controller/transfers.controller';
+
+const transfersRoute: FastifyPluginAsync = async (fastify, opts) => {
+  fastify.get('/finance/own-accounts', listOwnAccountsHandler);
+  fastify.post('/finance/own-accounts', addOwnAccountHandler);
+  fastify.delete('/finance/own-accounts/:id', removeOwnAccountHandler);
+  fastify.post('/finance/transfers/scan', scanSelfTransfersHandler);
+};
+
+export default transfersRoute;
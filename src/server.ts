@@ -1,9 +1,17 @@
 import 'dotenv/config';
 import { buildApp } from "./app";
+import { startClassificationWorker } from "./lib/classificationWorker";
+import { startOutboxWorker } from "./lib/outbox";
 
 const app = buildApp();
 
 app.listen({ port: 8080, host: "0.0.0.0" })
+  .then(() => {
+    // Retries classifications that failed while the LLM was unavailable
+    startClassificationWorker();
+    // Retries ledger writes that failed (e.g. Sheets quota errors)
+    startOutboxWorker();
+  })
   .catch(err => {
     app.log.error(err);
     process.exit(1);